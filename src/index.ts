@@ -6,12 +6,34 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   CallToolRequest,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ServerCapabilities,
 } from '@modelcontextprotocol/sdk/types.js';
 import { featureStart } from './tools/feature-start.js';
 import { featureStatus } from './tools/feature-status.js';
 import { featureCleanup } from './tools/feature-cleanup.js';
 import { featureRevision } from './tools/feature-revision.js';
+import { featureSync } from './tools/feature-sync.js';
+import { featureLogs } from './tools/feature-logs.js';
+import { featureStop } from './tools/feature-stop.js';
+import { featureVerify } from './tools/feature-verify.js';
+import { featureUsage } from './tools/feature-usage.js';
+import { featureStartBatch } from './tools/feature-start-batch.js';
+import { featureSpecLint } from './tools/feature-spec-lint.js';
+import { featureStartFromIssue } from './tools/feature-start-from-issue.js';
+import { projectAdd } from './tools/project-add.js';
+import { projectList } from './tools/project-list.js';
+import { createErrorResult, RESULT_FORMATS, validateResultFormat } from './utils/tool-result.js';
+import { AGENT_PROFILES } from './utils/agent-runner.js';
+import { VERIFY_GATES } from './utils/verify.js';
 import { verifySetup } from './tools/verify-setup.js';
+import { createResourceWatcher, listFeatureResources, readFeatureResource } from './utils/resources.js';
+import { createToolCallRegistry, RequestId, ToolCallContext } from './utils/tool-calls.js';
+import { listKnownProjects } from './utils/projects.js';
+import { resumeRetryLoops } from './utils/retry.js';
 
 const server: Server = new Server(
   {
@@ -23,16 +45,48 @@ const server: Server = new Server(
   }
 );
 
+// SDK 0.4.0 works out the advertised capabilities from the registered handlers
+// and has no way to say resources can be subscribed to, so add that here
+const sdkCapabilities = server as unknown as { getCapabilities(): ServerCapabilities };
+const getSdkCapabilities = sdkCapabilities.getCapabilities.bind(server);
+sdkCapabilities.getCapabilities = () => ({
+  ...getSdkCapabilities(),
+  resources: { subscribe: true, listChanged: true },
+});
+
+// Every tool can return its result as JSON for scripts and orchestrating agents
+const formatProperty = {
+  type: 'string',
+  enum: RESULT_FORMATS,
+  description: 'Result format: "text" (markdown, default), "json" (structured result only) or "both" (markdown followed by JSON)',
+  default: 'text',
+};
+
+// One server can work on several repositories; without this, PROJECT_ROOT is used
+const projectRootProperty = {
+  type: 'string',
+  description: 'Optional: Project to work on - a name registered with project_add or an absolute path (default: PROJECT_ROOT env var)',
+};
+
+// Tools that launch an agent let the caller pick which one
+const agentProfileProperty = {
+  type: 'string',
+  enum: Object.keys(AGENT_PROFILES),
+  description: 'Agent to run: "claude" (headless), "claude-interactive" or "command" (template from spec frontmatter or AGENT_COMMAND_TEMPLATE). Default: spec frontmatter, then AGENT_PROFILE, then claude',
+};
+
 // Register tools
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
     tools: [
       {
         name: 'verify_setup',
-        description: 'Verify all prerequisites for the Claude Worktree Agent (Git, Claude Code, GitHub CLI, etc.)',
+        description: 'Verify all prerequisites for the Claude Worktree Agent (Git, Claude Code, GitHub or GitLab CLI, etc.)',
         inputSchema: {
           type: 'object',
           properties: {
+            format: formatProperty,
+            projectRoot: projectRootProperty,
             claudeCommand: {
               type: 'string',
               description: 'Custom Claude Code command to test (default: "claude" or CLAUDE_COMMAND env var)',
@@ -51,39 +105,137 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: 'object',
           properties: {
+            format: formatProperty,
+            projectRoot: projectRootProperty,
             featureFile: {
               type: 'string',
               description: 'Path to feature specification file (e.g., features/user-stats.md)',
             },
             branchPrefix: {
               type: 'string',
-              description: 'Branch name prefix (default: feature/)',
-              default: 'feature/',
+              description: 'Branch name prefix (default: spec frontmatter, then .worktree-agent.json, then feature/)',
             },
             baseBranch: {
               type: 'string', 
-              description: 'Base branch to branch from (default: main)',
-              default: 'main',
+              description: 'Base branch to branch from (default: spec frontmatter, then .worktree-agent.json, then main)',
             },
             interactive: {
               type: 'boolean',
               description: 'Open Claude Code interactively in terminal (default: false)',
               default: false,
             },
+            agentProfile: agentProfileProperty,
+            force: {
+              type: 'boolean',
+              description: 'Start even if feature_spec_lint reports errors in the spec (default: false)',
+              default: false,
+            },
+          },
+          required: ['featureFile'],
+        },
+      },
+      {
+        name: 'feature_start_from_issue',
+        description: 'Start Claude Code development on a GitHub issue: builds FEATURE.md from the issue\'s title, body, labels and comments, names the branch <number>-<slug>, and has the PR close the issue',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            format: formatProperty,
+            projectRoot: projectRootProperty,
+            issue: {
+              type: ['string', 'number'],
+              description: 'Issue number (42 or "#42") or issue URL',
+            },
+            repo: {
+              type: 'string',
+              description: 'Repository as owner/name, for issues outside the project\'s own repository (default: the project\'s GitHub repository)',
+            },
+            branchPrefix: {
+              type: 'string',
+              description: 'Branch name prefix (default: .worktree-agent.json, then feature/)',
+            },
+            baseBranch: {
+              type: 'string',
+              description: 'Base branch to branch from (default: .worktree-agent.json, then main)',
+            },
+            interactive: {
+              type: 'boolean',
+              description: 'Open Claude Code interactively in terminal (default: false)',
+              default: false,
+            },
+            agentProfile: agentProfileProperty,
+            force: {
+              type: 'boolean',
+              description: 'Start even if the issue is closed or feature_spec_lint reports errors in the generated spec (default: false)',
+              default: false,
+            },
+          },
+          required: ['issue'],
+        },
+      },
+      {
+        name: 'feature_spec_lint',
+        description: 'Check a feature spec before handing it to an agent: required sections, empty checklists, broken links, paths missing from the repo and oversized scope',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            format: formatProperty,
+            projectRoot: projectRootProperty,
+            featureFile: {
+              type: 'string',
+              description: 'Path to feature specification file (e.g., features/user-stats.md)',
+            },
           },
           required: ['featureFile'],
         },
       },
+      {
+        name: 'feature_start_batch',
+        description: 'Start Claude Code development on every feature spec in a directory or glob, respecting "dependsOn:" lines between specs',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            format: formatProperty,
+            projectRoot: projectRootProperty,
+            specs: {
+              type: 'string',
+              description: 'Directory or glob of feature specification files (e.g., "features/" or "features/**/*.md")',
+            },
+            branchPrefix: {
+              type: 'string',
+              description: 'Branch name prefix (default: spec frontmatter, then .worktree-agent.json, then feature/)',
+            },
+            baseBranch: {
+              type: 'string',
+              description: 'Base branch for features without dependencies (default: spec frontmatter, then .worktree-agent.json, then main)',
+            },
+            agentProfile: agentProfileProperty,
+            force: {
+              type: 'boolean',
+              description: 'Start specs even if feature_spec_lint reports errors in them (default: false)',
+              default: false,
+            },
+          },
+          required: ['specs'],
+        },
+      },
       {
         name: 'feature_status',
         description: 'Check status of all active feature development sessions',
         inputSchema: {
           type: 'object',
           properties: {
+            format: formatProperty,
+            projectRoot: projectRootProperty,
             featureName: {
               type: 'string',
               description: 'Optional: Check specific feature only',
             },
+            allProjects: {
+              type: 'boolean',
+              description: 'Report on every registered project (and PROJECT_ROOT) instead of one (default: false)',
+              default: false,
+            },
           },
         },
       },
@@ -93,13 +245,15 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: 'object',
           properties: {
+            format: formatProperty,
+            projectRoot: projectRootProperty,
             featureName: {
               type: 'string',
               description: 'Optional: Clean specific feature only',
             },
             force: {
               type: 'boolean',
-              description: 'Force cleanup even if PR is open (default: false)',
+              description: 'Force cleanup even if PR is open or Claude is running (default: false)',
               default: false,
             },
             all: {
@@ -116,6 +270,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: 'object',
           properties: {
+            format: formatProperty,
+            projectRoot: projectRootProperty,
             featureFile: {
               type: 'string',
               description: 'Path to the feature specification file (e.g., "features/my-feature.md")',
@@ -130,53 +286,279 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             force: {
               type: 'boolean',
-              description: 'Force revision even if Claude is currently running (default: false)',
+              description: 'Stop a running Claude agent and revise anyway (default: false)',
               default: false,
             },
+            agentProfile: agentProfileProperty,
           },
           required: ['featureFile'],
         },
       },
+      {
+        name: 'feature_sync',
+        description: 'Rebase a feature worktree onto the latest base branch, using Claude Code to resolve conflicts (main wins on ambiguity)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            format: formatProperty,
+            projectRoot: projectRootProperty,
+            featureName: {
+              type: 'string',
+              description: 'Name of the feature to sync (e.g., "user-dashboard")',
+            },
+            agentProfile: agentProfileProperty,
+          },
+          required: ['featureName'],
+        },
+      },
+      {
+        name: 'feature_logs',
+        description: 'Show captured Claude Code output for a feature (stdout and stderr of background agents)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            format: formatProperty,
+            projectRoot: projectRootProperty,
+            featureName: {
+              type: 'string',
+              description: 'Name of the feature to show logs for (e.g., "user-dashboard")',
+            },
+            tail: {
+              type: 'number',
+              description: 'Number of most recent lines to show, 0 for all (default: 100)',
+              default: 100,
+            },
+            since: {
+              type: 'string',
+              description: 'Optional: Only show lines since a timestamp (e.g., "2024-01-01T12:00:00Z") or duration ago (e.g., "10m", "2h")',
+            },
+            grep: {
+              type: 'string',
+              description: 'Optional: Only show lines matching this case-insensitive pattern',
+            },
+          },
+          required: ['featureName'],
+        },
+      },
+      {
+        name: 'feature_stop',
+        description: 'Stop a running Claude Code agent (and its child processes) with SIGTERM, then SIGKILL after a grace period. Also cancels a pending verify retry or an agent launch still installing dependencies',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            format: formatProperty,
+            projectRoot: projectRootProperty,
+            featureName: {
+              type: 'string',
+              description: 'Name of the feature whose agent should be stopped (e.g., "user-dashboard")',
+            },
+            reason: {
+              type: 'string',
+              description: 'Optional: Why the agent is being stopped (recorded in the registry and agent log)',
+            },
+            gracePeriodSeconds: {
+              type: 'number',
+              description: 'Seconds to wait after SIGTERM before sending SIGKILL (default: 10)',
+              default: 10,
+            },
+          },
+          required: ['featureName'],
+        },
+      },
+      {
+        name: 'feature_verify',
+        description: "Run the project's verify gates (test, lint, typecheck and build commands from .worktree-agent.json) in a feature's worktree and save the results; with verify.requiredForPullRequest a full pass opens the PR",
+        inputSchema: {
+          type: 'object',
+          properties: {
+            format: formatProperty,
+            projectRoot: projectRootProperty,
+            featureName: {
+              type: 'string',
+              description: 'Name of the feature to verify (e.g., "user-dashboard")',
+            },
+            gates: {
+              type: 'array',
+              items: { type: 'string', enum: [...VERIFY_GATES] },
+              description: 'Optional: Run only these gates (a partial run never opens a PR)',
+            },
+          },
+          required: ['featureName'],
+        },
+      },
+      {
+        name: 'feature_usage',
+        description: "Show the tokens and cost agents have used, per feature and for the project, against the budgets in .worktree-agent.json and spec frontmatter",
+        inputSchema: {
+          type: 'object',
+          properties: {
+            format: formatProperty,
+            projectRoot: projectRootProperty,
+            featureName: {
+              type: 'string',
+              description: 'Optional: Show one feature with each of its agent runs',
+            },
+          },
+        },
+      },
+      {
+        name: 'project_add',
+        description: 'Register a repository under a name so tools can target it with projectRoot',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            format: formatProperty,
+            projectRoot: {
+              type: 'string',
+              description: 'Absolute path to the repository (or any directory inside it)',
+            },
+            name: {
+              type: 'string',
+              description: 'Optional: Name to register it under (default: the repository directory name)',
+            },
+          },
+          required: ['projectRoot'],
+        },
+      },
+      {
+        name: 'project_list',
+        description: 'List registered projects (and the PROJECT_ROOT default) with their feature counts',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            format: formatProperty,
+          },
+        },
+      },
     ],
   };
 });
 
+// In-flight tool calls, so a notifications/cancelled from the client can abort them
+const toolCalls = createToolCallRegistry();
+
+// SDK 0.4.0 hands request handlers the parsed request without its JSON-RPC id;
+// main() records it here while the transport dispatches the message
+let dispatchingRequestId: RequestId | undefined;
+
+server.fallbackNotificationHandler = async notification => {
+  if (notification.method === 'notifications/cancelled') {
+    const { requestId, reason } = notification.params || {};
+    if (typeof requestId === 'string' || typeof requestId === 'number') {
+      toolCalls.cancel(requestId, typeof reason === 'string' ? reason : undefined);
+    }
+  }
+};
+
 // Handle tool calls
 server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
   const { name, arguments: args } = request.params;
+  const requestId = dispatchingRequestId;
+  const progressToken = request.params._meta?.progressToken;
+  const context: ToolCallContext = {
+    signal: requestId === undefined ? undefined : toolCalls.begin(requestId),
+    reportProgress: progressToken === undefined ? undefined : (progress, total, message) => {
+      server.notification({ method: 'notifications/progress', params: { progressToken, progress, total, message } })
+        .catch(error => console.error('Failed to send progress:', error));
+    },
+  };
 
   try {
+    // Reject a bad format before the tool does any work
+    validateResultFormat(args?.format);
+
     switch (name) {
       case 'verify_setup':
         return await verifySetup(args as any);
       case 'feature_start':
-        return await featureStart(args as any);
+        return await featureStart(args as any, context);
+      case 'feature_start_from_issue':
+        return await featureStartFromIssue(args as any, context);
+      case 'feature_spec_lint':
+        return await featureSpecLint(args as any);
+      case 'feature_start_batch':
+        return await featureStartBatch(args as any);
       case 'feature_status':
         return await featureStatus(args as any);
       case 'feature_cleanup':
         return await featureCleanup(args as any);
       case 'feature_revision':
         return await featureRevision(args as any);
+      case 'feature_sync':
+        return await featureSync(args as any);
+      case 'feature_logs':
+        return await featureLogs(args as any);
+      case 'feature_stop':
+        return await featureStop(args as any);
+      case 'feature_verify':
+        return await featureVerify(args as any, context);
+      case 'feature_usage':
+        return await featureUsage(args as any);
+      case 'project_add':
+        return await projectAdd(args as any);
+      case 'project_list':
+        return await projectList(args as any);
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
   } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `❌ Error: ${error instanceof Error ? error.message : String(error)}`,
-        },
-      ],
-      isError: true,
-    };
+    return createErrorResult(error instanceof Error ? error.message : String(error), args?.format);
+  } finally {
+    if (requestId !== undefined) {
+      toolCalls.end(requestId);
+    }
   }
 });
 
+// Feature files, diffs and logs as worktree://<feature>/<kind> resources
+const resourceWatcher = createResourceWatcher({
+  updated: uri => void server.sendResourceUpdated({ uri }),
+  listChanged: () => void server.sendResourceListChanged(),
+});
+
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  return { resources: listFeatureResources() };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async request => {
+  return { contents: [await readFeatureResource(request.params.uri)] };
+});
+
+server.setRequestHandler(SubscribeRequestSchema, async request => {
+  await resourceWatcher.subscribe(request.params.uri);
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+  resourceWatcher.unsubscribe(request.params.uri);
+  return {};
+});
+
 // Start server
 async function main(): Promise<void> {
   const transport = new StdioServerTransport();
   await server.connect(transport);
+
+  // Handlers start synchronously inside onmessage, so the id is still set when they read it
+  const dispatch = transport.onmessage;
+  transport.onmessage = message => {
+    dispatchingRequestId = 'method' in message && 'id' in message ? message.id : undefined;
+    try {
+      dispatch?.(message);
+    } finally {
+      dispatchingRequestId = undefined;
+    }
+  };
+  resourceWatcher.start();
+
+  // Backoff timers die with the server, so take over the retries a previous one was waiting on
+  for (const { projectRoot } of listKnownProjects()) {
+    try {
+      resumeRetryLoops(projectRoot);
+    } catch (error) {
+      console.error(`Failed to resume retries in ${projectRoot}:`, error);
+    }
+  }
   console.error('🤖 Claude Worktree Agent MCP Server running');
 }
 
@@ -1,42 +1,62 @@
 import simpleGit from 'simple-git';
-import { execa } from 'execa';
 import * as fs from 'fs';
 import * as path from 'path';
+import { getWorktreesPath, listFeatureNames, removeFeatureSession, resolveFeatureSession } from '../utils/registry.js';
+import { removeLogs } from '../utils/agent-log.js';
+import { removeIssueSpec } from '../utils/github-issues.js';
+import { removePromptFile } from '../utils/agent-runner.js';
+import { cancelAgentLaunch, findRunningAgent, isProcessAlive, stopAgent } from '../utils/agent-process.js';
+import { getQueuePosition, removeQueuedJob } from '../utils/scheduler.js';
+import { removeRetryBriefs, stopRetryLoop } from '../utils/retry.js';
+import { getForge, MergeState } from '../utils/forge.js';
+import { formatHookRuns, HookRun, runHook } from '../utils/hooks.js';
+import { resolveProjectRoot } from '../utils/projects.js';
+import { createToolResult, ResultFormat } from '../utils/tool-result.js';
+import { removeConflictsReport } from './feature-sync.js';
 
 interface FeatureCleanupArgs {
+  projectRoot?: string;
   featureName?: string;
   force?: boolean;
   all?: boolean;
+  format?: ResultFormat;
+}
+
+export interface FeatureCleanupEntry {
+  featureName: string;
+  outcome: 'cleaned' | 'skipped' | 'error';
+  reason?: string;
+  mergeState?: MergeState;
+  branch: string;
+  worktreePath: string;
+  branchRemoved?: boolean;
+  hooks?: HookRun[];
+}
+
+export interface FeatureCleanupResult {
+  cleaned: number;
+  skipped: number;
+  features: FeatureCleanupEntry[];
+  removedWorktreesDirectory: boolean;
 }
 
 export async function featureCleanup(args: FeatureCleanupArgs = {}) {
-  const { featureName, force = false, all = false } = args;
+  const { featureName, force = false, all = false, format } = args;
 
-  // Get project root directory - require PROJECT_ROOT env var for Cursor MCP
-  const projectRoot = process.env.PROJECT_ROOT;
-  if (!projectRoot) {
-    throw new Error('PROJECT_ROOT environment variable not set. This is required for Cursor MCP. Add "env": {"PROJECT_ROOT": "/path/to/your/project"} to your MCP configuration.');
-  }
+  const projectRoot = resolveProjectRoot(args.projectRoot);
 
-  const worktreesPath = path.join(projectRoot, '.worktrees');
+  const worktreesPath = getWorktreesPath(projectRoot);
+  const result: FeatureCleanupResult = { cleaned: 0, skipped: 0, features: [], removedWorktreesDirectory: false };
 
   if (!fs.existsSync(worktreesPath)) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: '📂 No worktrees found to clean up',
-        },
-      ],
-    };
+    return createToolResult('📂 No worktrees found to clean up', result, format);
   }
 
   const git = simpleGit(projectRoot);
+  const forge = await getForge(projectRoot);
   
   // Get list of worktrees to clean
-  const allWorktrees = fs.readdirSync(worktreesPath).filter(dir => 
-    fs.statSync(path.join(worktreesPath, dir)).isDirectory()
-  );
+  const allWorktrees = listFeatureNames(projectRoot);
 
   let targetWorktrees: string[];
   if (featureName) {
@@ -54,14 +74,7 @@ export async function featureCleanup(args: FeatureCleanupArgs = {}) {
   }
 
   if (targetWorktrees.length === 0) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: '🧹 No features to clean up',
-        },
-      ],
-    };
+    return createToolResult('🧹 No features to clean up', result, format);
   }
 
   let cleanupResults = `🧹 **Feature Cleanup Results**\n\n`;
@@ -70,62 +83,122 @@ export async function featureCleanup(args: FeatureCleanupArgs = {}) {
 
   // Clean up each target worktree
   for (const worktreeName of targetWorktrees) {
-    const worktreePath = path.join(worktreesPath, worktreeName);
-    const branchName = `feature/${worktreeName}`;
+    const { worktreePath, branchName, baseBranch, baseCommit, launching } = resolveFeatureSession(projectRoot, worktreeName);
+    const entry: FeatureCleanupEntry = { featureName: worktreeName, outcome: 'skipped', branch: branchName, worktreePath };
+    result.features.push(entry);
     
     cleanupResults += `🧹 **${worktreeName}**\n`;
 
     try {
       let shouldClean = force || all;
-
-      // Check PR status if not forcing
-      if (!shouldClean) {
-        try {
-          const { stdout: prState } = await execa('gh', ['pr', 'view', '--json', 'state', '-q', '.state'], { 
-            stdio: 'pipe',
-            cwd: worktreePath
-          });
-          
-          if (prState.trim() === 'MERGED') {
-            cleanupResults += `   ✅ PR merged - safe to remove\n`;
-            shouldClean = true;
-          } else if (prState.trim() === 'CLOSED') {
-            cleanupResults += `   ⚠️ PR closed - removing anyway\n`;
-            shouldClean = true;
-          } else if (prState.trim() === 'OPEN') {
-            cleanupResults += `   ❌ PR still open - skipping (use force to override)\n`;
+      const runningAgent = await findRunningAgent(projectRoot, worktreeName);
+      const queuePosition = getQueuePosition(projectRoot, worktreeName);
+      const isLaunching = launching !== undefined && isProcessAlive(launching.serverPid);
+
+      // Never pull a worktree out from under a working (or waiting) agent unless forced
+      if (runningAgent && !shouldClean) {
+        cleanupResults += `   🤖 Claude still running (PID ${runningAgent.pid}) - skipping (use feature_stop or force)\n`;
+        entry.reason = 'agent-running';
+        skippedCount++;
+      } else if (isLaunching && !shouldClean) {
+        cleanupResults += `   🚀 Agent launch in progress (${launching.phase}) - skipping (use feature_stop or force)\n`;
+        entry.reason = 'agent-launching';
+        skippedCount++;
+      } else if (queuePosition !== undefined && !shouldClean) {
+        cleanupResults += `   ⏳ Queued to start (position ${queuePosition}) - skipping (use feature_stop or force)\n`;
+        entry.reason = 'agent-queued';
+        skippedCount++;
+      } else if (!shouldClean) {
+        // Check whether the work has landed if not forcing
+        const label = forge.requestLabel;
+        const mergeState = await forge.getMergeState({ projectRoot, worktreePath, branchName, baseBranch, baseCommit });
+        entry.mergeState = mergeState;
+
+        if (forge.name === 'local') {
+          if (mergeState === 'open') {
+            cleanupResults += `   ❌ Not merged into ${baseBranch} yet - skipping (use force to override)\n`;
+            entry.reason = 'not-merged';
             skippedCount++;
+          } else {
+            cleanupResults += mergeState === 'merged'
+              ? `   ✅ Merged into ${baseBranch} - safe to remove\n`
+              : `   ⚠️ Branch not found - removing anyway\n`;
+            shouldClean = true;
           }
-        } catch {
-          // No PR found
-          cleanupResults += `   ⚠️ No PR found - removing anyway\n`;
+        } else if (mergeState === 'merged') {
+          cleanupResults += `   ✅ ${label} merged - safe to remove\n`;
+          shouldClean = true;
+        } else if (mergeState === 'closed') {
+          cleanupResults += `   ⚠️ ${label} closed - removing anyway\n`;
+          shouldClean = true;
+        } else if (mergeState === 'open') {
+          cleanupResults += `   ❌ ${label} still open - skipping (use force to override)\n`;
+          entry.reason = 'pr-open';
+          skippedCount++;
+        } else {
+          cleanupResults += `   ⚠️ No ${label} found - removing anyway\n`;
           shouldClean = true;
         }
       }
 
       if (shouldClean) {
-        // Remove worktree
-        await git.raw(['worktree', 'remove', worktreePath, '--force']);
-        cleanupResults += `   📂 Removed worktree: ${worktreePath}\n`;
+        if (stopRetryLoop(projectRoot, worktreeName, 'Removed by feature_cleanup') && !runningAgent) {
+          cleanupResults += `   🔁 Cancelled the pending retry\n`;
+        }
+        if (runningAgent) {
+          const stopResult = await stopAgent(projectRoot, worktreeName, 'Removed by feature_cleanup');
+          cleanupResults += `   🛑 ${stopResult.message}\n`;
+        }
+        if (removeQueuedJob(projectRoot, worktreeName)) {
+          cleanupResults += `   ⏳ Removed from agent queue\n`;
+        }
+        if (cancelAgentLaunch(projectRoot, worktreeName, 'Removed by feature_cleanup')) {
+          cleanupResults += `   🚀 Cancelled the agent launch\n`;
+        }
+
+        // Remove worktree (or forget it if it was already deleted by hand)
+        if (fs.existsSync(worktreePath)) {
+          // A failing preRemove hook keeps the worktree (and the branch) in place
+          entry.hooks = await runHook(projectRoot, 'preRemove', { featureName: worktreeName, worktreePath, branchName, baseBranch });
+          if (entry.hooks.length > 0) {
+            cleanupResults += `   🪝 ${formatHookRuns(entry.hooks).split('\n').join('\n   🪝 ')}\n`;
+          }
+          await git.raw(['worktree', 'remove', worktreePath, '--force']);
+          cleanupResults += `   📂 Removed worktree: ${worktreePath}\n`;
+        } else {
+          await git.raw(['worktree', 'prune']);
+          cleanupResults += `   📂 Worktree already gone: ${worktreePath}\n`;
+        }
 
         // Remove branch if it exists
         try {
           const branches = await git.branchLocal();
           if (branches.all.includes(branchName)) {
             await git.deleteLocalBranch(branchName, true);
+            entry.branchRemoved = true;
             cleanupResults += `   🌿 Removed branch: ${branchName}\n`;
           }
         } catch {
           // Branch might not exist or already removed
         }
 
+        removeFeatureSession(projectRoot, worktreeName);
+        removeLogs(projectRoot, worktreeName);
+        removePromptFile(projectRoot, worktreeName);
+        removeIssueSpec(projectRoot, worktreeName);
+        removeConflictsReport(projectRoot, worktreeName);
+        removeRetryBriefs(projectRoot, worktreeName);
+
         cleanupResults += `   ✅ Cleanup complete\n`;
+        entry.outcome = 'cleaned';
         cleanedCount++;
       }
 
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       cleanupResults += `   ❌ Error during cleanup: ${errorMessage}\n`;
+      entry.outcome = 'error';
+      entry.reason = errorMessage;
       skippedCount++;
     }
 
@@ -136,27 +209,23 @@ export async function featureCleanup(args: FeatureCleanupArgs = {}) {
   cleanupResults += '📊 **Summary:**\n';
   cleanupResults += `   Cleaned: ${cleanedCount}\n`;
   if (skippedCount > 0) {
-    cleanupResults += `   Skipped: ${skippedCount} (active PRs or errors)\n`;
+    cleanupResults += `   Skipped: ${skippedCount} (active PRs, running, launching or queued agents, or errors)\n`;
   }
 
   // Clean up empty worktrees directory
   if (fs.existsSync(worktreesPath) && fs.readdirSync(worktreesPath).length === 0) {
     fs.rmdirSync(worktreesPath);
-    cleanupResults += `   🗂️ Removed empty .worktrees directory\n`;
+    result.removedWorktreesDirectory = true;
+    cleanupResults += `   🗂️ Removed empty worktrees directory (${worktreesPath})\n`;
   }
 
   if (cleanedCount === 0 && skippedCount === 0) {
     cleanupResults += `   Nothing to clean up\n`;
   }
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: cleanupResults,
-      },
-    ],
-  };
+  result.cleaned = cleanedCount;
+  result.skipped = skippedCount;
+  return createToolResult(cleanupResults, result, format);
 }
 
 export default featureCleanup; 
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { getLogFiles, LogLine, readLogLines } from '../utils/agent-log.js';
+import { resolveProjectRoot } from '../utils/projects.js';
+import { createToolResult, ResultFormat } from '../utils/tool-result.js';
+
+interface FeatureLogsArgs {
+  projectRoot?: string;
+  featureName: string;
+  tail?: number;
+  since?: string;
+  grep?: string;
+  format?: ResultFormat;
+}
+
+export interface FeatureLogsResult {
+  featureName: string;
+  totalLines: number;
+  matchedLines: number;
+  lines: LogLine[];
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+export async function featureLogs(args: FeatureLogsArgs) {
+  const { featureName, tail = 100, since, grep, format } = args;
+
+  const projectRoot = resolveProjectRoot(args.projectRoot);
+
+  if (!featureName) {
+    throw new Error('featureName is required');
+  }
+
+  if (getLogFiles(projectRoot, featureName).length === 0) {
+    return createToolResult(
+      `📜 No agent logs found for '${featureName}'. Logs are only captured for background agents.`,
+      { featureName, totalLines: 0, matchedLines: 0, lines: [] },
+      format
+    );
+  }
+
+  let lines = readLogLines(projectRoot, featureName);
+  const totalLines = lines.length;
+
+  if (since) {
+    const sinceTime = parseSince(since);
+    lines = lines.filter(line => Date.parse(line.timestamp) >= sinceTime);
+  }
+
+  if (grep) {
+    const pattern = buildPattern(grep);
+    lines = lines.filter(line => pattern.test(line.text));
+  }
+
+  const matchedLines = lines.length;
+  if (tail > 0) {
+    lines = lines.slice(-tail);
+  }
+
+  const filters = [
+    since ? `since ${since}` : '',
+    grep ? `matching /${grep}/` : '',
+    tail > 0 ? `last ${tail}` : '',
+  ].filter(Boolean);
+
+  let logText = `📜 **Agent Logs: ${featureName}**\n\n`;
+  logText += `Showing ${lines.length} of ${matchedLines === totalLines ? totalLines : `${matchedLines} matching (${totalLines} total)`} line(s)`;
+  logText += filters.length > 0 ? ` - ${filters.join(', ')}\n\n` : '\n\n';
+
+  if (lines.length === 0) {
+    logText += 'No log lines match the given filters.\n';
+  } else {
+    logText += '```\n';
+    logText += lines.map(line => `${line.timestamp} [${line.stream}] ${line.text}`).join('\n');
+    logText += '\n```\n';
+  }
+
+  const result: FeatureLogsResult = { featureName, totalLines, matchedLines, lines };
+  return createToolResult(logText, result, format);
+}
+
+/**
+ * Accepts either an absolute timestamp ("2024-01-01T12:00:00Z") or a
+ * relative duration ("30s", "10m", "2h", "1d").
+ */
+function parseSince(since: string): number {
+  const duration = since.trim().match(/^(\d+)\s*([smhd])$/i);
+  if (duration) {
+    return Date.now() - parseInt(duration[1], 10) * DURATION_UNITS[duration[2].toLowerCase()];
+  }
+
+  const timestamp = Date.parse(since);
+  if (isNaN(timestamp)) {
+    throw new Error(`Invalid since value '${since}'. Use a timestamp (e.g. "2024-01-01T12:00:00Z") or a duration (e.g. "10m", "2h").`);
+  }
+  return timestamp;
+}
+
+function buildPattern(grep: string): RegExp {
+  try {
+    return new RegExp(grep, 'i');
+  } catch {
+    // Not a valid regex - match it literally
+    return new RegExp(grep.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+  }
+}
@@ -1,31 +1,55 @@
 import simpleGit from 'simple-git';
 import { execa } from 'execa';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { resolveFeatureSession, updateFeatureSession } from '../utils/registry.js';
+import { AGENT_PROFILES, buildAgentLaunch, formatAgentCommand, launchAgent, resolveAgentProfile } from '../utils/agent-runner.js';
+import { findRunningAgent, markAgentLaunching, stopAgent, throwIfLaunchCancelled } from '../utils/agent-process.js';
+import { getQueuePosition, removeQueuedJob, scheduleAgentJob } from '../utils/scheduler.js';
+import { readFeatureSpec } from '../utils/feature-spec.js';
+import { loadProjectConfig, PROJECT_CONFIG_FILE } from '../utils/project-config.js';
+import { getForge, PullRequestFeedback, ReviewThread } from '../utils/forge.js';
+import { renderPromptTemplate, TemplateVariables } from '../utils/prompt-templates.js';
+import { runHook } from '../utils/hooks.js';
+import { startRetryLoop, stopRetryLoop } from '../utils/retry.js';
+import { getBudgetOverrun } from '../utils/usage.js';
+import { resolveProjectRoot } from '../utils/projects.js';
+import { createToolResult, ResultFormat } from '../utils/tool-result.js';
 
 interface FeatureRevisionArgs {
+  projectRoot?: string;
   featureFile: string;
   revisionInstructions?: string;
   userContext?: string;
   force?: boolean;
+  agentProfile?: string;
+  format?: ResultFormat;
 }
 
-export async function featureRevision(args: FeatureRevisionArgs) {
-  const { featureFile, revisionInstructions = '', userContext = '', force = false } = args;
+export interface FeatureRevisionResult {
+  featureName: string;
+  status: 'started' | 'queued';
+  featureFile: string;
+  worktreePath: string;
+  branch: string;
+  baseBranch: string;
+  pr: { number: number; url: string; state: string; title: string } | null;
+  feedbackTypes: string[];
+  reviewThreads: { open: number; resolved: number; outdated: number };
+  specUpdated: boolean;
+  previousAgent?: string;
+  agentProfile: string;
+  command: string;
+  pid?: number;
+  queuePosition?: number;
+}
 
-  // Get project root directory - require PROJECT_ROOT env var for Cursor MCP
-  const projectRoot = process.env.PROJECT_ROOT;
-  if (!projectRoot) {
-    throw new Error('PROJECT_ROOT environment variable not set. This is required for Cursor MCP. Add "env": {"PROJECT_ROOT": "/path/to/your/project"} to your MCP configuration.');
-  }
+export async function featureRevision(args: FeatureRevisionArgs) {
+  const { featureFile, revisionInstructions = '', userContext = '', force = false, format } = args;
 
-  // Extract feature name from file path (same logic as feature_start)
-  const featureName = path.basename(featureFile, '.md')
-    .toLowerCase()
-    .replace(/[^a-zA-Z0-9-]/g, '-');
+  const projectRoot = resolveProjectRoot(args.projectRoot);
 
-  const worktreePath = path.join(projectRoot, '.worktrees', featureName);
-  const branchName = `feature/${featureName}`;
   const fullFeaturePath = path.isAbsolute(featureFile) ? featureFile : path.join(projectRoot, featureFile);
 
   // Validate feature file exists
@@ -33,152 +57,128 @@ export async function featureRevision(args: FeatureRevisionArgs) {
     throw new Error(`Feature file '${featureFile}' not found at '${fullFeaturePath}'`);
   }
 
+  // Feature name and agent settings come from the spec (same logic as feature_start)
+  const spec = readFeatureSpec(fullFeaturePath);
+  const { featureName, config } = spec;
+
+  const { worktreePath, branchName, baseBranch, baseCommit } = resolveFeatureSession(projectRoot, featureName);
+
   // Validate worktree exists
   if (!fs.existsSync(worktreePath)) {
     throw new Error(`Feature '${featureName}' not found. Use feature_start to create it first.`);
   }
 
-  // Check if Claude is currently running (unless forced)
-  if (!force) {
-    try {
-      await execa('pgrep', ['-f', `claude.*${featureName}`], { stdio: 'pipe' });
-      throw new Error(`Claude is still running on feature '${featureName}'. Use force=true to override or wait for completion.`);
-    } catch (error) {
-      // Good - no Claude process found, safe to proceed
-      if (error instanceof Error && error.message.includes('Claude is still running')) {
-        throw error;
-      }
-    }
+  // Check if Claude is currently running (unless forced - then it's stopped before relaunching)
+  const runningAgent = await findRunningAgent(projectRoot, featureName);
+  if (runningAgent && !force) {
+    throw new Error(`Claude is still running on feature '${featureName}' (PID ${runningAgent.pid}). Use force=true to stop it and revise, or wait for completion.`);
   }
 
-  const git = simpleGit(projectRoot);
+  const queuePosition = getQueuePosition(projectRoot, featureName);
+  if (queuePosition !== undefined && !force) {
+    throw new Error(`Feature '${featureName}' is already queued (position ${queuePosition}). Use force=true to replace the queued job.`);
+  }
+
+  const overrun = getBudgetOverrun(projectRoot, featureName);
+  if (overrun) {
+    throw new Error(`Feature '${featureName}' is over budget: ${overrun}. Raise the limits in the spec's budget frontmatter or under budget in ${PROJECT_CONFIG_FILE} to revise it.`);
+  }
+
+  // Revisions run in the background, so an interactive profile can't be used
+  const profile = resolveAgentProfile(args.agentProfile || config.agent?.profile);
+  if (AGENT_PROFILES[profile].mode === 'interactive') {
+    throw new Error(`feature_revision runs agents in the background and can't use the '${profile}' profile. Choose a background profile with agentProfile.`);
+  }
+
+  const forge = await getForge(projectRoot);
+  const forgeContext = { projectRoot, worktreePath, branchName, baseBranch, baseCommit };
+  const label = forge.requestLabel;
 
   try {
     // Get ALL PR feedback without filtering - let Claude analyze what's relevant
     let prInfo = '';
     let allPRFeedback = '';
     let hasPR = false;
-    let prNumber = '';
+    let prSummary: FeatureRevisionResult['pr'] = null;
+    const feedbackTypes: string[] = [];
+    let reviewThreads: FeatureRevisionResult['reviewThreads'] = { open: 0, resolved: 0, outdated: 0 };
+
+    const pullRequest = await forge.findPullRequest(forgeContext);
+    if (pullRequest) {
+      hasPR = true;
+      prSummary = { number: pullRequest.number, url: pullRequest.url, state: pullRequest.state, title: pullRequest.title };
+      prInfo = `**Existing ${label}:** ${pullRequest.url} | ${pullRequest.state} | ${pullRequest.title}\n\n`;
+
+      if (pullRequest.body.trim()) {
+        prInfo += `**${label} Description:**\n${pullRequest.body}\n\n`;
+      }
 
-    try {
-      // Get basic PR info
-      const { stdout: prData } = await execa('gh', ['pr', 'view', '--json', 'url,title,body,state,number'], { 
-        stdio: 'pipe',
-        cwd: worktreePath
-      });
-      const pr = JSON.parse(prData);
-      
-      if (pr.url && pr.number) {
-        hasPR = true;
-        prNumber = pr.number.toString();
-        prInfo = `**Existing PR:** ${pr.url} | ${pr.state} | ${pr.title}\n\n`;
-        
-        if (pr.body && pr.body.trim()) {
-          prInfo += `**PR Description:**\n${pr.body}\n\n`;
-        }
-
-        // Collect ALL feedback types
-        let prComments = '';
-        let prReviews = '';
-        let inlineComments = '';
-
-        // Get general PR comments
-        try {
-          const { stdout: commentsData } = await execa('gh', ['pr', 'view', '--json', 'comments', '-q', '.comments[]'], { 
-            stdio: 'pipe',
-            cwd: worktreePath
-          });
-          if (commentsData.trim()) {
-            const comments = commentsData.trim().split('\n').map(line => {
-              try {
-                return JSON.parse(line);
-              } catch {
-                return null;
-              }
-            }).filter(Boolean);
-
-            if (comments.length > 0) {
-              prComments = '### General PR Comments\n';
-              comments.forEach((comment: any, index: number) => {
-                prComments += `**Comment ${index + 1}** by **${comment.author?.login || 'Unknown'}** (${comment.createdAt}):\n`;
-                prComments += `${comment.body}\n\n`;
-              });
-            }
-          }
-        } catch {
-          // No comments or error fetching
-        }
-
-        // Get PR reviews
-        try {
-          const { stdout: reviewsData } = await execa('gh', ['pr', 'review', 'list', '--json', 'author,state,body,submittedAt'], { 
-            stdio: 'pipe',
-            cwd: worktreePath
-          });
-          if (reviewsData.trim()) {
-            const reviews = JSON.parse(reviewsData);
-            if (reviews.length > 0) {
-              prReviews = '### Code Reviews\n';
-              reviews.forEach((review: any, index: number) => {
-                prReviews += `**Review ${index + 1}** by **${review.author?.login || 'Unknown'}** - ${review.state} (${review.submittedAt}):\n`;
-                if (review.body && review.body.trim()) {
-                  prReviews += `${review.body}\n`;
-                }
-                prReviews += '\n';
-              });
-            }
-          }
-        } catch {
-          // No reviews or error fetching
-        }
-
-        // Get ALL inline code comments (resolved and unresolved)
-        try {
-          // Use gh pr view to get review comments instead of direct API
-          const { stdout: reviewCommentsData } = await execa('gh', ['pr', 'view', '--json', 'reviewRequests,reviews'], { 
-            stdio: 'pipe',
-            cwd: worktreePath
-          });
-          if (reviewCommentsData.trim()) {
-            const reviewData = JSON.parse(reviewCommentsData);
-            if (reviewData.reviews && reviewData.reviews.length > 0) {
-              inlineComments = '### Code Review Comments\n';
-              reviewData.reviews.forEach((review: any, index: number) => {
-                if (review.body && review.body.trim()) {
-                  inlineComments += `**Review ${index + 1}** by **${review.author?.login || 'Unknown'}** - ${review.state}:\n`;
-                  inlineComments += `${review.body}\n\n`;
-                }
-              });
-            }
-          }
-        } catch (error) {
-          console.error('Failed to fetch review comments:', error);
-        }
+      let feedback: PullRequestFeedback = { comments: [], reviews: [], threads: [] };
+      try {
+        feedback = await forge.getFeedback(forgeContext, pullRequest);
+      } catch (error) {
+        console.error('Failed to fetch review feedback:', error);
+      }
 
-        // Note: Detailed inline comments with line numbers require GitHub API
-        // For now, we'll rely on general review feedback and PR comments
-        // This simplifies authentication (no API token needed)
+      // General comments
+      let prComments = '';
+      if (feedback.comments.length > 0) {
+        feedbackTypes.push(`${label} comments`);
+        prComments = `### General ${label} Comments\n`;
+        feedback.comments.forEach((comment, index) => {
+          prComments += `**Comment ${index + 1}** by **${comment.author}** (${comment.createdAt}):\n`;
+          prComments += `${comment.body}\n\n`;
+        });
+      }
 
-        // Combine all feedback
-        allPRFeedback = [prComments, prReviews, inlineComments].filter(Boolean).join('\n');
+      // Reviews (approvals, change requests and their summaries)
+      let prReviews = '';
+      if (feedback.reviews.length > 0) {
+        feedbackTypes.push('code reviews');
+        prReviews = '### Code Reviews\n';
+        feedback.reviews.forEach((review, index) => {
+          prReviews += `**Review ${index + 1}** by **${review.author}** - ${review.state}${review.submittedAt ? ` (${review.submittedAt})` : ''}:\n`;
+          if (review.body.trim()) {
+            prReviews += `${review.body}\n`;
+          }
+          prReviews += '\n';
+        });
+      }
 
-      } else {
-        prInfo = '**Note:** No existing PR found. Will create new PR after revisions.\n\n';
+      // Inline review threads by file - only unresolved, current ones are action items
+      const openThreads = feedback.threads.filter(thread => !thread.isResolved && !thread.isOutdated);
+      const settledThreads = feedback.threads.filter(thread => thread.isResolved || thread.isOutdated);
+      reviewThreads = {
+        open: openThreads.length,
+        resolved: feedback.threads.filter(thread => thread.isResolved).length,
+        outdated: feedback.threads.filter(thread => !thread.isResolved && thread.isOutdated).length,
+      };
+
+      let threadActionItems = '';
+      if (openThreads.length > 0) {
+        feedbackTypes.push('review threads');
+        threadActionItems = `### Inline Review Threads - Action Items\n\n${formatReviewThreads(openThreads, true)}`;
       }
-    } catch {
-      prInfo = '**Note:** No existing PR found. Will create new PR after revisions.\n\n';
+      let threadReference = '';
+      if (settledThreads.length > 0) {
+        threadReference = `### Resolved and Outdated Threads (no action needed)\n\n${formatReviewThreads(settledThreads, false)}`;
+      }
+
+      // Combine all feedback
+      allPRFeedback = [threadActionItems, prComments, prReviews, threadReference].filter(Boolean).join('\n');
+    } else if (forge.name === 'local') {
+      prInfo = '**Note:** Local mode - there is no pull request. Revisions stay on the feature branch until it is merged.\n\n';
+    } else {
+      prInfo = `**Note:** No existing ${label} found. Will create new ${label} after revisions.\n\n`;
     }
 
     // Get the current git status and recent changes
     const worktreeGit = simpleGit(worktreePath);
     const status = await worktreeGit.status();
-    const log = await worktreeGit.log({ from: 'main', to: 'HEAD', maxCount: 10 });
+    const log = await worktreeGit.log({ from: baseBranch, to: 'HEAD', maxCount: 10 });
 
-    // Read CURRENT feature specification from the provided file (may have been updated)
-    let currentFeatureSpec = '';
-    if (fs.existsSync(fullFeaturePath)) {
-      currentFeatureSpec = fs.readFileSync(fullFeaturePath, 'utf-8');
-    }
+    // CURRENT feature specification from the provided file (may have been updated), minus frontmatter
+    const currentFeatureSpec = spec.body;
 
     // Read the original feature spec from the worktree for comparison
     const worktreeFeatureSpecPath = path.join(worktreePath, 'FEATURE.md');
@@ -188,34 +188,13 @@ export async function featureRevision(args: FeatureRevisionArgs) {
     }
 
     // Check if feature spec has been updated
-    let featureSpecSection = '';
-    if (currentFeatureSpec !== originalFeatureSpec) {
-      featureSpecSection = `## Updated Feature Specification
-\`\`\`markdown
-${currentFeatureSpec}
-\`\`\`
-
-## Original Feature Specification (from worktree)
-\`\`\`markdown
-${originalFeatureSpec}
-\`\`\`
-
-⚠️ **Note**: The feature specification has been updated since development started. Consider these changes in your revision analysis.
-
-`;
-    } else {
-      featureSpecSection = `## Feature Specification
-\`\`\`markdown
-${currentFeatureSpec}
-\`\`\`
-
-`;
-    }
+    const specUpdated = currentFeatureSpec !== originalFeatureSpec;
+    const specDiff = specUpdated ? await diffSpecs(originalFeatureSpec, currentFeatureSpec) : '';
 
     // Get diff of changes so far
     let changesSummary = '';
     try {
-      const { stdout: diffOutput } = await execa('git', ['diff', 'main...HEAD', '--stat'], { 
+      const { stdout: diffOutput } = await execa('git', ['diff', `${baseBranch}...HEAD`, '--stat'], { 
         stdio: 'pipe',
         cwd: worktreePath
       });
@@ -224,174 +203,218 @@ ${currentFeatureSpec}
       changesSummary = 'Unable to generate diff summary';
     }
 
-    // Build revision requirements section
-    let revisionSource = '';
-    if (allPRFeedback.trim()) {
-      revisionSource = '## All PR Feedback (Requires Analysis)\n\n';
-      revisionSource += allPRFeedback + '\n\n';
-      if (revisionInstructions.trim()) {
-        revisionSource += '## Additional Manual Instructions\n\n';
-        revisionSource += revisionInstructions + '\n\n';
-      }
-    } else if (revisionInstructions.trim()) {
-      revisionSource = '## Revision Requirements\n\n';
-      revisionSource += revisionInstructions + '\n\n';
-    } else {
-      throw new Error('No revision requirements found. Either provide revisionInstructions or ensure the feature has a PR with feedback.');
+    if (!allPRFeedback.trim() && !revisionInstructions.trim()) {
+      throw new Error(forge.name === 'local'
+        ? 'No revision requirements found. Local mode has no pull request feedback, so provide revisionInstructions.'
+        : `No revision requirements found. Either provide revisionInstructions or ensure the feature has a ${label} with feedback.`);
     }
 
-    // Add user context if provided
-    let contextSection = '';
-    if (userContext.trim()) {
-      contextSection = `## Additional Context\n\n${userContext}\n\n`;
-    }
-
-    // AI-driven comment analysis instructions
-    const claudeAnalysisInstructions = `## 🤖 Smart Comment Analysis Instructions
-
-⚠️ **Important**: The PR feedback above may include both resolved and unresolved comments. You need to intelligently analyze which feedback requires action:
-
-### Analysis Process:
-1. **Review Recent Commits**: Examine the git history to understand what changes have been made since comments were posted
-2. **Cross-Reference Comments**: For each piece of feedback, check if the concern has been addressed in recent commits
-3. **Evaluate Current Code**: Look at the current state of mentioned files/functions vs. what comments reference
-4. **Focus on Unaddressed**: Only implement changes for feedback that hasn't been properly resolved
-
-### Decision Guidelines:
-- ✅ **Skip if**: Comment references code that has been significantly modified/improved since the comment
-- ✅ **Skip if**: The suggested change has already been implemented (even if done differently)
-- ✅ **Skip if**: Code has been refactored and the concern is no longer relevant
-- ⚠️ **Address if**: No evidence the feedback has been handled
-- ⚠️ **Address if**: The change was attempted but doesn't fully resolve the concern
-
-### Documentation Requirements:
-- **Document your analysis**: In commit messages, note which comments you addressed vs. which were already resolved
-- **Be explicit**: Use commit messages like "fix: implement error handling from comment #3, note: auth feedback from comment #1 already addressed in commit abc123"
-- **Reference specifics**: Mention comment numbers, file names, and brief reasoning
-
-### When In Doubt:
-- Err on the side of addressing feedback rather than skipping it
-- If a comment seems partially addressed, complete the implementation
-- Focus on the intent behind feedback, not just literal suggestions
-
-Work intelligently and systematically through the feedback, documenting your analysis decisions clearly.`;
-
-    // Create comprehensive revision instructions
-    const revisionInstructionsDoc = `# Feature Revision Instructions
-
-${prInfo}
-
-${contextSection}
-
-${revisionSource}
-
-${claudeAnalysisInstructions}
-
-${featureSpecSection}
-
-## Current Implementation Status
-
-### Git Status
-- **Branch:** ${branchName}
-- **Files changed:** ${status.files.length}
-- **Commits ahead of main:** ${log.total}
-
-### Recent Commits
-${log.all.slice(0, 5).map(commit => `- ${commit.hash.substring(0, 7)} ${commit.message}`).join('\n')}
-
-### Changes Summary
-\`\`\`
-${changesSummary}
-\`\`\`
-
-## Completion Guidelines
-
-1. **Analyze Intelligently**: Use the analysis process above to determine what needs attention
-2. **Implement Systematically**: Address unresolved feedback methodically
-3. **Test Thoroughly**: Ensure all changes work and don't break existing features
-4. **Document Clearly**: Explain your analysis and decisions in commit messages
-5. **Update PR**: Push changes and add summary comment when complete
-
-## When Complete
-1. Make clear commits with analysis documentation: \`git commit -m "fix: address review feedback on error handling (comments #2, #4); note: performance feedback #1 already addressed in commit def456"\`
-2. Push changes: \`git push origin ${branchName}\`
-${hasPR ? '3. Add a summary comment to the PR: `gh pr comment --body "Applied remaining unaddressed feedback, documented analysis in commits"`' : '3. Create PR: `gh pr create --fill`'}
-
-Work systematically and intelligently. Your analysis and reasoning are key to effective revision management.
-`;
+    // Variables shared by the revision templates (.worktree-agent/prompts overrides the built-in ones)
+    const templateVariables: TemplateVariables = {
+      featureName,
+      featureFile: fullFeaturePath,
+      worktreePath,
+      branchName,
+      baseBranch,
+      forgeName: forge.displayName,
+      requestLabel: label,
+      isLocal: forge.name === 'local',
+      hasPR,
+      prInfo,
+      prFeedback: allPRFeedback.trim(),
+      openThreads: reviewThreads.open,
+      revisionInstructions: revisionInstructions.trim(),
+      userContext: userContext.trim(),
+      specUpdated,
+      featureSpec: currentFeatureSpec,
+      originalSpec: originalFeatureSpec,
+      specDiff,
+      filesChanged: status.files.length,
+      commitsAhead: log.total,
+      recentCommits: log.all.slice(0, 5).map(commit => `- ${commit.hash.substring(0, 7)} ${commit.message}`).join('\n'),
+      changesSummary,
+      // Finishing up depends on the forge - local mode has nothing to push or comment on
+      commentCommand: forge.getCommentCommand('Applied remaining unaddressed feedback, documented analysis in commits') || '',
+      // Left to feature_verify when the project gates its PRs
+      createCommand: loadProjectConfig(projectRoot).verify.requiredForPullRequest ? '' : forge.getCreateCommand(forgeContext, config.pr || {}) || '',
+    };
+    templateVariables.analysisInstructions = renderPromptTemplate(projectRoot, 'revision-analysis', templateVariables);
+    const revisionInstructionsDoc = renderPromptTemplate(projectRoot, 'revision', templateVariables);
+    const revisionPrompt = renderPromptTemplate(projectRoot, 'revision-prompt', templateVariables);
 
     // Save revision instructions
     fs.writeFileSync(path.join(worktreePath, 'REVISION.md'), revisionInstructionsDoc);
 
     // Copy updated feature file to worktree if it has changed
-    if (currentFeatureSpec !== originalFeatureSpec) {
-      fs.copyFileSync(fullFeaturePath, worktreeFeatureSpecPath);
+    if (specUpdated) {
+      fs.writeFileSync(worktreeFeatureSpecPath, currentFeatureSpec);
     }
 
-    // Start Claude Code for revision work
-    const claudeCommand = process.env.CLAUDE_COMMAND || 'claude';
-    const claudeArgs = process.env.CLAUDE_ARGS ? process.env.CLAUDE_ARGS.split(' ') : ['--dangerously-skip-permissions'];
+    // Stop the previous agent (or drop its queued job) so two never work in the same worktree
+    let stopMessage = '';
+    if (runningAgent) {
+      const stopResult = await stopAgent(projectRoot, featureName, 'Superseded by feature_revision (force)');
+      stopMessage = stopResult.stopped ? stopResult.message : '';
+    } else if (queuePosition !== undefined) {
+      removeQueuedJob(projectRoot, featureName);
+      stopMessage = `Replaced queued job (was position ${queuePosition})`;
+    }
+    // This round starts a fresh retry loop of its own
+    stopRetryLoop(projectRoot, featureName, 'Superseded by feature_revision');
+
+    const agentLaunch = buildAgentLaunch(projectRoot, featureName, worktreePath, revisionPrompt, { ...config.agent, profile });
+    const agentCommand = formatAgentCommand(agentLaunch);
     
-    const claudeProcess = execa(claudeCommand, claudeArgs, {
-      input: `I need you to intelligently apply revisions to an existing feature implementation.
-
-Please carefully read REVISION.md which contains:
-- ${hasPR ? 'ALL PR comments and review feedback from GitHub (both resolved and unresolved)' : 'Specific revision requirements'}
-- Smart analysis instructions for determining what needs attention vs. what's already been addressed
-- ${currentFeatureSpec !== originalFeatureSpec ? 'Updated feature requirements (specification has changed since development started)' : 'Current feature requirements and implementation status'}
-- ${userContext.trim() ? 'Additional context and requirements' : ''}
-
-Your task is to:
-1. **Analyze the feedback intelligently** - determine what has already been addressed vs. what needs work
-2. **Consider any feature spec updates** - the requirements may have evolved since development started
-3. **Implement only necessary changes** - focus on unaddressed feedback and updated requirements
-4. **Document your analysis** - explain your decisions in commit messages
-5. **Work systematically** - handle each piece of feedback methodically
-
-${hasPR ? 'Use your AI reasoning to distinguish between feedback that has been resolved and feedback that still needs attention.' : 'Follow the provided revision requirements carefully.'}
-
-Document your analysis process clearly in your commit messages so the reasoning is transparent.`,
-      stdio: ['pipe', 'pipe', 'pipe'],
-      cwd: worktreePath
+    const launch = async () => {
+      const signal = markAgentLaunching(projectRoot, featureName, 'starting');
+      try {
+        await runHook(projectRoot, 'preAgentLaunch', { featureName, worktreePath, branchName, baseBranch, featureFile: fullFeaturePath }, signal);
+      } catch (error) {
+        updateFeatureSession(projectRoot, featureName, { launching: undefined });
+        throwIfLaunchCancelled(signal);
+        throw error;
+      }
+      throwIfLaunchCancelled(signal);
+      await startRetryLoop(projectRoot, featureName, worktreePath);
+      const agentProcess = launchAgent(projectRoot, featureName, worktreePath, agentLaunch, { run: 'revision' });
+
+      updateFeatureSession(projectRoot, featureName, {
+        pid: agentProcess.pid,
+        command: agentCommand,
+        agentProfile: agentLaunch.profile,
+        mode: 'background',
+        startedAt: new Date().toISOString(),
+        stoppedAt: undefined,
+        stopReason: undefined,
+        launching: undefined,
+        exit: undefined,
+      });
+      return { child: agentProcess };
+    };
+
+    const scheduled = await scheduleAgentJob({
+      projectRoot,
+      featureName,
+      kind: 'revision',
+      queuedAt: new Date().toISOString(),
+      run: launch,
     });
 
-    const feedbackTypes = [];
-    if (allPRFeedback.includes('General PR Comments')) feedbackTypes.push('PR comments');
-    if (allPRFeedback.includes('Code Reviews')) feedbackTypes.push('code reviews');
-    if (allPRFeedback.includes('Code Review Comments')) feedbackTypes.push('review comments');
+    const result: FeatureRevisionResult = {
+      featureName,
+      status: scheduled.started ? 'started' : 'queued',
+      featureFile: fullFeaturePath,
+      worktreePath,
+      branch: branchName,
+      baseBranch,
+      pr: prSummary,
+      feedbackTypes,
+      reviewThreads,
+      specUpdated,
+      previousAgent: stopMessage || undefined,
+      agentProfile: agentLaunch.profile,
+      command: agentCommand,
+      pid: scheduled.started ? scheduled.child.pid : undefined,
+      queuePosition: scheduled.started ? undefined : scheduled.position,
+    };
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `✅ Feature revision started with intelligent analysis!
+    return createToolResult(`${scheduled.started ? '✅ Feature revision started with intelligent analysis!' : `⏳ Feature revision queued (position ${scheduled.position}) - Claude Code starts when a running agent finishes`}
 
 📁 **Feature:** ${featureName}
 📄 **Source:** ${fullFeaturePath}
 📍 **Location:** ${worktreePath}
 🌿 **Branch:** ${branchName}
 📝 **Revision Instructions:** Saved to REVISION.md
-${hasPR ? `💬 **PR Feedback:** Auto-fetched ${feedbackTypes.join(', ')} from GitHub` : '📋 **Manual Instructions:** Using provided revision requirements'}
+${stopMessage ? `🛑 **Previous Agent:** ${stopMessage}\n` : ''}${hasPR ? `💬 **${label} Feedback:** Auto-fetched ${feedbackTypes.join(', ') || 'no comments'} from ${forge.displayName}` : '📋 **Manual Instructions:** Using provided revision requirements'}
 ${userContext.trim() ? '📋 **User Context:** Additional context provided' : ''}
-${currentFeatureSpec !== originalFeatureSpec ? '📄 **Updated Spec:** Feature requirements have been updated since development started' : ''}
+${specUpdated ? '📄 **Updated Spec:** Feature requirements have been updated since development started' : ''}
 🤖 **AI Analysis:** Claude will intelligently determine what needs attention vs. what's already resolved
 
 The Claude Code agent will:
 - Analyze ALL feedback (resolved and unresolved) 
 - Cross-reference with recent commits and current code
-- ${currentFeatureSpec !== originalFeatureSpec ? 'Consider updated feature requirements' : ''}
+- ${specUpdated ? 'Consider updated feature requirements' : ''}
+- Work through the ${reviewThreads.open} open review thread(s) and skip the ${reviewThreads.resolved + reviewThreads.outdated} resolved/outdated one(s)
 - Focus only on unaddressed concerns
 - Document analysis decisions in commit messages
 ${userContext.trim() ? '- Consider your additional context in the analysis' : ''}
 
-Use \`feature_status\` to monitor progress.
+Use \`feature_status\` to monitor progress and \`feature_logs\` to see agent output.
 
-💡 **Note:** Using GitHub CLI authentication (no API token required)`,
-        },
-      ],
-    };
+💡 **Note:** ${forge.cli ? `Using ${forge.cli.name} authentication (no API token required)` : 'Local mode - no forge CLI needed'}`, result, format);
 
   } catch (error: unknown) {
     throw error;
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Unified diff between the spec the agent started from and the current one.
+ */
+async function diffSpecs(originalSpec: string, updatedSpec: string): Promise<string> {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'feature-spec-diff-'));
+  try {
+    fs.writeFileSync(path.join(tempDir, 'original.md'), originalSpec);
+    fs.writeFileSync(path.join(tempDir, 'updated.md'), updatedSpec);
+    // Exits with 1 when the files differ
+    const { stdout } = await execa('git', ['diff', '--no-index', '--no-color', 'original.md', 'updated.md'], {
+      stdio: 'pipe',
+      cwd: tempDir,
+      reject: false
+    });
+    // Drop the diff/index/---/+++ header lines
+    const lines = stdout.split('\n');
+    const firstHunk = lines.findIndex(line => line.startsWith('@@'));
+    return firstHunk === -1 ? stdout : lines.slice(firstHunk).join('\n');
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+// A thread's diff hunk runs from the hunk header down to the commented line, so keep the header and the tail
+const MAX_HUNK_LINES = 15;
+
+/**
+ * Review threads as markdown, grouped by file.
+ */
+function formatReviewThreads(threads: ReviewThread[], actionable: boolean): string {
+  const threadsByFile = new Map<string, ReviewThread[]>();
+  for (const thread of threads) {
+    threadsByFile.set(thread.path, [...(threadsByFile.get(thread.path) || []), thread]);
+  }
+
+  let text = '';
+  let threadNumber = 0;
+  for (const [file, fileThreads] of threadsByFile) {
+    text += `#### \`${file}\`\n\n`;
+    for (const thread of fileThreads) {
+      const location = thread.line === undefined
+        ? 'File'
+        : thread.startLine !== undefined && thread.startLine !== thread.line
+          ? `Lines ${thread.startLine}-${thread.line}`
+          : `Line ${thread.line}`;
+      const state = thread.isResolved ? 'resolved' : thread.isOutdated ? 'outdated' : 'unresolved';
+      // Action items are numbered so the agent can refer to them in commit messages
+      text += actionable ? `**Thread ${++threadNumber}** - ${location} (${state})\n` : `**${location}** (${state})\n`;
+
+      if (actionable && thread.diffHunk) {
+        const hunkLines = thread.diffHunk.split('\n');
+        const hunk = hunkLines.length > MAX_HUNK_LINES + 1
+          ? [hunkLines[0], ...hunkLines.slice(-MAX_HUNK_LINES)]
+          : hunkLines;
+        text += `\`\`\`diff\n${hunk.join('\n')}\n\`\`\`\n`;
+      }
+
+      // Settled threads just need enough to recognise them
+      const comments = actionable ? thread.comments : thread.comments.slice(0, 1);
+      for (const comment of comments) {
+        text += `- **${comment.author}**${actionable ? ` (${comment.createdAt})` : ''}: ${comment.body.trim().replace(/\n/g, '\n  ')}\n`;
+      }
+      if (!actionable && thread.comments.length > 1) {
+        text += `- ...and ${thread.comments.length - 1} more comment(s)\n`;
+      }
+      text += '\n';
+    }
+  }
+  return text;
+}
@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { readFeatureSpec } from '../utils/feature-spec.js';
+import { loadProjectConfig } from '../utils/project-config.js';
+import { formatLintFindings, SpecLintReport, lintFeatureSpec } from '../utils/spec-lint.js';
+import { resolveProjectRoot } from '../utils/projects.js';
+import { createToolResult, ResultFormat } from '../utils/tool-result.js';
+
+interface FeatureSpecLintArgs {
+  projectRoot?: string;
+  featureFile: string;
+  format?: ResultFormat;
+}
+
+export interface FeatureSpecLintResult extends SpecLintReport {
+  featureName: string;
+  // Whether feature_start would run without force
+  startable: boolean;
+}
+
+export async function featureSpecLint(args: FeatureSpecLintArgs) {
+  const { featureFile, format } = args;
+
+  const projectRoot = resolveProjectRoot(args.projectRoot);
+
+  if (!featureFile) {
+    throw new Error('featureFile is required');
+  }
+
+  const fullFeaturePath = path.isAbsolute(featureFile) ? featureFile : path.join(projectRoot, featureFile);
+  if (!fs.existsSync(fullFeaturePath)) {
+    throw new Error(`Feature file '${featureFile}' not found at '${fullFeaturePath}'`);
+  }
+
+  const { featureName } = readFeatureSpec(fullFeaturePath);
+  const report = lintFeatureSpec(projectRoot, fullFeaturePath, loadProjectConfig(projectRoot).specLint);
+  const result: FeatureSpecLintResult = { featureName, startable: report.errors === 0, ...report };
+
+  const summary = report.findings.length === 0
+    ? '✅ No problems found'
+    : `${report.errors} error(s), ${report.warnings} warning(s)`;
+
+  return createToolResult(`📝 Spec lint: ${featureFile}
+
+${summary}
+📏 **Scope:** ${report.scope.words} words, ${report.scope.tasks} tasks
+${report.findings.length > 0 ? `\n${formatLintFindings(report.findings)}\n` : ''}
+${report.errors > 0
+    ? '🚫 `feature_start` will refuse this spec until the errors are fixed (or it is given `force: true`).'
+    : '🚀 Ready for `feature_start`.'}`, result, format);
+}
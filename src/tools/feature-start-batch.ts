@@ -0,0 +1,270 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execa } from 'execa';
+import { featureStart } from './feature-start.js';
+import { findFeatureSpecs, readDependsOn, readFeatureSpec } from '../utils/feature-spec.js';
+import { getFeatureSession, getWorktreesPath, resolveFeatureSession } from '../utils/registry.js';
+import { loadProjectConfig } from '../utils/project-config.js';
+import { getDependencyState, waitForDependencies } from '../utils/dependencies.js';
+import { getQueuePosition } from '../utils/scheduler.js';
+import { resolveProjectRoot } from '../utils/projects.js';
+import { createToolResult, ResultFormat } from '../utils/tool-result.js';
+
+interface FeatureStartBatchArgs {
+  projectRoot?: string;
+  specs: string;
+  branchPrefix?: string;
+  baseBranch?: string;
+  agentProfile?: string;
+  force?: boolean;
+  format?: ResultFormat;
+}
+
+interface BatchSpec {
+  featureName: string;
+  featureFile: string;
+  dependsOn: string[];
+  branchName: string;
+  baseBranch: string;
+}
+
+interface BatchRow {
+  featureName: string;
+  result: '🚀 Started' | '⏳ Queued' | '🔗 Waiting' | '⏭️ Skipped' | '🚫 Blocked' | '❌ Failed';
+  branch: string;
+  base: string;
+  notes: string;
+}
+
+const BATCH_STATUSES = {
+  '🚀 Started': 'started',
+  '⏳ Queued': 'queued',
+  '🔗 Waiting': 'waiting',
+  '⏭️ Skipped': 'skipped',
+  '🚫 Blocked': 'blocked',
+  '❌ Failed': 'failed',
+} as const;
+
+export interface FeatureStartBatchResult {
+  specs: string;
+  features: Array<{
+    featureName: string;
+    featureFile: string;
+    status: typeof BATCH_STATUSES[BatchRow['result']];
+    branch?: string;
+    baseBranch?: string;
+    dependsOn: string[];
+    notes?: string;
+  }>;
+  counts: Partial<Record<typeof BATCH_STATUSES[BatchRow['result']], number>>;
+}
+
+export async function featureStartBatch(args: FeatureStartBatchArgs) {
+  const { specs, branchPrefix, baseBranch, agentProfile, force, format } = args;
+
+  const projectRoot = resolveProjectRoot(args.projectRoot);
+
+  if (!specs) {
+    throw new Error('specs is required (a directory such as "features/" or a glob such as "features/*.md")');
+  }
+
+  const specFiles = findFeatureSpecs(projectRoot, specs);
+  if (specFiles.length === 0) {
+    return createToolResult(`📂 No feature specs found matching '${specs}'`, { specs, features: [], counts: {} }, format);
+  }
+
+  const projectConfig = loadProjectConfig(projectRoot);
+  const batch = new Map<string, BatchSpec>();
+  const rows = new Map<string, BatchRow>();
+
+  for (const featureFile of specFiles) {
+    const { featureName, config } = readFeatureSpec(featureFile);
+    if (batch.has(featureName)) {
+      throw new Error(`Feature specs '${batch.get(featureName)!.featureFile}' and '${featureFile}' both map to feature '${featureName}'`);
+    }
+    const dependsOn = readDependsOn(fs.readFileSync(featureFile, 'utf-8')).filter(dependency => dependency !== featureName);
+    batch.set(featureName, {
+      featureName,
+      featureFile,
+      dependsOn,
+      branchName: `${branchPrefix ?? config.branchPrefix ?? projectConfig.branchPrefix}${featureName}`,
+      baseBranch: baseBranch ?? config.baseBranch ?? projectConfig.baseBranch,
+    });
+  }
+
+  // Features that already have a worktree are left alone
+  for (const spec of batch.values()) {
+    if (fs.existsSync(path.join(getWorktreesPath(projectRoot), spec.featureName)) || getFeatureSession(projectRoot, spec.featureName)) {
+      const session = resolveFeatureSession(projectRoot, spec.featureName);
+      rows.set(spec.featureName, createRow(spec.featureName, '⏭️ Skipped', session.branchName, session.baseBranch, 'Worktree already exists'));
+    }
+  }
+
+  for (const spec of orderByDependencies(batch, rows)) {
+    rows.set(spec.featureName, await startBatchFeature(projectRoot, spec, batch, rows, branchPrefix, agentProfile, force));
+  }
+
+  const counts = Array.from(rows.values()).reduce<Record<string, number>>((totals, row) => {
+    totals[row.result] = (totals[row.result] || 0) + 1;
+    return totals;
+  }, {});
+
+  const result: FeatureStartBatchResult = { specs, features: [], counts: {} };
+  for (const spec of batch.values()) {
+    const row = rows.get(spec.featureName)!;
+    const status = BATCH_STATUSES[row.result];
+    result.features.push({
+      featureName: spec.featureName,
+      featureFile: spec.featureFile,
+      status,
+      branch: row.branch || undefined,
+      baseBranch: row.base || undefined,
+      dependsOn: spec.dependsOn,
+      notes: row.notes || undefined,
+    });
+    result.counts[status] = (result.counts[status] || 0) + 1;
+  }
+
+  let batchText = `📦 **Batch Feature Start** (${specFiles.length} spec${specFiles.length === 1 ? '' : 's'} from \`${specs}\`)\n\n`;
+  batchText += '| Feature | Result | Branch | Base | Notes |\n';
+  batchText += '|---------|--------|--------|------|-------|\n';
+  for (const spec of batch.values()) {
+    const row = rows.get(spec.featureName)!;
+    batchText += `| ${row.featureName} | ${row.result} | ${row.branch ? `\`${row.branch}\`` : '-'} | ${row.base ? `\`${row.base}\`` : '-'} | ${row.notes || '-'} |\n`;
+  }
+  batchText += `\n📊 **Summary:** ${Object.entries(counts).map(([result, count]) => `${result} ${count}`).join('  ')}\n\n`;
+  batchText += 'Use `feature_status` to monitor progress. Waiting features start automatically once their dependencies finish.';
+
+  return createToolResult(batchText, result, format);
+}
+
+function createRow(featureName: string, result: BatchRow['result'], branch: string, base: string, notes: string): BatchRow {
+  return { featureName, result, branch, base, notes };
+}
+
+/**
+ * Dependencies before dependents. Features in a dependency cycle are marked failed.
+ */
+function orderByDependencies(batch: Map<string, BatchSpec>, rows: Map<string, BatchRow>): BatchSpec[] {
+  const ordered: BatchSpec[] = [];
+  const visited = new Set<string>();
+  const visiting: string[] = [];
+
+  const visit = (spec: BatchSpec): boolean => {
+    if (visited.has(spec.featureName)) {
+      return true;
+    }
+    const cycleStart = visiting.indexOf(spec.featureName);
+    if (cycleStart !== -1) {
+      const cycle = [...visiting.slice(cycleStart), spec.featureName];
+      for (const featureName of cycle) {
+        rows.set(featureName, createRow(featureName, '❌ Failed', '', '', `Dependency cycle: ${cycle.join(' → ')}`));
+      }
+      return false;
+    }
+
+    visiting.push(spec.featureName);
+    let acyclic = true;
+    for (const dependency of spec.dependsOn) {
+      const dependencySpec = batch.get(dependency);
+      if (dependencySpec && !visit(dependencySpec)) {
+        acyclic = false;
+      }
+    }
+    visiting.pop();
+    visited.add(spec.featureName);
+
+    if (acyclic && !rows.has(spec.featureName)) {
+      ordered.push(spec);
+    }
+    return acyclic;
+  };
+
+  for (const spec of batch.values()) {
+    visit(spec);
+  }
+  return ordered;
+}
+
+async function startBatchFeature(
+  projectRoot: string,
+  spec: BatchSpec,
+  batch: Map<string, BatchSpec>,
+  rows: Map<string, BatchRow>,
+  branchPrefix: string | undefined,
+  agentProfile: string | undefined,
+  force: boolean | undefined
+): Promise<BatchRow> {
+  const { branchName: branch, baseBranch } = spec;
+
+  const start = async (base: string): Promise<void> => {
+    if (spec.dependsOn.length > 1) {
+      await assertDependenciesMerged(projectRoot, spec.dependsOn, base);
+    }
+    await featureStart({ projectRoot, featureFile: spec.featureFile, branchPrefix, baseBranch: base, agentProfile, force });
+  };
+
+  if (spec.dependsOn.length === 0) {
+    try {
+      await start(baseBranch);
+    } catch (error) {
+      return createRow(spec.featureName, '❌ Failed', branch, baseBranch, error instanceof Error ? error.message : 'Unknown error');
+    }
+    const position = getQueuePosition(projectRoot, spec.featureName);
+    return createRow(spec.featureName, position !== undefined ? '⏳ Queued' : '🚀 Started', branch, baseBranch, position !== undefined ? `Queue position ${position}` : '');
+  }
+
+  // A prerequisite that failed in this batch blocks everything that depends on it
+  const failedDependencies = spec.dependsOn.filter(dependency => {
+    const row = rows.get(dependency);
+    return batch.has(dependency) && row && (row.result === '❌ Failed' || row.result === '🚫 Blocked');
+  });
+  if (failedDependencies.length > 0) {
+    return createRow(spec.featureName, '🚫 Blocked', branch, '', `Dependency failed: ${failedDependencies.join(', ')}`);
+  }
+
+  const states = await Promise.all(spec.dependsOn.map(dependency => getDependencyState(projectRoot, dependency)));
+  const unavailable = spec.dependsOn.filter((_, index) => ['missing', 'stopped', 'failed'].includes(states[index]));
+  if (unavailable.length > 0) {
+    return createRow(spec.featureName, '🚫 Blocked', branch, '', `Dependency not found, stopped or failed: ${unavailable.join(', ')}`);
+  }
+
+  // Branch from the first prerequisite; any others must already be merged into it (checked at the start)
+  const [primaryDependency] = spec.dependsOn;
+  const dependencyBranch = rows.get(primaryDependency)?.branch || resolveFeatureSession(projectRoot, primaryDependency).branchName;
+  const notes = `Depends on ${spec.dependsOn.join(', ')}`;
+
+  if (states.every(state => state === 'finished')) {
+    try {
+      await start(dependencyBranch);
+    } catch (error) {
+      return createRow(spec.featureName, '❌ Failed', branch, dependencyBranch, error instanceof Error ? error.message : 'Unknown error');
+    }
+    const position = getQueuePosition(projectRoot, spec.featureName);
+    return createRow(spec.featureName, position !== undefined ? '⏳ Queued' : '🚀 Started', branch, dependencyBranch, notes);
+  }
+
+  waitForDependencies({
+    projectRoot,
+    featureName: spec.featureName,
+    dependsOn: spec.dependsOn,
+    waitingSince: new Date().toISOString(),
+    start: () => start(resolveFeatureSession(projectRoot, primaryDependency).branchName),
+  });
+  return createRow(spec.featureName, '🔗 Waiting', branch, dependencyBranch, notes);
+}
+
+// The feature only gets the first prerequisite's branch, so the others' work has to be in it already
+async function assertDependenciesMerged(projectRoot: string, dependsOn: string[], dependencyBranch: string): Promise<void> {
+  const unmerged: string[] = [];
+  for (const dependency of dependsOn.slice(1)) {
+    const { branchName } = resolveFeatureSession(projectRoot, dependency);
+    const { exitCode } = await execa('git', ['merge-base', '--is-ancestor', branchName, dependencyBranch], { stdio: 'pipe', cwd: projectRoot, reject: false });
+    if (exitCode !== 0) {
+      unmerged.push(`${dependency} (${branchName})`);
+    }
+  }
+  if (unmerged.length > 0) {
+    throw new Error(`Not started: it would branch from ${dependencyBranch}, which doesn't contain ${unmerged.join(', ')}. Merge them into ${dependencyBranch} first, or list the dependency that contains the others first in dependsOn.`);
+  }
+}
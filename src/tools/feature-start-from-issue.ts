@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { featureStart } from './feature-start.js';
+import { fetchGitHubIssue, getIssueFeatureName, getIssueSpecPath, removeIssueSpec, writeIssueSpec } from '../utils/github-issues.js';
+import { getFeatureSession, getWorktreesPath } from '../utils/registry.js';
+import { resolveProjectRoot } from '../utils/projects.js';
+import { ToolCallContext } from '../utils/tool-calls.js';
+import { ResultFormat } from '../utils/tool-result.js';
+
+interface FeatureStartFromIssueArgs {
+  projectRoot?: string;
+  // 42, "#42" or an issue URL
+  issue: string | number;
+  // owner/name, for issues outside the project's own repository
+  repo?: string;
+  branchPrefix?: string;
+  baseBranch?: string;
+  interactive?: boolean;
+  agentProfile?: string;
+  force?: boolean;
+  format?: ResultFormat;
+}
+
+/**
+ * feature_start for a GitHub issue: the spec is written from the issue (see the
+ * issue prompt template) and the feature is named "<number>-<title slug>".
+ */
+export async function featureStartFromIssue(args: FeatureStartFromIssueArgs, context: ToolCallContext = {}) {
+  const { issue: reference, repo, format, ...startArgs } = args;
+
+  const projectRoot = resolveProjectRoot(args.projectRoot);
+
+  if (reference === undefined || reference === '') {
+    throw new Error('issue is required');
+  }
+
+  const issue = await fetchGitHubIssue(projectRoot, reference, repo);
+  if (issue.state === 'CLOSED' && !args.force) {
+    throw new Error(`Issue #${issue.number} is closed - reopen it or pass force: true to start anyway`);
+  }
+
+  // Rewriting the spec of a feature that's underway would change its requirements behind its back
+  const featureName = getIssueFeatureName(issue);
+  if (getFeatureSession(projectRoot, featureName) || fs.existsSync(path.join(getWorktreesPath(projectRoot), featureName))) {
+    throw new Error(`Issue #${issue.number} is already being worked on as '${featureName}'. Use feature_revision with featureFile '${getIssueSpecPath(projectRoot, featureName)}' to modify it, or feature_cleanup to remove it.`);
+  }
+
+  const { specPath } = writeIssueSpec(projectRoot, issue);
+  try {
+    return await featureStart({ ...startArgs, projectRoot, featureFile: specPath, format }, context);
+  } catch (error) {
+    // feature_start rolled the feature back, so its spec goes too
+    removeIssueSpec(projectRoot, featureName);
+    throw error;
+  }
+}
@@ -2,22 +2,66 @@ import simpleGit from 'simple-git';
 import { execa } from 'execa';
 import * as fs from 'fs';
 import * as path from 'path';
+import { getWorktreesPath, removeFeatureSession, saveFeatureSession, updateFeatureSession } from '../utils/registry.js';
+import { AGENT_PROFILES, AgentProfileName, buildAgentLaunch, formatAgentCommand, launchAgent, resolveAgentProfile } from '../utils/agent-runner.js';
+import { markAgentLaunching, throwIfLaunchCancelled } from '../utils/agent-process.js';
+import { getMaxConcurrentAgents, scheduleAgentJob } from '../utils/scheduler.js';
+import { FeatureIssue, readFeatureSpec } from '../utils/feature-spec.js';
+import { loadProjectConfig, PROJECT_CONFIG_FILE } from '../utils/project-config.js';
+import { renderPromptTemplate } from '../utils/prompt-templates.js';
+import { formatHookRuns, HookRun, runHook } from '../utils/hooks.js';
+import { formatLocalFiles, LocalFileResult, syncLocalFiles } from '../utils/local-files.js';
+import { formatInstallReport, installDependencies, InstallReport } from '../utils/install.js';
+import { formatLintFindings, lintFeatureSpec, SpecLintFinding } from '../utils/spec-lint.js';
+import { getForge } from '../utils/forge.js';
+import { getVerifyGates } from '../utils/verify.js';
+import { startRetryLoop } from '../utils/retry.js';
+import { getBudgetOverrun } from '../utils/usage.js';
+import { formatIssue, getIssueReference } from '../utils/github-issues.js';
+import { resolveProjectRoot } from '../utils/projects.js';
+import { createPhaseReporter, killProcessGroupOnAbort, throwIfCancelled, ToolCallContext } from '../utils/tool-calls.js';
+import { createToolResult, ResultFormat } from '../utils/tool-result.js';
 
 interface FeatureStartArgs {
+  projectRoot?: string;
   featureFile: string;
   branchPrefix?: string;
   baseBranch?: string;
   interactive?: boolean;
+  agentProfile?: string;
+  // Start despite error-level spec lint findings
+  force?: boolean;
+  format?: ResultFormat;
 }
 
-export async function featureStart(args: FeatureStartArgs) {
-  const { featureFile, branchPrefix = 'feature/', baseBranch = 'main', interactive = false } = args;
+export interface FeatureStartResult {
+  featureName: string;
+  status: 'started' | 'queued';
+  featureFile: string;
+  worktreePath: string;
+  branch: string;
+  baseBranch: string;
+  agentProfile: AgentProfileName;
+  mode: 'background' | 'interactive';
+  command: string;
+  pid?: number;
+  queuePosition?: number;
+  localFiles: LocalFileResult[];
+  hooks: HookRun[];
+  // Everything feature_spec_lint found - errors only when forced
+  specLint: SpecLintFinding[];
+  issue?: FeatureIssue;
+  // Unset while queued - feature_status shows it once the install has run
+  install?: InstallReport;
+}
 
-  // Get project root directory - require PROJECT_ROOT env var for Cursor MCP
-  const projectRoot = process.env.PROJECT_ROOT;
-  if (!projectRoot) {
-    throw new Error('PROJECT_ROOT environment variable not set. This is required for Cursor MCP. Add "env": {"PROJECT_ROOT": "/path/to/your/project"} to your MCP configuration.');
-  }
+// Reported as MCP progress; a cancelled call stops at the next phase and is rolled back
+const START_PHASES = ['Creating branch', 'Adding worktree', 'Syncing local files', 'Installing dependencies', 'Launching agent'] as const;
+
+export async function featureStart(args: FeatureStartArgs, context: ToolCallContext = {}) {
+  const { featureFile, interactive = false, agentProfile, force = false, format } = args;
+
+  const projectRoot = resolveProjectRoot(args.projectRoot);
   
   const fullFeaturePath = path.isAbsolute(featureFile) ? featureFile : path.join(projectRoot, featureFile);
 
@@ -26,12 +70,21 @@ export async function featureStart(args: FeatureStartArgs) {
     throw new Error(`Feature file '${featureFile}' not found at '${fullFeaturePath}'`);
   }
 
-  // Extract feature name from file path
-  const featureName = path.basename(featureFile, '.md')
-    .toLowerCase()
-    .replace(/[^a-zA-Z0-9-]/g, '-'); 
+  // Tool arguments, then frontmatter, then .worktree-agent.json
+  const spec = readFeatureSpec(fullFeaturePath);
+  const { featureName, config } = spec;
+  const projectConfig = loadProjectConfig(projectRoot);
+  const branchPrefix = args.branchPrefix ?? config.branchPrefix ?? projectConfig.branchPrefix;
+  const baseBranch = args.baseBranch ?? config.baseBranch ?? projectConfig.baseBranch;
+
+  // Vague specs waste agent runs; errors stop the start unless forced
+  const lint = lintFeatureSpec(projectRoot, fullFeaturePath, projectConfig.specLint);
+  if (lint.errors > 0 && !force) {
+    const errors = lint.findings.filter(finding => finding.severity === 'error');
+    throw new Error(`Feature spec '${featureFile}' has ${lint.errors} lint error(s) - fix them or pass force: true to start anyway:\n${formatLintFindings(errors)}`);
+  }
 
-  const worktreePath = path.join(projectRoot, '.worktrees', featureName);
+  const worktreePath = path.join(getWorktreesPath(projectRoot), featureName);
   const branchName = `${branchPrefix}${featureName}`;
 
   // Check if worktree already exists
@@ -39,7 +92,17 @@ export async function featureStart(args: FeatureStartArgs) {
     throw new Error(`Feature '${featureName}' already exists at '${worktreePath}'. Use feature_revision to modify or feature_cleanup to remove.`);
   }
 
+  // A new feature has spent nothing, but the project may have
+  const overrun = getBudgetOverrun(projectRoot, featureName);
+  if (overrun) {
+    throw new Error(`Can't start '${featureName}': ${overrun}. Raise the limits under budget in ${PROJECT_CONFIG_FILE} to start more features.`);
+  }
+
+  const forge = await getForge(projectRoot);
   const git = simpleGit(projectRoot);
+  const startPhase = createPhaseReporter(context, START_PHASES);
+  let branchCreated = false;
+  let launchSignal: AbortSignal | undefined;
 
   try {
     // Ensure we're in a git repository
@@ -51,130 +114,175 @@ export async function featureStart(args: FeatureStartArgs) {
     // Create worktree directory
     fs.mkdirSync(path.dirname(worktreePath), { recursive: true });
 
-    // Create new branch and worktree
-    await git.checkout(['-b', branchName, baseBranch]);
+    const baseCommit = (await git.revparse([baseBranch])).trim();
+
+    // Create the branch without checking it out - the main checkout stays where it is
+    startPhase('Creating branch');
+    await git.raw(['branch', branchName, baseBranch]);
+    branchCreated = true;
+
+    startPhase('Adding worktree');
     await git.raw(['worktree', 'add', worktreePath, branchName]);
 
-    // Copy feature specification
-    const featureContent = fs.readFileSync(fullFeaturePath, 'utf-8');
-    fs.writeFileSync(path.join(worktreePath, 'FEATURE.md'), featureContent);
-
-    // Copy essential project files
-    const filesToCopy = [
-      'package.json',
-      'tsconfig.json', 
-      'jsconfig.json',
-      '.eslintrc*',
-      '.prettierrc*',
-      'vite.config.*',
-      'next.config.*',
-      'tailwind.config.*',
-      'README.md'
-    ];
-
-    filesToCopy.forEach(pattern => {
-      if (pattern.includes('*')) {
-        // Handle glob patterns
-        const files = fs.readdirSync(projectRoot).filter(file => {
-          const regex = new RegExp(pattern.replace('*', '.*'));
-          return regex.test(file);
-        });
-        files.forEach(file => {
-          if (fs.existsSync(path.join(projectRoot, file))) {
-            fs.copyFileSync(path.join(projectRoot, file), path.join(worktreePath, file));
-          }
-        });
-      } else {
-        // Handle exact filenames
-        if (fs.existsSync(path.join(projectRoot, pattern))) {
-          fs.copyFileSync(path.join(projectRoot, pattern), path.join(worktreePath, pattern));
-        }
-      }
+    // Copy feature specification (without frontmatter - that's configuration for us, not the agent)
+    fs.writeFileSync(path.join(worktreePath, 'FEATURE.md'), spec.body);
+
+    // Bring over what git doesn't check out (.env files, local certificates, ...)
+    startPhase('Syncing local files');
+    const localFiles = await syncLocalFiles(projectRoot, worktreePath, projectConfig.localFiles);
+
+    // Project bootstrap (code generation, .env files, ...) - a failure undoes the start
+    const hookContext = { featureName, worktreePath, branchName, baseBranch, featureFile: fullFeaturePath };
+    const hookRuns = await runHook(projectRoot, 'postCreate', hookContext, context.signal);
+
+    // Development instructions from the project's start template (or the built-in one).
+    // Local mode has nothing to open - the work is merged by hand. With
+    // verify.requiredForPullRequest the PR is opened by feature_verify instead of the agent
+    const verifyGates = getVerifyGates(projectConfig.verify);
+    const verifyOpensRequest = projectConfig.verify.requiredForPullRequest && forge.name !== 'local';
+    const createCommand = verifyOpensRequest
+      ? undefined
+      : forge.getCreateCommand({ projectRoot, worktreePath, branchName, baseBranch }, config.pr || {});
+    const instructions = renderPromptTemplate(projectRoot, 'start', {
+      featureName,
+      featureFile: fullFeaturePath,
+      worktreePath,
+      branchName,
+      baseBranch,
+      forgeName: forge.displayName,
+      requestLabel: forge.requestLabel,
+      requestName: forge.name === 'gitlab' ? 'Merge Request' : 'Pull Request',
+      createCommand: createCommand || '',
+      issueNumber: config.issue?.number,
+      issueUrl: config.issue?.url || '',
+      issueReference: config.issue ? await getIssueReference(projectRoot, config.issue) : '',
+      verifyCommands: verifyGates.map(({ gate, command }) => `- ${gate}: \`${command}\``).join('\n'),
+      verifyOpensRequest,
     });
 
-    // Copy entire src directory if it exists
-    if (fs.existsSync(path.join(projectRoot, 'src'))) {
-      fs.cpSync(path.join(projectRoot, 'src'), path.join(worktreePath, 'src'), { recursive: true });
+    // Pick the agent: tool arguments, then spec frontmatter, then AGENT_PROFILE
+    if (interactive && agentProfile && AGENT_PROFILES[resolveAgentProfile(agentProfile)].mode !== 'interactive') {
+      throw new Error(`interactive=true conflicts with the '${agentProfile}' agent profile, which runs in the background`);
     }
+    const agentLaunch = buildAgentLaunch(projectRoot, featureName, worktreePath, instructions, {
+      ...config.agent,
+      profile: agentProfile || (interactive ? 'claude-interactive' : config.agent?.profile),
+    });
+    const isInteractive = agentLaunch.mode === 'interactive';
+    const agentCommand = formatAgentCommand(agentLaunch);
+    const agentName = agentLaunch.profile === 'command' ? path.basename(agentLaunch.command) : 'Claude Code';
+
+    // Record the session up front so queued features show in feature_status
+    const createdAt = new Date().toISOString();
+    saveFeatureSession(projectRoot, {
+      featureName,
+      featureFile: fullFeaturePath,
+      worktreePath,
+      branchName,
+      baseBranch,
+      baseCommit,
+      command: agentCommand,
+      agentProfile: agentLaunch.profile,
+      mode: agentLaunch.mode,
+      createdAt,
+      issue: config.issue,
+    });
 
-    // Install dependencies in worktree
-    if (fs.existsSync(path.join(worktreePath, 'package.json'))) {
+    // Install and launch together, so both count against the concurrency limit.
+    // A failed install is reported but doesn't stop the agent - it may be able to fix it
+    let install: InstallReport | undefined;
+    // A queued launch runs after this call has returned - there's nothing left to report to or cancel
+    let launchContext = context;
+    const launch = async () => {
+      const startLaunchPhase = createPhaseReporter(launchContext, START_PHASES);
+      startLaunchPhase('Installing dependencies');
+      const stopSignal = launchSignal = markAgentLaunching(projectRoot, featureName, 'installing');
+      // The client can cancel the call, and feature_stop the launch
+      const signal = launchContext.signal ? AbortSignal.any([launchContext.signal, stopSignal]) : stopSignal;
       try {
-        // Try pnpm first, fall back to npm
-        await execa('pnpm', ['install'], { stdio: 'pipe', cwd: worktreePath });
-      } catch {
-        try {
-          await execa('npm', ['install'], { stdio: 'pipe', cwd: worktreePath });
-        } catch (error) {
-          console.warn('Warning: Failed to install dependencies. Claude Code will proceed but may encounter issues.');
-        }
+        install = await installDependencies(projectRoot, featureName, worktreePath, projectConfig.installCommands, signal);
+        throwIfLaunchCancelled(stopSignal);
+        updateFeatureSession(projectRoot, featureName, { install });
+        markAgentLaunching(projectRoot, featureName, 'starting');
+        await runSetupCommands(worktreePath, config.setup || [], signal);
+        await runHook(projectRoot, 'preAgentLaunch', hookContext, signal);
+      } catch (error) {
+        throwIfLaunchCancelled(stopSignal);
+        throw error;
       }
-    }
+      throwIfLaunchCancelled(stopSignal);
 
-    // Create comprehensive development instructions
-    const instructions = `I need you to implement the feature described in FEATURE.md.
-
-This is an isolated development environment:
-- You're in a git worktree: ${worktreePath}
-- Working on branch: ${branchName}
-- Base branch: ${baseBranch}
-
-Your task:
-1. **Read FEATURE.md carefully** - understand all requirements and acceptance criteria
-2. **Analyze the existing codebase** - understand the project structure and patterns
-3. **Implement the feature** following existing conventions and best practices
-4. **Write tests** if the project has a testing setup
-5. **Commit your work** with clear, descriptive commit messages
-6. **Create a Pull Request** when ready: \`gh pr create --fill\`
-
-Important guidelines:
-- Follow the existing code style and patterns
-- Add proper error handling and validation
-- Include TypeScript types if this is a TypeScript project
-- Update documentation if needed
-- Test your implementation thoroughly
-
-Work autonomously and systematically. The feature specification in FEATURE.md is your primary guide.`;
-
-    // Start Claude Code with configurable command
-    const claudeCommand = process.env.CLAUDE_COMMAND || 'claude';
-    const claudeArgs = process.env.CLAUDE_ARGS ? process.env.CLAUDE_ARGS.split(' ') : ['--dangerously-skip-permissions'];
-    
-    if (interactive) {
-      // Interactive mode: Open Claude Code in the terminal
-      const fullArgs = [...claudeArgs, 'FEATURE.md'];
-      const claudeProcess = execa(claudeCommand, fullArgs, {
-        stdio: 'inherit',
-        cwd: worktreePath
-      });
-      
-      // Don't wait for completion in interactive mode
-      claudeProcess.catch(() => {
-        // Ignore errors in interactive mode
-      });
-    } else {
-      // Background mode: Original behavior
-      const claudeProcess = execa(claudeCommand, claudeArgs, {
-        input: instructions,
-        stdio: ['pipe', 'pipe', 'pipe'],
-        cwd: worktreePath
+      startLaunchPhase('Launching agent');
+
+      // Interactive agents have someone watching already
+      if (!isInteractive) {
+        await startRetryLoop(projectRoot, featureName, worktreePath);
+      }
+      const agentProcess = launchAgent(projectRoot, featureName, worktreePath, agentLaunch, { run: 'start' });
+
+      updateFeatureSession(projectRoot, featureName, {
+        pid: agentProcess.pid,
+        startedAt: new Date().toISOString(),
+        launching: undefined,
       });
-    }
+      return { child: agentProcess };
+    };
+
+    // Interactive sessions need the user at the terminal now, so they skip the queue
+    const scheduled = isInteractive
+      ? { started: true as const, ...(await launch()) }
+      : await scheduleAgentJob({ projectRoot, featureName, kind: 'start', queuedAt: createdAt, run: launch });
+    launchContext = {};
+    context.reportProgress?.(START_PHASES.length, START_PHASES.length, scheduled.started ? 'Agent started' : 'Queued');
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `✅ Feature development started!
+    const result: FeatureStartResult = {
+      featureName,
+      status: scheduled.started ? 'started' : 'queued',
+      featureFile: fullFeaturePath,
+      worktreePath,
+      branch: branchName,
+      baseBranch,
+      agentProfile: agentLaunch.profile,
+      mode: agentLaunch.mode,
+      command: agentCommand,
+      pid: scheduled.started ? scheduled.child.pid : undefined,
+      queuePosition: scheduled.started ? undefined : scheduled.position,
+      localFiles,
+      hooks: hookRuns,
+      specLint: lint.findings,
+      issue: config.issue,
+      install,
+    };
+    const localFilesText = localFiles.length > 0 ? `🔐 **Local Files:** ${formatLocalFiles(localFiles)}\n` : '';
+    const hooksText = hookRuns.length > 0 ? `🪝 **Hooks:**\n${formatHookRuns(hookRuns)}\n` : '';
+    const issueText = config.issue ? `🎫 **Issue:** ${formatIssue(config.issue)}\n` : '';
+    const specLintText = lint.findings.length > 0 ? `📝 **Spec Lint:**\n${formatLintFindings(lint.findings)}\n` : '';
+
+    if (!scheduled.started) {
+      return createToolResult(`⏳ Feature development queued!
 
 📁 **Feature:** ${featureName}
 📄 **Source:** ${fullFeaturePath}
-📍 **Location:** ${worktreePath}
-🌿 **Branch:** ${branchName}
-🔧 **Claude Code:** ${claudeCommand} ${claudeArgs.join(' ')}${interactive ? ' (Interactive Mode)' : ''}
-📋 **Instructions:** ${interactive ? 'Open in terminal for interactive development' : 'Comprehensive development guide provided'}
+${issueText}📍 **Location:** ${worktreePath}
+🌿 **Branch:** ${branchName} (from ${baseBranch})
+🔢 **Queue Position:** ${scheduled.position}
+🚦 **Concurrency Limit:** ${getMaxConcurrentAgents(projectRoot)} agent(s)
+${localFilesText}${hooksText}${specLintText}
+The worktree is ready. Dependencies will be installed and ${agentName} started automatically as soon as a running agent finishes.
+
+Use \`feature_status\` to see the queue.`, result, format);
+    }
 
-${interactive ? 
+    return createToolResult(`✅ Feature development started!
+
+📁 **Feature:** ${featureName}
+📄 **Source:** ${fullFeaturePath}
+${issueText}📍 **Location:** ${worktreePath}
+🌿 **Branch:** ${branchName} (from ${baseBranch})
+🔧 **Agent:** ${agentCommand} (${agentLaunch.profile} profile)
+📋 **Instructions:** ${isInteractive ? 'Open in terminal for interactive development' : 'Comprehensive development guide provided'}
+${localFilesText}${hooksText}${specLintText}${install ? `📦 **Dependencies:** ${formatInstallReport(install)}\n` : ''}
+${isInteractive ? 
 `🖥️  **Interactive Mode Active**
 Claude Code is opening in your terminal where you can:
 - See the interactive development process
@@ -182,31 +290,53 @@ Claude Code is opening in your terminal where you can:
 - Monitor progress step-by-step
 
 Navigate to the worktree directory and interact with Claude Code directly.` :
-`The Claude Code agent is now working autonomously on your feature. It will:
+`The ${agentName} agent is now working autonomously on your feature. It will:
 - Analyze the feature requirements in FEATURE.md
 - Study your existing codebase patterns
 - Implement the feature following your conventions
 - Write tests and documentation
-- Create a Pull Request when complete`}
+- ${createCommand ? `Open a ${forge.requestLabel} when complete`
+    : verifyOpensRequest ? `Commit its work to ${branchName} - the ${forge.requestLabel} is opened once \`feature_verify\` passes`
+    : `Commit its work to ${branchName} when complete`}`}
 
-Use \`feature_status\` to monitor progress.
+Use \`feature_status\` to monitor progress${isInteractive ? '' : ' and `feature_logs` to see agent output'}.
 
-💡 **Tip:** Run \`verify_setup\` first to ensure all prerequisites are met.`,
-        },
-      ],
-    };
+💡 **Tip:** Run \`verify_setup\` first to ensure all prerequisites are met.`, result, format);
 
   } catch (error: unknown) {
+    // feature_stop called the launch off - the feature stays, as stopped
+    if (launchSignal?.aborted) {
+      throw error;
+    }
+
     // Clean up on failure
     try {
       if (fs.existsSync(worktreePath)) {
         await git.raw(['worktree', 'remove', worktreePath, '--force']);
       }
-      await git.deleteLocalBranch(branchName, true);
+      // Never delete a branch that existed before this call
+      if (branchCreated) {
+        await git.deleteLocalBranch(branchName, true);
+      }
+      removeFeatureSession(projectRoot, featureName);
     } catch {
       // Ignore cleanup errors
     }
     
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+async function runSetupCommands(worktreePath: string, commands: string[], signal?: AbortSignal): Promise<void> {
+  for (const command of commands) {
+    try {
+      const subprocess = execa(command, { shell: true, stdio: 'pipe', cwd: worktreePath, detached: true });
+      const stopKilling = killProcessGroupOnAbort(subprocess.pid, signal);
+      await subprocess.finally(stopKilling);
+    } catch (error) {
+      throwIfCancelled(signal);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Setup command '${command}' failed: ${errorMessage}`);
+    }
+  }
+}
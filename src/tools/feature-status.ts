@@ -1,82 +1,250 @@
 import simpleGit from 'simple-git';
-import { execa } from 'execa';
 import * as fs from 'fs';
 import * as path from 'path';
+import { getWorktreesPath, listFeatureNames, resolveFeatureSession } from '../utils/registry.js';
+import { AgentLifecycle, formatDuration, getAgentLifecycle } from '../utils/agent-process.js';
+import { getMaxConcurrentAgents, getQueueLength, getQueuePosition } from '../utils/scheduler.js';
+import { getWaitingFeatures } from '../utils/dependencies.js';
+import { getForge, ForgeName } from '../utils/forge.js';
+import { formatInstallReport, InstallReport } from '../utils/install.js';
+import { formatVerifyReport, VerifyReport } from '../utils/verify.js';
+import { formatRetryState, RetryState } from '../utils/retry.js';
+import { FeatureUsage, formatBudget, formatUsage, getFeatureBudget, UsageBudget } from '../utils/usage.js';
+import type { FeatureIssue } from '../utils/feature-spec.js';
+import { formatIssue } from '../utils/github-issues.js';
+import { loadProjectConfig } from '../utils/project-config.js';
+import { listKnownProjects, resolveProjectRoot } from '../utils/projects.js';
+import { AgentState, createToolResult, ResultFormat } from '../utils/tool-result.js';
 
 interface FeatureStatusArgs {
+  projectRoot?: string;
   featureName?: string;
+  // Report on every registered project instead of one
+  allProjects?: boolean;
+  format?: ResultFormat;
+}
+
+export interface FeatureStatusEntry {
+  featureName: string;
+  worktreePath: string;
+  featureFile?: string;
+  // The issue the feature was started from
+  issue?: FeatureIssue;
+  mode?: 'background' | 'interactive';
+  agentProfile?: string;
+  createdAt?: string;
+  startedAt?: string;
+  worktreeExists: boolean;
+  branch: string;
+  baseBranch: string;
+  branchExists?: boolean;
+  latestCommit?: { hash: string; message: string } | null;
+  changedFiles?: number;
+  pushed?: boolean;
+  pr?: { state: string; url: string } | null;
+  // Local forge only: whether the branch has been merged into its base
+  merged?: boolean;
+  agent?: Omit<AgentLifecycle, 'state'> & {
+    state: AgentState;
+    queuePosition?: number;
+  };
+  // The last postAgentExit hook's failure
+  hookError?: string;
+  install?: InstallReport;
+  // The latest feature_verify run
+  verify?: VerifyReport;
+  // The verify-and-retry loop (verify.retry)
+  retry?: RetryState;
+  // Tokens and cost across the feature's agent runs
+  usage?: FeatureUsage & { budget: UsageBudget };
+  error?: string;
+}
+
+export interface FeatureStatusResult {
+  forge: ForgeName;
+  maxConcurrentAgents: number;
+  queueLength: number;
+  features: FeatureStatusEntry[];
+  waiting: Array<{ featureName: string; dependsOn: string[]; waitingSince: string }>;
+}
+
+export interface ProjectStatus {
+  name: string;
+  projectRoot: string;
+  status?: FeatureStatusResult;
+  error?: string;
+}
+
+export interface FeatureStatusAllProjectsResult {
+  projects: ProjectStatus[];
+}
+
+// The tail of a failed agent's output shown inline; the JSON has all of finalOutput
+const STATUS_OUTPUT_LINES = 5;
+
+function formatAgentLifecycle(lifecycle: AgentLifecycle): string {
+  const duration = lifecycle.durationMs !== undefined ? formatDuration(lifecycle.durationMs) : undefined;
+  switch (lifecycle.state) {
+    case 'starting':
+      return `🚀 Starting (${duration})`;
+    case 'installing':
+      return `📦 Installing dependencies (${duration})`;
+    case 'running':
+      return `🤖 Running for ${duration} (PID ${lifecycle.pid})`;
+    case 'succeeded':
+      return `✅ Succeeded ${lifecycle.endedAt}${duration ? ` after ${duration}` : ''}`;
+    case 'failed': {
+      const how = lifecycle.reason
+        || (lifecycle.signal ? `killed by ${lifecycle.signal}` : `exit code ${lifecycle.exitCode}`);
+      return `❌ Failed ${lifecycle.endedAt}${duration ? ` after ${duration}` : ''} - ${how}`;
+    }
+    case 'stopped':
+      return `🛑 Stopped ${lifecycle.endedAt}${duration ? ` after ${duration}` : ''}${lifecycle.stopReason ? ` - ${lifecycle.stopReason}` : ''}`;
+    default:
+      return `👻 Orphaned - ${lifecycle.reason}; use feature_revision to relaunch`;
+  }
 }
 
 export async function featureStatus(args: FeatureStatusArgs = {}) {
-  const { featureName } = args;
+  const { featureName, allProjects = false, format } = args;
 
-  // Get project root directory - require PROJECT_ROOT env var for Cursor MCP
-  const projectRoot = process.env.PROJECT_ROOT;
-  if (!projectRoot) {
-    throw new Error('PROJECT_ROOT environment variable not set. This is required for Cursor MCP. Add "env": {"PROJECT_ROOT": "/path/to/your/project"} to your MCP configuration.');
+  if (allProjects) {
+    return allProjectsStatus(featureName, format);
   }
 
-  const worktreesPath = path.join(projectRoot, '.worktrees');
+  const projectRoot = resolveProjectRoot(args.projectRoot);
+  const { result, ...status } = await getProjectStatus(projectRoot, featureName);
+  let text = status.text;
+
+  if (!featureName && result.features.length > 0) {
+    text += '💡 **Tips:**\n';
+    text += '   • Use `feature_cleanup` to remove completed features\n';
+    text += '   • Use `feature_status` with featureName to check specific feature\n';
+    text += '   • Use `feature_status` with allProjects to see every registered project\n';
+    text += '   • Visit worktree directories to manually check on progress\n';
+  }
+
+  return createToolResult(text, result, format);
+}
+
+/**
+ * Status of every registered project (and PROJECT_ROOT). A project that can't
+ * be read is reported rather than failing the whole call.
+ */
+async function allProjectsStatus(featureName: string | undefined, format: ResultFormat | undefined) {
+  const projects = listKnownProjects();
+  if (projects.length === 0) {
+    throw new Error('No projects to report on - register projects with project_add or set PROJECT_ROOT');
+  }
+
+  const result: FeatureStatusAllProjectsResult = { projects: [] };
+  let text = `🗂️ **Feature Development Across ${projects.length} Project(s)**\n\n`;
+  for (const { name, projectRoot } of projects) {
+    text += `## ${name} (${projectRoot})\n\n`;
+    try {
+      const status = await getProjectStatus(projectRoot, featureName);
+      result.projects.push({ name, projectRoot, status: status.result });
+      text += `${status.text.trimEnd()}\n\n`;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      result.projects.push({ name, projectRoot, error: errorMessage });
+      text += `❌ ${errorMessage}\n\n`;
+    }
+  }
+
+  return createToolResult(text, result, format);
+}
+
+async function getProjectStatus(projectRoot: string, featureName: string | undefined): Promise<{ text: string; result: FeatureStatusResult }> {
+  const worktreesPath = getWorktreesPath(projectRoot);
+  const waitingFeatures = getWaitingFeatures(projectRoot);
+  const forge = await getForge(projectRoot);
+  // PRs are left to feature_verify rather than the agent
+  const verifyOpensRequest = loadProjectConfig(projectRoot).verify.requiredForPullRequest;
+  const result: FeatureStatusResult = {
+    forge: forge.name,
+    maxConcurrentAgents: getMaxConcurrentAgents(projectRoot),
+    queueLength: getQueueLength(),
+    features: [],
+    waiting: waitingFeatures.map(({ featureName, dependsOn, waitingSince }) => ({ featureName, dependsOn, waitingSince })),
+  };
 
   if (!fs.existsSync(worktreesPath)) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: '📂 No active feature development found (.worktrees directory missing)',
-        },
-      ],
-    };
+    return { text: `📂 No active feature development found (${worktreesPath} missing)`, result };
   }
 
   const git = simpleGit(projectRoot);
   let statusText = '📂 **Active Feature Development**\n\n';
+  if (!featureName) {
+    statusText += `🚦 Concurrency: up to ${result.maxConcurrentAgents} agent(s), ${result.queueLength} queued\n\n`;
+  }
 
   // Get target features to check
   const targetFeatures = featureName 
     ? [featureName] 
-    : fs.readdirSync(worktreesPath).filter(dir => 
-        fs.statSync(path.join(worktreesPath, dir)).isDirectory()
-      );
+    : listFeatureNames(projectRoot);
 
   if (targetFeatures.length === 0) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: featureName 
-            ? `📂 Feature '${featureName}' not found`
-            : '📂 No active features found',
-        },
-      ],
-    };
+    return { text: featureName ? `📂 Feature '${featureName}' not found` : '📂 No active features found', result };
   }
 
   for (const feature of targetFeatures) {
-    const worktreePath = path.join(worktreesPath, feature);
-    const branchName = `feature/${feature}`;
+    const session = resolveFeatureSession(projectRoot, feature);
+    const { worktreePath, branchName, baseBranch } = session;
+    const entry: FeatureStatusEntry = {
+      featureName: feature,
+      worktreePath,
+      featureFile: session.registered ? session.featureFile : undefined,
+      issue: session.issue,
+      mode: session.registered ? session.mode : undefined,
+      agentProfile: session.agentProfile,
+      createdAt: session.registered ? session.createdAt : undefined,
+      startedAt: session.startedAt,
+      worktreeExists: fs.existsSync(worktreePath),
+      branch: branchName,
+      baseBranch,
+    };
+    result.features.push(entry);
     
     statusText += `🔨 **${feature}**\n`;
     statusText += `   Path: ${worktreePath}\n`;
+    if (session.registered) {
+      statusText += `   Source: ${session.featureFile}\n`;
+      if (session.issue) {
+        statusText += `   Issue: 🎫 ${formatIssue(session.issue)}\n`;
+      }
+      statusText += session.startedAt
+        ? `   Started: ${session.startedAt} (${session.agentProfile ? `${session.agentProfile} profile, ` : ''}${session.mode}${session.pid ? `, PID ${session.pid}` : ''})\n`
+        : `   Created: ${session.createdAt} (${session.mode}, not started yet)\n`;
+    }
+
+    if (!entry.worktreeExists) {
+      statusText += `   Status: ❌ Worktree missing\n\n`;
+      continue;
+    }
 
     try {
       // Check if branch exists
       const branches = await git.branchLocal();
-      if (branches.all.includes(branchName)) {
-        statusText += `   Branch: ✅ ${branchName}\n`;
+      entry.branchExists = branches.all.includes(branchName);
+      if (entry.branchExists) {
+        statusText += `   Branch: ✅ ${branchName} (from ${baseBranch})\n`;
 
         // Get commit info
         try {
           const worktreeGit = simpleGit(worktreePath);
-          const log = await worktreeGit.log({ from: 'main', to: 'HEAD', maxCount: 1 });
-          if (log.total > 0) {
+          const log = await worktreeGit.log({ from: baseBranch, to: 'HEAD', maxCount: 1 });
+          if (log.total > 0 && log.latest) {
             const latestCommit = log.latest;
-            statusText += `   Latest: ${latestCommit?.hash.substring(0, 7)} ${latestCommit?.message}\n`;
+            entry.latestCommit = { hash: latestCommit.hash, message: latestCommit.message };
+            statusText += `   Latest: ${latestCommit.hash.substring(0, 7)} ${latestCommit.message}\n`;
           } else {
+            entry.latestCommit = null;
             statusText += `   Latest: No commits yet\n`;
           }
 
           const status = await worktreeGit.status();
+          entry.changedFiles = status.files.length;
           if (status.files.length > 0) {
             statusText += `   Status: ${status.files.length} changed file(s)\n`;
           } else {
@@ -86,35 +254,80 @@ export async function featureStatus(args: FeatureStatusArgs = {}) {
           statusText += `   Status: Unable to read git status\n`;
         }
 
-        // Check for PR (using gh CLI)
-        try {
-          const { stdout: prUrl } = await execa('gh', ['pr', 'view', '--json', 'url', '-q', '.url'], { 
-            stdio: 'pipe',
-            cwd: worktreePath
-          });
-          if (prUrl.trim()) {
-            const { stdout: prState } = await execa('gh', ['pr', 'view', '--json', 'state', '-q', '.state'], { 
-              stdio: 'pipe',
-              cwd: worktreePath
-            });
-            statusText += `   PR: 🔗 ${prState.trim()} - ${prUrl.trim()}\n`;
-          }
-        } catch {
-          // Check if branch is pushed
-          try {
-            await git.listRemote(['--heads', 'origin', branchName]);
-            statusText += `   PR: ⏳ Branch pushed, no PR created yet\n`;
-          } catch {
-            statusText += `   PR: 📤 Not pushed to remote yet\n`;
+        // Check for a PR, or in local mode whether the branch has been merged
+        const forgeContext = { projectRoot, worktreePath, branchName, baseBranch, baseCommit: session.baseCommit };
+        if (forge.name === 'local') {
+          entry.pr = null;
+          entry.merged = (await forge.getMergeState(forgeContext)) === 'merged';
+          statusText += entry.merged
+            ? `   Merge: ✅ Merged into ${baseBranch}\n`
+            : `   Merge: ⏳ Not merged into ${baseBranch} yet\n`;
+        } else {
+          const pullRequest = await forge.findPullRequest(forgeContext);
+          if (pullRequest) {
+            entry.pushed = true;
+            entry.pr = { state: pullRequest.state, url: pullRequest.url };
+            statusText += `   ${forge.requestLabel}: 🔗 ${pullRequest.state} - ${pullRequest.url}\n`;
+          } else {
+            // Check if branch is pushed
+            entry.pr = null;
+            try {
+              const heads = await git.listRemote(['--heads', 'origin', branchName]);
+              entry.pushed = heads.trim() !== '';
+            } catch {
+              entry.pushed = false;
+            }
+            if (verifyOpensRequest && session.verify?.pullRequestError) {
+              statusText += `   ${forge.requestLabel}: ⚠️ Verified, but could not be opened: ${session.verify.pullRequestError}\n`;
+            } else if (verifyOpensRequest) {
+              statusText += `   ${forge.requestLabel}: 🔒 Opened once feature_verify passes${session.verify && !session.verify.passed ? ' (last run failed)' : ''}\n`;
+            } else {
+              statusText += entry.pushed
+                ? `   ${forge.requestLabel}: ⏳ Branch pushed, no ${forge.requestLabel} created yet\n`
+                : `   ${forge.requestLabel}: 📤 Not pushed to remote yet\n`;
+            }
           }
         }
 
-        // Check if Claude is running (basic process check)
-        try {
-          await execa('pgrep', ['-f', `claude.*${path.basename(worktreePath)}`], { stdio: 'pipe' });
-          statusText += `   Claude: 🤖 Running\n`;
-        } catch {
-          statusText += `   Claude: 💤 Not running\n`;
+        // Where the agent we launched is in its life (or its place in the queue)
+        const queuePosition = getQueuePosition(projectRoot, feature);
+        if (queuePosition !== undefined) {
+          entry.agent = { state: 'queued', queuePosition, durationMs: session.queuedAt ? Date.now() - Date.parse(session.queuedAt) : undefined };
+          statusText += `   Claude: ⏳ Queued (position ${queuePosition} of ${getQueueLength()})\n`;
+        } else {
+          const lifecycle = await getAgentLifecycle(session);
+          entry.agent = lifecycle;
+          statusText += `   Claude: ${formatAgentLifecycle(lifecycle)}\n`;
+          if (lifecycle.state === 'failed' && lifecycle.finalOutput?.length) {
+            statusText += lifecycle.finalOutput.slice(-STATUS_OUTPUT_LINES).map(line => `      │ ${line}\n`).join('');
+          }
+        }
+        if (session.install) {
+          entry.install = session.install;
+          const [summary, ...steps] = formatInstallReport(session.install).split('\n');
+          statusText += `   Install: ${session.install.failed > 0 ? '❌' : '✅'} ${summary}\n`;
+          // Only the failures - the rest went fine
+          statusText += steps.filter(step => step.includes('❌')).map(step => `   ${step}\n`).join('');
+        }
+        if (session.hookError) {
+          entry.hookError = session.hookError;
+          statusText += `   Hook: ❌ ${session.hookError}\n`;
+        }
+        if (session.verify) {
+          entry.verify = session.verify;
+          const [summary, ...gates] = formatVerifyReport(session.verify).split('\n');
+          statusText += `   Verify: ${session.verify.passed ? '✅' : '❌'} ${summary} (${session.verify.ranAt})\n`;
+          statusText += gates.filter(gate => gate.includes('❌')).map(gate => `   ${gate}\n`).join('');
+        }
+        if (session.retry) {
+          entry.retry = session.retry;
+          statusText += `   Retries: ${formatRetryState(session.retry)}\n`;
+        }
+        if (session.usage) {
+          const budget = getFeatureBudget(projectRoot, feature);
+          entry.usage = { ...session.usage, budget };
+          const limits = formatBudget(budget);
+          statusText += `   Usage: 💰 ${formatUsage(session.usage.total)} over ${session.usage.runs.length} run(s)${limits ? ` (budget ${limits})` : ''}\n`;
         }
 
       } else {
@@ -122,27 +335,22 @@ export async function featureStatus(args: FeatureStatusArgs = {}) {
       }
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      entry.error = errorMessage;
       statusText += `   Status: ❌ Error checking status: ${errorMessage}\n`;
     }
 
     statusText += '\n';
   }
 
-  if (!featureName) {
-    statusText += '💡 **Tips:**\n';
-    statusText += '   • Use `feature_cleanup` to remove completed features\n';
-    statusText += '   • Use `feature_status` with featureName to check specific feature\n';
-    statusText += '   • Visit worktree directories to manually check on progress\n';
+  if (!featureName && waitingFeatures.length > 0) {
+    statusText += '🔗 **Waiting on dependencies:**\n';
+    for (const waitingFeature of waitingFeatures) {
+      statusText += `   • ${waitingFeature.featureName} (depends on ${waitingFeature.dependsOn.join(', ')}, since ${waitingFeature.waitingSince})\n`;
+    }
+    statusText += '\n';
   }
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: statusText,
-      },
-    ],
-  };
+  return { text: statusText, result };
 }
 
 export default featureStatus; 
\ No newline at end of file
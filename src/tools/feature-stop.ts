@@ -0,0 +1,122 @@
+import { cancelAgentLaunch, DEFAULT_STOP_GRACE_PERIOD_MS, stopAgent } from '../utils/agent-process.js';
+import { getFeatureSession, updateFeatureSession } from '../utils/registry.js';
+import { appendLogLine } from '../utils/agent-log.js';
+import { removeQueuedJob } from '../utils/scheduler.js';
+import { removeWaitingFeature } from '../utils/dependencies.js';
+import { stopRetryLoop } from '../utils/retry.js';
+import { resolveProjectRoot } from '../utils/projects.js';
+import { createToolResult, ResultFormat } from '../utils/tool-result.js';
+
+interface FeatureStopArgs {
+  projectRoot?: string;
+  featureName: string;
+  reason?: string;
+  gracePeriodSeconds?: number;
+  format?: ResultFormat;
+}
+
+export interface FeatureStopResult {
+  featureName: string;
+  // What was stopped: a dependency wait, a queued job, a launch, a running agent, a pending retry, or nothing
+  stopped: 'waiting' | 'queued' | 'launching' | 'running' | 'retry' | 'none';
+  reason: string;
+  pid?: number;
+  signal?: 'SIGTERM' | 'SIGKILL';
+}
+
+export async function featureStop(args: FeatureStopArgs) {
+  const {
+    featureName,
+    reason = 'Stopped by feature_stop',
+    gracePeriodSeconds = DEFAULT_STOP_GRACE_PERIOD_MS / 1000,
+    format,
+  } = args;
+
+  const projectRoot = resolveProjectRoot(args.projectRoot);
+
+  if (!featureName) {
+    throw new Error('featureName is required');
+  }
+
+  if (gracePeriodSeconds < 0) {
+    throw new Error('gracePeriodSeconds must not be negative');
+  }
+
+  // Features held back by feature_start_batch have no worktree or session yet
+  if (removeWaitingFeature(projectRoot, featureName)) {
+    appendLogLine(projectRoot, featureName, 'agent', `No longer waiting on dependencies: ${reason}`);
+
+    return createToolResult(
+      `🛑 '${featureName}' will no longer start when its dependencies finish.\n\n📝 **Reason:** ${reason}`,
+      { featureName, stopped: 'waiting', reason } satisfies FeatureStopResult,
+      format
+    );
+  }
+
+  const session = getFeatureSession(projectRoot, featureName);
+  if (!session) {
+    throw new Error(`Feature '${featureName}' has no recorded session. Only agents started by feature_start or feature_revision can be stopped.`);
+  }
+
+  // No more attempts after this one, whatever is stopped below
+  const retryStopped = stopRetryLoop(projectRoot, featureName, reason);
+
+  // A queued job has no process yet - just take it out of the queue
+  if (removeQueuedJob(projectRoot, featureName)) {
+    updateFeatureSession(projectRoot, featureName, {
+      stoppedAt: new Date().toISOString(),
+      stopReason: reason,
+    });
+    appendLogLine(projectRoot, featureName, 'agent', `Removed from queue: ${reason}`);
+
+    return createToolResult(
+      `🛑 Removed '${featureName}' from the agent queue before it started.\n\n📝 **Reason:** ${reason}`,
+      { featureName, stopped: 'queued', reason } satisfies FeatureStopResult,
+      format
+    );
+  }
+
+  // Nor does one still installing dependencies or running its preAgentLaunch hook
+  if (cancelAgentLaunch(projectRoot, featureName, reason)) {
+    return createToolResult(
+      `🛑 Cancelled the launch of '${featureName}' before its agent started.\n\n📝 **Reason:** ${reason}`,
+      { featureName, stopped: 'launching', reason } satisfies FeatureStopResult,
+      format
+    );
+  }
+
+  const result = await stopAgent(projectRoot, featureName, reason, gracePeriodSeconds * 1000);
+
+  if (!result.stopped && retryStopped) {
+    appendLogLine(projectRoot, featureName, 'retry', `Cancelled the pending retry: ${reason}`);
+
+    return createToolResult(
+      `🛑 Cancelled the pending retry for '${featureName}' - no more attempts will be made.\n\n📝 **Reason:** ${reason}`,
+      { featureName, stopped: 'retry', reason } satisfies FeatureStopResult,
+      format
+    );
+  }
+
+  if (!result.stopped) {
+    return createToolResult(
+      `💤 ${result.message}${session.stoppedAt ? ` (last stopped ${session.stoppedAt}${session.stopReason ? ` - ${session.stopReason}` : ''})` : ''}`,
+      { featureName, stopped: 'none', reason } satisfies FeatureStopResult,
+      format
+    );
+  }
+
+  return createToolResult(`🛑 Agent stopped!
+
+📁 **Feature:** ${featureName}
+🔢 **PID:** ${result.pid}
+📶 **Signal:** ${result.signal}${result.signal === 'SIGKILL' ? ` (did not exit within ${gracePeriodSeconds}s of SIGTERM)` : ''}
+📝 **Reason:** ${reason}
+
+The worktree and branch are untouched. Use \`feature_revision\` to resume work or \`feature_cleanup\` to remove the feature.`, {
+    featureName,
+    stopped: 'running',
+    reason,
+    pid: result.pid,
+    signal: result.signal,
+  } satisfies FeatureStopResult, format);
+}
@@ -0,0 +1,443 @@
+import simpleGit from 'simple-git';
+import { execa, ExecaChildProcess } from 'execa';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FeatureSession, getWorktreesPath, resolveFeatureSession, saveFeatureSession, updateFeatureSession } from '../utils/registry.js';
+import { AgentLaunch, buildAgentLaunch, formatAgentCommand, launchAgent } from '../utils/agent-runner.js';
+import { runHook } from '../utils/hooks.js';
+import { readFeatureSpec } from '../utils/feature-spec.js';
+import { findRunningAgent, markAgentLaunching, throwIfLaunchCancelled } from '../utils/agent-process.js';
+import { getQueuePosition, scheduleAgentJob } from '../utils/scheduler.js';
+import { resolveProjectRoot } from '../utils/projects.js';
+import { createToolResult, ResultFormat } from '../utils/tool-result.js';
+
+interface FeatureSyncArgs {
+  projectRoot?: string;
+  featureName: string;
+  agentProfile?: string;
+  format?: ResultFormat;
+}
+
+export interface FeatureSyncResult {
+  featureName: string;
+  branch: string;
+  baseBranch: string;
+  status: 'up-to-date' | 'synced' | 'conflicts';
+  resumed: boolean;
+  newCommits?: number;
+  aheadCount?: number;
+  // Files that conflicted (before the agent ran, or still conflicting when status is 'conflicts')
+  conflictedFiles: string[];
+  agentResolvedConflicts: boolean;
+  conflictsReport?: string;
+}
+
+// How long to wait for Claude Code to resolve conflicts before giving up
+const CONFLICT_RESOLUTION_TIMEOUT_MS = 30 * 60 * 1000;
+
+// How often a sync waiting for an agent slot checks whether it got one
+const QUEUE_CHECK_INTERVAL_MS = 1000;
+
+const LEGACY_CONFLICTS_FILE = 'CONFLICTS.md';
+
+/**
+ * Where an unfinished sync explains its conflicts - outside the worktree, so
+ * it's never mistaken for the feature's own changes.
+ */
+export function getConflictsReportPath(projectRoot: string, featureName: string): string {
+  return path.join(getWorktreesPath(projectRoot), '.conflicts', `${featureName}.md`);
+}
+
+export function removeConflictsReport(projectRoot: string, featureName: string): void {
+  const reportPath = getConflictsReportPath(projectRoot, featureName);
+  fs.rmSync(reportPath, { force: true });
+
+  const reportsPath = path.dirname(reportPath);
+  if (fs.existsSync(reportsPath) && fs.readdirSync(reportsPath).length === 0) {
+    fs.rmdirSync(reportsPath);
+  }
+}
+
+export async function featureSync(args: FeatureSyncArgs) {
+  const { featureName, agentProfile, format } = args;
+
+  const projectRoot = resolveProjectRoot(args.projectRoot);
+
+  if (!featureName) {
+    throw new Error('featureName is required');
+  }
+
+  const session = resolveFeatureSession(projectRoot, featureName);
+  const { worktreePath, branchName, baseBranch } = session;
+  const conflictsPath = getConflictsReportPath(projectRoot, featureName);
+
+  // Validate worktree exists
+  if (!fs.existsSync(worktreePath)) {
+    throw new Error(`Feature '${featureName}' not found. Use feature_start to create it first.`);
+  }
+
+  // Don't rebase underneath a running agent
+  const runningAgent = await findRunningAgent(projectRoot, featureName);
+  if (runningAgent) {
+    throw new Error(`Claude is still running on feature '${featureName}' (PID ${runningAgent.pid}). Wait for completion or use feature_stop before syncing.`);
+  }
+
+  const worktreeGit = simpleGit(worktreePath);
+  let syncLog = `🔄 Syncing feature '${featureName}' to ${baseBranch}...\n`;
+
+  // A previous sync may have stopped mid-rebase; pick up where it left off
+  let rebaseInProgress = await isRebaseInProgress(worktreePath);
+  const result: FeatureSyncResult = {
+    featureName,
+    branch: branchName,
+    baseBranch,
+    status: 'synced',
+    resumed: rebaseInProgress,
+    conflictedFiles: [],
+    agentResolvedConflicts: false,
+  };
+
+  // Sync against the remote base branch when there is one, the local branch otherwise
+  const remotes = await worktreeGit.getRemotes();
+  const hasOrigin = remotes.some(remote => remote.name === 'origin');
+  const upstream = hasOrigin ? `origin/${baseBranch}` : baseBranch;
+
+  // The last sync's report is out of date either way
+  removeConflictsReport(projectRoot, featureName);
+  // Earlier versions wrote it into the worktree, where it counts as an uncommitted change
+  fs.rmSync(path.join(worktreePath, LEGACY_CONFLICTS_FILE), { force: true });
+
+  if (rebaseInProgress) {
+    syncLog += `⏯️  Resuming rebase left by a previous sync\n`;
+  } else {
+    const status = await worktreeGit.status();
+    if (status.files.length > 0) {
+      throw new Error(`Feature '${featureName}' has ${status.files.length} uncommitted change(s). Commit or stash them before syncing.`);
+    }
+
+    // Fetch latest base branch
+    if (hasOrigin) {
+      await worktreeGit.fetch('origin', baseBranch);
+    }
+
+    const newCommits = await countCommits(worktreePath, `HEAD..${upstream}`);
+    result.newCommits = newCommits;
+    syncLog += `📥 Fetching latest ${baseBranch} (${newCommits} new commit${newCommits === 1 ? '' : 's'})\n`;
+
+    if (newCommits === 0) {
+      syncLog += `✅ Feature is already up to date with ${baseBranch}\n`;
+      result.status = 'up-to-date';
+      return createToolResult(syncLog, result, format);
+    }
+
+    syncLog += `🔀 Rebasing ${featureName} onto ${baseBranch}...\n`;
+    try {
+      await worktreeGit.raw(['rebase', upstream]);
+    } catch (error) {
+      rebaseInProgress = await isRebaseInProgress(worktreePath);
+      if (!rebaseInProgress) {
+        // Rebase failed before it started (e.g. invalid upstream) - nothing to recover
+        throw error;
+      }
+    }
+  }
+
+  if (rebaseInProgress) {
+    // Try to finish without an agent first (e.g. conflicts already resolved by hand)
+    await continueRebase(worktreePath);
+
+    if (await isRebaseInProgress(worktreePath)) {
+      const conflictedFiles = await getConflictedFiles(worktreePath);
+      result.conflictedFiles = conflictedFiles;
+      syncLog += `⚠️  ${conflictedFiles.length} conflict${conflictedFiles.length === 1 ? '' : 's'} detected in ${conflictedFiles.join(', ')}\n`;
+      syncLog += `🤖 Launching agent for conflict resolution...\n`;
+
+      // Use the agent settings from the feature's spec, when we know where it is
+      const specAgent = session.registered && fs.existsSync(session.featureFile)
+        ? readFeatureSpec(session.featureFile).config.agent
+        : undefined;
+
+      const conflictBrief = await buildConflictBrief(worktreePath, branchName, baseBranch, upstream, conflictedFiles);
+
+      let agentError = '';
+      try {
+        // The conflict brief needs an answer before the sync can finish, so the agent must run headless
+        const agentLaunch = buildAgentLaunch(projectRoot, featureName, worktreePath, conflictBrief, {
+          ...specAgent,
+          profile: agentProfile || specAgent?.profile,
+        });
+        if (agentLaunch.mode === 'interactive') {
+          throw new Error(`feature_sync can't resolve conflicts with the interactive '${agentLaunch.profile}' profile`);
+        }
+        await runConflictResolver(projectRoot, session, agentLaunch, position => {
+          syncLog += `⏳ Waiting for a free agent slot (position ${position})...\n`;
+        });
+      } catch (error) {
+        agentError = error instanceof Error ? error.message : String(error);
+      }
+
+      // The agent may have resolved files without running `git rebase --continue`
+      if (await isRebaseInProgress(worktreePath)) {
+        await continueRebase(worktreePath);
+      }
+
+      if (await isRebaseInProgress(worktreePath)) {
+        const remainingConflicts = await getConflictedFiles(worktreePath);
+        fs.mkdirSync(path.dirname(conflictsPath), { recursive: true });
+        fs.writeFileSync(conflictsPath, buildConflictsReport(featureName, branchName, baseBranch, remainingConflicts, agentError));
+        result.status = 'conflicts';
+        result.conflictedFiles = remainingConflicts;
+        result.conflictsReport = conflictsPath;
+
+        syncLog += `🤖 Claude Code could not complete conflict resolution\n`;
+        syncLog += `📋 Conflict details saved to ${conflictsPath}\n\n`;
+        syncLog += `The rebase has been left in progress in ${worktreePath}.\n`;
+        syncLog += `Next steps: Review conflicts manually, then run feature_sync again (or \`git rebase --abort\` to undo)`;
+
+        return createToolResult(syncLog, result, format);
+      }
+
+      result.agentResolvedConflicts = true;
+      syncLog += `✅ Claude Code resolved conflicts (${baseBranch}-first strategy)\n`;
+    }
+  }
+
+  const aheadCount = await countCommits(worktreePath, `${upstream}..HEAD`);
+  result.aheadCount = aheadCount;
+  syncLog += `✅ Feature synced successfully!\n\n`;
+  syncLog += `Your branch is now ${aheadCount} commit${aheadCount === 1 ? '' : 's'} ahead of ${baseBranch}.\n\n`;
+  syncLog += `💡 **Tip:** The branch history was rewritten. Push with \`git push --force-with-lease origin ${branchName}\` if it was already pushed.`;
+
+  return createToolResult(syncLog, result, format);
+}
+
+/**
+ * Run the conflict resolver as the feature's agent - through the scheduler, so it
+ * counts against the concurrency limit, and recorded in the session, so
+ * feature_status and feature_stop see it - and wait for it to exit.
+ */
+async function runConflictResolver(
+  projectRoot: string,
+  session: FeatureSession & { registered: boolean },
+  agentLaunch: AgentLaunch,
+  onQueued: (position: number) => void
+): Promise<void> {
+  const { registered, ...featureSession } = session;
+  const { featureName, worktreePath, branchName, baseBranch, featureFile } = featureSession;
+  if (!registered) {
+    // Worktrees made outside feature_start get a session, or nothing could stop their resolver
+    saveFeatureSession(projectRoot, { ...featureSession, createdAt: new Date().toISOString() });
+  }
+
+  let resolver: ExecaChildProcess | undefined;
+  const launch = async () => {
+    const signal = markAgentLaunching(projectRoot, featureName, 'starting');
+    try {
+      await runHook(projectRoot, 'preAgentLaunch', { featureName, worktreePath, branchName, baseBranch, featureFile: featureFile || undefined }, signal);
+    } catch (error) {
+      updateFeatureSession(projectRoot, featureName, { launching: undefined });
+      throwIfLaunchCancelled(signal);
+      throw error;
+    }
+    throwIfLaunchCancelled(signal);
+    resolver = launchAgent(projectRoot, featureName, worktreePath, agentLaunch, { timeout: CONFLICT_RESOLUTION_TIMEOUT_MS, run: 'sync' });
+
+    updateFeatureSession(projectRoot, featureName, {
+      pid: resolver.pid,
+      command: formatAgentCommand(agentLaunch),
+      agentProfile: agentLaunch.profile,
+      mode: 'background',
+      startedAt: new Date().toISOString(),
+      stoppedAt: undefined,
+      stopReason: undefined,
+      launching: undefined,
+      exit: undefined,
+    });
+    return { child: resolver };
+  };
+
+  let launched: Promise<unknown> | undefined;
+  const scheduled = await scheduleAgentJob({
+    projectRoot,
+    featureName,
+    kind: 'sync',
+    queuedAt: new Date().toISOString(),
+    run: () => (launched = launch()),
+  });
+  if (!scheduled.started) {
+    onQueued(scheduled.position);
+    // feature_stop and feature_cleanup drop queued jobs, which cancels the resolver
+    while (!launched && getQueuePosition(projectRoot, featureName) !== undefined) {
+      await new Promise(resolve => setTimeout(resolve, QUEUE_CHECK_INTERVAL_MS));
+    }
+    if (!launched) {
+      throw new Error('The queued conflict resolver was cancelled');
+    }
+    await launched;
+  }
+  await resolver;
+}
+
+async function isRebaseInProgress(worktreePath: string): Promise<boolean> {
+  for (const marker of ['rebase-merge', 'rebase-apply']) {
+    const { stdout } = await execa('git', ['rev-parse', '--git-path', marker], {
+      stdio: 'pipe',
+      cwd: worktreePath
+    });
+    if (fs.existsSync(path.resolve(worktreePath, stdout.trim()))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function getConflictedFiles(worktreePath: string): Promise<string[]> {
+  const { stdout } = await execa('git', ['diff', '--name-only', '--diff-filter=U'], {
+    stdio: 'pipe',
+    cwd: worktreePath
+  });
+  return stdout.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+async function countCommits(worktreePath: string, range: string): Promise<number> {
+  const { stdout } = await execa('git', ['rev-list', '--count', range], {
+    stdio: 'pipe',
+    cwd: worktreePath
+  });
+  return parseInt(stdout.trim(), 10) || 0;
+}
+
+/**
+ * Continue the rebase for as long as it can progress without conflicts.
+ * Leaves the rebase in progress when unresolved conflicts remain; any other
+ * failure (a commit hook, a dirty index) aborts the rebase and throws.
+ */
+async function continueRebase(worktreePath: string): Promise<void> {
+  while (await isRebaseInProgress(worktreePath)) {
+    const conflictedFiles = await getConflictedFiles(worktreePath);
+    if (conflictedFiles.length > 0) {
+      return;
+    }
+    try {
+      await execa('git', ['-c', 'core.editor=true', 'rebase', '--continue'], {
+        stdio: 'pipe',
+        cwd: worktreePath
+      });
+    } catch (error) {
+      // The next commit conflicted - left for the agent
+      if ((await getConflictedFiles(worktreePath)).length > 0) {
+        return;
+      }
+      // Only a step with nothing staged is safe to skip; anything else would drop a commit
+      if (!(await hasStagedChanges(worktreePath))) {
+        const skip = await execa('git', ['rebase', '--skip'], { stdio: 'pipe', cwd: worktreePath, reject: false });
+        if (!skip.failed || (await getConflictedFiles(worktreePath)).length > 0) {
+          continue;
+        }
+        error = skip;
+      }
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      await execa('git', ['rebase', '--abort'], { stdio: 'pipe', cwd: worktreePath, reject: false });
+      throw new Error(`git rebase --continue failed, so the rebase was aborted and the branch is unchanged: ${stderr || (error instanceof Error ? error.message : 'Unknown error')}`);
+    }
+  }
+}
+
+async function hasStagedChanges(worktreePath: string): Promise<boolean> {
+  const { exitCode } = await execa('git', ['diff', '--cached', '--quiet'], { stdio: 'pipe', cwd: worktreePath, reject: false });
+  return exitCode !== 0;
+}
+
+async function buildConflictBrief(
+  worktreePath: string,
+  branchName: string,
+  baseBranch: string,
+  upstream: string,
+  conflictedFiles: string[]
+): Promise<string> {
+  let currentCommit = '';
+  try {
+    const { stdout } = await execa('git', ['log', '-1', '--format=%h %s', 'REBASE_HEAD'], {
+      stdio: 'pipe',
+      cwd: worktreePath
+    });
+    currentCommit = stdout.trim();
+  } catch {
+    currentCommit = 'Unknown';
+  }
+
+  let baseChanges = '';
+  try {
+    const { stdout } = await execa('git', ['log', '--oneline', '-20', `ORIG_HEAD..${upstream}`, '--', ...conflictedFiles], {
+      stdio: 'pipe',
+      cwd: worktreePath
+    });
+    baseChanges = stdout.trim() || 'No recent commits touching these files';
+  } catch {
+    baseChanges = 'Unable to list recent commits';
+  }
+
+  return `I need you to resolve git rebase conflicts in this feature worktree.
+
+This is an isolated development environment:
+- You're in a git worktree: ${worktreePath}
+- Feature branch: ${branchName}
+- Being rebased onto: ${upstream}
+
+A rebase of ${branchName} onto the latest ${baseBranch} is in progress and has stopped on conflicts.
+
+### Commit being replayed
+${currentCommit}
+
+### Conflicted files
+${conflictedFiles.map(file => `- ${file}`).join('\n')}
+
+### Recent ${baseBranch} commits touching these files
+${baseChanges}
+
+Your task:
+1. **Inspect each conflicted file** - understand what ${baseBranch} changed and what the feature changed
+2. **Resolve conflicts prioritizing ${baseBranch}** - when intent is ambiguous, ${baseBranch} wins; re-apply the feature's changes on top of it
+3. **Stage resolved files** with \`git add <file>\`
+4. **Continue the rebase** with \`git -c core.editor=true rebase --continue\`
+5. **Repeat** for any further commits that conflict until the rebase completes
+
+Important guidelines:
+- Do NOT run \`git rebase --abort\`, \`git reset\` or \`git push\`
+- Do NOT leave conflict markers (<<<<<<<, =======, >>>>>>>) in any file
+- Keep the feature's behaviour intact unless it contradicts ${baseBranch}
+- If a conflict cannot be resolved safely, stop and leave it unresolved
+
+Work carefully. Regressions on ${baseBranch} are worse than an unfinished sync.`;
+}
+
+function buildConflictsReport(
+  featureName: string,
+  branchName: string,
+  baseBranch: string,
+  conflictedFiles: string[],
+  agentError: string
+): string {
+  return `# Unresolved Sync Conflicts
+
+Feature **${featureName}** (\`${branchName}\`) could not be rebased onto \`${baseBranch}\` automatically.
+The rebase is still in progress in its worktree.
+
+## Conflicted Files
+${conflictedFiles.length > 0 ? conflictedFiles.map(file => `- \`${file}\``).join('\n') : '- None reported (the rebase may have stopped for another reason - check `git status`)'}
+${agentError ? `\n## Claude Code Error\n\`\`\`\n${agentError}\n\`\`\`\n` : ''}
+Claude Code's output is available through \`feature_logs\`.
+
+## How to Recover
+
+1. Resolve the conflicts in the files above (main wins on ambiguity)
+2. Stage them: \`git add <file>\`
+3. Run \`feature_sync\` again - it will continue the rebase
+
+To give up on this sync and restore the branch instead:
+
+\`\`\`bash
+git rebase --abort
+\`\`\`
+`;
+}
@@ -0,0 +1,78 @@
+import { getFeatureSession, listFeatureSessions } from '../utils/registry.js';
+import { loadProjectConfig } from '../utils/project-config.js';
+import { resolveProjectRoot } from '../utils/projects.js';
+import { createToolResult, ResultFormat } from '../utils/tool-result.js';
+import { FeatureUsage, formatBudget, formatUsage, getBudgetOverrun, getFeatureBudget, getProjectUsage, TokenUsage, UsageBudget } from '../utils/usage.js';
+
+interface FeatureUsageArgs {
+  projectRoot?: string;
+  // One feature with each of its runs, instead of every feature's totals
+  featureName?: string;
+  format?: ResultFormat;
+}
+
+export interface FeatureUsageEntry extends FeatureUsage {
+  featureName: string;
+  budget: UsageBudget;
+  // Why the feature can't spend any more
+  overBudget?: string;
+}
+
+export interface FeatureUsageResult {
+  // The project's ledger, cleaned up features included, whichever were asked for
+  total: TokenUsage;
+  budget: UsageBudget;
+  features: FeatureUsageEntry[];
+}
+
+export async function featureUsage(args: FeatureUsageArgs) {
+  const { featureName, format } = args;
+
+  const projectRoot = resolveProjectRoot(args.projectRoot);
+
+  if (featureName && !getFeatureSession(projectRoot, featureName)) {
+    throw new Error(`Feature '${featureName}' has no recorded session. Only features started by feature_start are metered.`);
+  }
+
+  const result: FeatureUsageResult = {
+    total: getProjectUsage(projectRoot),
+    budget: loadProjectConfig(projectRoot).budget.total,
+    features: listFeatureSessions(projectRoot)
+      .filter(session => !featureName || session.featureName === featureName)
+      .map(session => ({
+        featureName: session.featureName,
+        total: session.usage?.total || { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, costUsd: 0 },
+        runs: session.usage?.runs || [],
+        budget: getFeatureBudget(projectRoot, session.featureName),
+        overBudget: getBudgetOverrun(projectRoot, session.featureName),
+      })),
+  };
+
+  const withBudget = (text: string, budget: UsageBudget) => {
+    const limits = formatBudget(budget);
+    return limits ? `${text} (budget ${limits})` : text;
+  };
+
+  let text = `💰 **Agent Usage**\n\n📊 **Project:** ${withBudget(formatUsage(result.total), result.budget)}\n`;
+  if (result.features.length === 0) {
+    text += '\n📂 No features found\n';
+  }
+  for (const entry of result.features) {
+    text += `\n${entry.overBudget ? '⛔' : '•'} **${entry.featureName}:** `;
+    text += entry.runs.length > 0
+      ? withBudget(`${formatUsage(entry.total)} over ${entry.runs.length} run(s)`, entry.budget)
+      : 'No metered runs';
+    text += entry.overBudget ? `\n   ${entry.overBudget}\n` : '\n';
+
+    // Run by run for a single feature
+    if (featureName) {
+      entry.runs.forEach((run, index) => {
+        const notes = [run.endedAt ? undefined : 'running', run.endedAt && !run.reported ? 'estimated cost' : undefined].filter(Boolean);
+        text += `   ${index + 1}. ${run.kind || 'agent'} at ${run.startedAt}: ${formatUsage(run)}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}\n`;
+      });
+    }
+  }
+
+  text += `\nCounted from Claude Code's stream-json output, with costs estimated from model prices until a run reports its own; interactive sessions and agents without usage events aren't metered.`;
+  return createToolResult(text, result, format);
+}
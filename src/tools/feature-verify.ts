@@ -0,0 +1,74 @@
+import { findRunningAgent } from '../utils/agent-process.js';
+import { getForge } from '../utils/forge.js';
+import { loadProjectConfig } from '../utils/project-config.js';
+import { resolveProjectRoot } from '../utils/projects.js';
+import { ToolCallContext } from '../utils/tool-calls.js';
+import { createToolResult, ResultFormat } from '../utils/tool-result.js';
+import { formatVerifyReport, VERIFY_GATES, VerifyGate, verifyFeature, VerifyReport } from '../utils/verify.js';
+
+interface FeatureVerifyArgs {
+  projectRoot?: string;
+  featureName: string;
+  // Run only these gates (a partial run never opens a PR)
+  gates?: VerifyGate[];
+  format?: ResultFormat;
+}
+
+export interface FeatureVerifyResult extends VerifyReport {
+  featureName: string;
+}
+
+// Failing gates' output shown inline; the result JSON and feature_logs have more
+const FAILURE_OUTPUT_LINES = 15;
+
+export async function featureVerify(args: FeatureVerifyArgs, context: ToolCallContext = {}) {
+  const { featureName, gates, format } = args;
+
+  const projectRoot = resolveProjectRoot(args.projectRoot);
+
+  if (!featureName) {
+    throw new Error('featureName is required');
+  }
+  const unknownGates = (gates || []).filter(gate => !VERIFY_GATES.includes(gate));
+  if (unknownGates.length > 0) {
+    throw new Error(`Unknown gate(s) ${unknownGates.join(', ')} (expected: ${VERIFY_GATES.join(', ')})`);
+  }
+
+  // The agent may be halfway through a change
+  const runningAgent = await findRunningAgent(projectRoot, featureName);
+  if (runningAgent) {
+    throw new Error(`The agent for '${featureName}' is still running (PID ${runningAgent.pid}). Wait for it to finish or stop it with feature_stop.`);
+  }
+
+  const report = await verifyFeature(projectRoot, featureName, {
+    trigger: 'feature_verify',
+    only: gates && gates.length > 0 ? gates : undefined,
+    signal: context.signal,
+  });
+  const result: FeatureVerifyResult = { featureName, ...report };
+
+  const failures = report.gates
+    .filter(gate => !gate.passed && gate.output)
+    .map(gate => `**${gate.gate}** (\`${gate.command}\`):\n\`\`\`\n${gate.output.split('\n').slice(-FAILURE_OUTPUT_LINES).join('\n')}\n\`\`\`\n`)
+    .join('\n');
+
+  let pullRequestText = '';
+  if (report.pullRequest) {
+    pullRequestText = report.pullRequest.created
+      ? `🔗 **Opened:** ${report.pullRequest.url}\n`
+      : `🔗 **Already open:** ${report.pullRequest.url}\n`;
+  } else if (report.pullRequestError) {
+    pullRequestText = `⚠️ **Could not open the pull request:** ${report.pullRequestError}\n`;
+  } else if (!report.passed && loadProjectConfig(projectRoot).verify.requiredForPullRequest) {
+    const forge = await getForge(projectRoot);
+    if (forge.name !== 'local') {
+      pullRequestText = `🔒 **${forge.requestLabel}:** Not opened until every gate passes - fix the failures and run \`feature_verify\` again\n`;
+    }
+  }
+
+  return createToolResult(`${report.passed ? '✅ Verification passed' : '❌ Verification failed'}: ${featureName}
+
+🧪 **Gates:** ${formatVerifyReport(report)}
+${failures ? `\n${failures}` : ''}${pullRequestText}
+Results are saved and shown by \`feature_status\`; the full output is in \`feature_logs\` as \`[verify]\` lines.`, result, format);
+}
@@ -0,0 +1,49 @@
+import simpleGit from 'simple-git';
+import * as fs from 'fs';
+import * as path from 'path';
+import { addProject, RegisteredProject } from '../utils/projects.js';
+import { createToolResult, ResultFormat } from '../utils/tool-result.js';
+
+interface ProjectAddArgs {
+  projectRoot: string;
+  name?: string;
+  format?: ResultFormat;
+}
+
+export interface ProjectAddResult {
+  project: RegisteredProject;
+}
+
+export async function projectAdd(args: ProjectAddArgs) {
+  const { projectRoot, format } = args;
+
+  if (!projectRoot) {
+    throw new Error('projectRoot is required');
+  }
+  if (!path.isAbsolute(projectRoot)) {
+    throw new Error(`projectRoot must be an absolute path (got '${projectRoot}')`);
+  }
+  if (!fs.existsSync(projectRoot)) {
+    throw new Error(`Project root '${projectRoot}' does not exist`);
+  }
+
+  // Register the repository's top level, so a subdirectory and the root don't end up as two projects
+  const git = simpleGit(projectRoot);
+  if (!await git.checkIsRepo()) {
+    throw new Error(`'${projectRoot}' is not inside a git repository`);
+  }
+  const repositoryRoot = (await git.revparse(['--show-toplevel'])).trim();
+  const name = args.name || path.basename(repositoryRoot);
+
+  const project = addProject(name, repositoryRoot);
+  const result: ProjectAddResult = { project };
+
+  return createToolResult(`✅ Project registered!
+
+🗂️ **Name:** ${project.name}
+📍 **Location:** ${project.projectRoot}
+
+Pass \`"projectRoot": "${project.name}"\` to any tool to work on it, or use \`feature_status\` with \`allProjects\` to see every project.`, result, format);
+}
+
+export default projectAdd;
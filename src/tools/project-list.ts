@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { listFeatureNames } from '../utils/registry.js';
+import { getProjectsPath, listKnownProjects } from '../utils/projects.js';
+import { createToolResult, ResultFormat } from '../utils/tool-result.js';
+
+interface ProjectListArgs {
+  format?: ResultFormat;
+}
+
+export interface ProjectListEntry {
+  name: string;
+  projectRoot: string;
+  // The PROJECT_ROOT project, used when a tool gets no projectRoot
+  isDefault: boolean;
+  exists: boolean;
+  features?: number;
+  error?: string;
+}
+
+export interface ProjectListResult {
+  projectsFile: string;
+  projects: ProjectListEntry[];
+}
+
+export async function projectList(args: ProjectListArgs = {}) {
+  const { format } = args;
+
+  const result: ProjectListResult = { projectsFile: getProjectsPath(), projects: [] };
+  const projects = listKnownProjects();
+  if (projects.length === 0) {
+    return createToolResult('🗂️ No projects registered - use `project_add` to register one, or set PROJECT_ROOT', result, format);
+  }
+
+  let listText = '🗂️ **Projects**\n\n';
+  for (const { name, projectRoot } of projects) {
+    const entry: ProjectListEntry = {
+      name,
+      projectRoot,
+      isDefault: !!process.env.PROJECT_ROOT && projectRoot === path.resolve(process.env.PROJECT_ROOT),
+      exists: fs.existsSync(projectRoot),
+    };
+    result.projects.push(entry);
+
+    listText += `**${name}**${entry.isDefault ? ' (default)' : ''}\n   📍 ${projectRoot}\n`;
+    if (!entry.exists) {
+      listText += `   ❌ Directory not found\n`;
+    } else {
+      try {
+        entry.features = listFeatureNames(projectRoot).length;
+        listText += `   📁 ${entry.features} feature(s)\n`;
+      } catch (error: unknown) {
+        entry.error = error instanceof Error ? error.message : 'Unknown error';
+        listText += `   ❌ ${entry.error}\n`;
+      }
+    }
+    listText += '\n';
+  }
+
+  listText += `Registered projects are stored in ${result.projectsFile}.`;
+  return createToolResult(listText, result, format);
+}
+
+export default projectList;
@@ -2,10 +2,17 @@ import { execa } from 'execa';
 import simpleGit from 'simple-git';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createForge, Forge, FORGE_NAMES, ForgeName, getForge } from '../utils/forge.js';
+import { getIgnoredSettings, getProjectConfigPath, loadProjectConfig, PROJECT_CONFIG_FILE, ProjectConfig } from '../utils/project-config.js';
+import { detectInstallSteps } from '../utils/install.js';
+import { resolveProjectRoot } from '../utils/projects.js';
+import { createToolResult, ResultFormat } from '../utils/tool-result.js';
 
 interface VerifySetupArgs {
+  projectRoot?: string;
   claudeCommand?: string;
   verbose?: boolean;
+  format?: ResultFormat;
 }
 
 interface CheckResult {
@@ -14,16 +21,23 @@ interface CheckResult {
   details?: string;
 }
 
+export interface VerifySetupResult {
+  status: 'pass' | 'fail';
+  forge: ForgeName;
+  // Null when the config file is invalid
+  projectConfig: { path: string | null; settings: ProjectConfig } | null;
+  passed: number;
+  warnings: number;
+  failed: number;
+  checks: Array<{ name: string } & CheckResult>;
+}
+
 export async function verifySetup(args: VerifySetupArgs = {}) {
-  const { claudeCommand = process.env.CLAUDE_COMMAND || 'claude', verbose = false } = args;
+  const { claudeCommand = process.env.CLAUDE_COMMAND || 'claude', verbose = false, format } = args;
   
   const checks: Array<{ name: string; result: CheckResult }> = [];
 
-  // Get working directory - require PROJECT_ROOT env var for Cursor MCP
-  const projectRoot = process.env.PROJECT_ROOT;
-  if (!projectRoot) {
-    throw new Error('PROJECT_ROOT environment variable not set. This is required for Cursor MCP. Add "env": {"PROJECT_ROOT": "/path/to/your/project"} to your MCP configuration.');
-  }
+  const projectRoot = resolveProjectRoot(args.projectRoot);
   
   const cwd = projectRoot;
   
@@ -106,46 +120,101 @@ export async function verifySetup(args: VerifySetupArgs = {}) {
     });
   }
 
-  // Check 3: GitHub CLI installation (ESSENTIAL)
+  // Project configuration - reported below, and a failure if it's invalid (ESSENTIAL)
+  const configPath = getProjectConfigPath(projectRoot);
+  let projectConfig: ProjectConfig | undefined;
   try {
-    const { stdout } = await execa('gh', ['--version'], { stdio: 'pipe' });
-    checks.push({
-      name: 'GitHub CLI',
-      result: {
-        status: 'pass',
-        message: 'GitHub CLI available',
-        details: verbose ? stdout.split('\n')[0] : undefined
-      }
-    });
+    projectConfig = loadProjectConfig(projectRoot);
+    for (const message of getIgnoredSettings(projectRoot)) {
+      checks.push({
+        name: 'Ignored Setting',
+        result: {
+          status: 'warn',
+          message,
+          details: `Remove it from ${configPath}`
+        }
+      });
+    }
   } catch (error) {
     checks.push({
-      name: 'GitHub CLI',
+      name: 'Project Config',
       result: {
         status: 'fail',
-        message: 'GitHub CLI (gh) not found',
-        details: 'Install: brew install gh'
+        message: error instanceof Error ? error.message : 'Invalid project config',
+        details: `Fix or remove ${configPath}`
       }
     });
   }
 
-  // Check 4: GitHub CLI authentication (INFORMATIONAL)
+  // Check 3: Forge CLI installation (ESSENTIAL unless running in local mode)
+  const forgeSetting = process.env.FORGE || projectConfig?.forge;
+  let forge: Forge;
   try {
-    const { stdout } = await execa('gh', ['auth', 'status'], { stdio: 'pipe' });
+    // An empty name skips the config lookup (already reported above) and detects the forge
+    forge = await getForge(projectRoot, forgeSetting || '');
+  } catch (error) {
+    forge = createForge('local');
     checks.push({
-      name: 'GitHub Authentication',
+      name: 'Forge',
       result: {
-        status: 'pass',
-        message: 'GitHub authentication active',
-        details: verbose ? 'Ready for PR operations' : undefined
+        status: 'fail',
+        message: error instanceof Error ? error.message : 'Unknown forge',
+        details: `Set FORGE to one of: ${FORGE_NAMES.join(', ')} (or unset it to auto-detect)`
       }
     });
-  } catch (error) {
+  }
+
+  const forgeCli = forge.cli;
+  if (forgeCli) {
+    try {
+      const { stdout } = await execa(forgeCli.command, ['--version'], { stdio: 'pipe' });
+      checks.push({
+        name: forgeCli.name,
+        result: {
+          status: 'pass',
+          message: `${forgeCli.name} available`,
+          details: verbose ? stdout.split('\n')[0] : undefined
+        }
+      });
+    } catch (error) {
+      checks.push({
+        name: forgeCli.name,
+        result: {
+          status: 'fail',
+          message: `${forgeCli.name} (${forgeCli.command}) not found`,
+          details: `Install: ${forgeCli.install}`
+        }
+      });
+    }
+
+    // Check 4: Forge CLI authentication (INFORMATIONAL)
+    try {
+      await execa(forgeCli.command, forgeCli.authArgs, { stdio: 'pipe' });
+      checks.push({
+        name: `${forge.displayName} Authentication`,
+        result: {
+          status: 'pass',
+          message: `${forge.displayName} authentication active`,
+          details: verbose ? `Ready for ${forge.requestLabel} operations` : undefined
+        }
+      });
+    } catch (error) {
+      checks.push({
+        name: `${forge.displayName} Authentication`,
+        result: {
+          status: 'warn',
+          message: `Not authenticated with ${forge.displayName}`,
+          details: `Run: ${forgeCli.login}`
+        }
+      });
+    }
+  } else if (!checks.some(c => c.name === 'Forge')) {
     checks.push({
-      name: 'GitHub Authentication',
+      name: 'Forge',
       result: {
-        status: 'warn',
-        message: 'Not authenticated with GitHub',
-        details: 'Run: gh auth login'
+        status: 'pass',
+        message: 'Local mode - no forge CLI needed',
+        details: verbose ? 'Features are finished by merging their branches locally' : undefined
       }
     });
   }
@@ -245,18 +314,24 @@ export async function verifySetup(args: VerifySetupArgs = {}) {
   const failed = checks.filter(c => c.result.status === 'fail').length;
 
   const summary = `✅ ${passed} passed  ⚠️ ${warnings} warnings  ❌ ${failed} failed`;
-  const overallStatus = failed > 0 ? 'fail' : 'pass'; // Warnings don't block usage
+  const overallStatus: VerifySetupResult['status'] = failed > 0 ? 'fail' : 'pass'; // Warnings don't block usage
 
   // Format output
   let output = `# Claude Worktree Agent Setup Verification\n\n${summary}\n\n`;
+  output += `🏠 **Forge:** ${forge.displayName}${process.env.FORGE ? ' (from FORGE)' : projectConfig?.forge ? ` (from ${PROJECT_CONFIG_FILE})` : ' (detected from origin remote)'}\n`;
+  if (projectConfig) {
+    output += `⚙️ **Project Config:** ${fs.existsSync(configPath) ? configPath : `defaults (no ${PROJECT_CONFIG_FILE})`}\n`;
+    output += `   Worktrees: ${projectConfig.worktreesDir} | Branches: ${projectConfig.branchPrefix}<feature> from ${projectConfig.baseBranch}\n`;
+    const install = projectConfig.installCommands
+      ? projectConfig.installCommands.join(', ') || 'skipped'
+      : (fs.existsSync(projectRoot) ? detectInstallSteps(projectRoot) : []).map(step => step.directory === '.' ? step.command : `${step.command} (${step.directory})`).join(', ') || 'nothing detected';
+    output += `   Install: ${install} | Local files: ${projectConfig.localFiles.map(entry => entry.mode === 'symlink' ? `${entry.path} (symlink)` : entry.path).join(', ') || 'none'}\n`;
+  }
+  output += '\n';
 
   // Essential checks first
-  const essentialChecks = checks.filter(c => 
-    c.name === 'Git CLI' || 
-    c.name === 'Git Repository' || 
-    c.name === 'Claude Code' || 
-    c.name === 'GitHub CLI'
-  );
+  const essentialNames = ['Git CLI', 'Git Repository', 'Claude Code', 'Project Config', 'Forge', forgeCli?.name];
+  const essentialChecks = checks.filter(c => essentialNames.includes(c.name));
 
   output += '## Essential Requirements\n\n';
   for (const check of essentialChecks) {
@@ -269,12 +344,7 @@ export async function verifySetup(args: VerifySetupArgs = {}) {
   output += '\n';
 
   // Optional checks
-  const optionalChecks = checks.filter(c => 
-    c.name !== 'Git CLI' && 
-    c.name !== 'Git Repository' && 
-    c.name !== 'Claude Code' && 
-    c.name !== 'GitHub CLI'
-  );
+  const optionalChecks = checks.filter(c => !essentialNames.includes(c.name));
 
   if (optionalChecks.length > 0) {
     output += '## Additional Information\n\n';
@@ -315,12 +385,14 @@ export async function verifySetup(args: VerifySetupArgs = {}) {
     output += '❌ **Setup incomplete.** Please address the required actions above.\n';
   }
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: output,
-      },
-    ],
+  const result: VerifySetupResult = {
+    status: overallStatus,
+    forge: forge.name,
+    projectConfig: projectConfig ? { path: fs.existsSync(configPath) ? configPath : null, settings: projectConfig } : null,
+    passed,
+    warnings,
+    failed,
+    checks: checks.map(check => ({ name: check.name, ...check.result })),
   };
+  return createToolResult(output, result, format);
 }
\ No newline at end of file
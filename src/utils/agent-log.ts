@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ChildProcess } from 'child_process';
+import type { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { getWorktreesPath } from './registry.js';
+
+// Rotate once a log passes this size, keeping a few older files around
+const MAX_LOG_BYTES = 5 * 1024 * 1024;
+const MAX_LOG_BACKUPS = 3;
+
+// Each line: "<ISO timestamp> [<stream>] <text>"
+const LOG_LINE_PATTERN = /^(\d{4}-\d{2}-\d{2}T[\d:.]+Z) \[(\w+)\] (.*)$/;
+
+export interface LogLine {
+  timestamp: string;
+  stream: string;
+  text: string;
+}
+
+export function getLogsPath(projectRoot: string): string {
+  return path.join(getWorktreesPath(projectRoot), '.logs');
+}
+
+export function getLogPath(projectRoot: string, featureName: string): string {
+  return path.join(getLogsPath(projectRoot), `${featureName}.log`);
+}
+
+/**
+ * All log files for a feature, oldest first (rotated backups before the live log).
+ */
+export function getLogFiles(projectRoot: string, featureName: string): string[] {
+  const logPath = getLogPath(projectRoot, featureName);
+  const files: string[] = [];
+  for (let i = MAX_LOG_BACKUPS; i >= 1; i--) {
+    if (fs.existsSync(`${logPath}.${i}`)) {
+      files.push(`${logPath}.${i}`);
+    }
+  }
+  if (fs.existsSync(logPath)) {
+    files.push(logPath);
+  }
+  return files;
+}
+
+// Logs stay open between lines, with their size counted rather than checked on disk
+interface LogWriter {
+  fd: number;
+  size: number;
+  lastWriteAt: number;
+}
+
+// Logs nobody has written to for this long are closed
+const LOG_IDLE_CLOSE_MS = 60 * 1000;
+
+const writers = new Map<string, LogWriter>();
+let idleTimer: NodeJS.Timeout | undefined;
+
+function openLogWriter(logPath: string): LogWriter {
+  fs.mkdirSync(path.dirname(logPath), { recursive: true });
+  const fd = fs.openSync(logPath, 'a');
+  const writer = { fd, size: fs.fstatSync(fd).size, lastWriteAt: Date.now() };
+  writers.set(logPath, writer);
+
+  if (!idleTimer) {
+    idleTimer = setInterval(closeIdleLogs, LOG_IDLE_CLOSE_MS);
+    idleTimer.unref();
+  }
+  return writer;
+}
+
+function closeLogWriter(logPath: string): void {
+  const writer = writers.get(logPath);
+  if (writer) {
+    writers.delete(logPath);
+    fs.closeSync(writer.fd);
+  }
+}
+
+function closeIdleLogs(): void {
+  const now = Date.now();
+  for (const [logPath, writer] of writers) {
+    if (now - writer.lastWriteAt >= LOG_IDLE_CLOSE_MS) {
+      closeLogWriter(logPath);
+    }
+  }
+  if (writers.size === 0 && idleTimer) {
+    clearInterval(idleTimer);
+    idleTimer = undefined;
+  }
+}
+
+function rotate(logPath: string): void {
+  closeLogWriter(logPath);
+  for (let i = MAX_LOG_BACKUPS - 1; i >= 1; i--) {
+    if (fs.existsSync(`${logPath}.${i}`)) {
+      fs.renameSync(`${logPath}.${i}`, `${logPath}.${i + 1}`);
+    }
+  }
+  fs.renameSync(logPath, `${logPath}.1`);
+}
+
+export function appendLogLine(projectRoot: string, featureName: string, stream: string, text: string): void {
+  const logPath = getLogPath(projectRoot, featureName);
+  let writer = writers.get(logPath) ?? openLogWriter(logPath);
+  if (writer.size >= MAX_LOG_BYTES) {
+    rotate(logPath);
+    writer = openLogWriter(logPath);
+  }
+
+  const line = Buffer.from(`${new Date().toISOString()} [${stream}] ${text}\n`);
+  fs.writeSync(writer.fd, line);
+  writer.size += line.length;
+  writer.lastWriteAt = Date.now();
+}
+
+/**
+ * Stream an agent's stdout and stderr into the feature's log file.
+ * Reading the pipes also keeps the child from blocking on a full buffer.
+ * Each stdout line is also handed to onStdoutLine (usage metering).
+ */
+export function captureAgentOutput(
+  projectRoot: string,
+  featureName: string,
+  child: ChildProcess,
+  command: string,
+  onStdoutLine?: (line: string) => void
+): void {
+  appendLogLine(projectRoot, featureName, 'agent', `Started${child.pid ? ` (PID ${child.pid})` : ''}: ${command}`);
+
+  // A throw in a stream listener (e.g. the config turned invalid mid-run) would take the server down
+  const guard = (handler: () => void) => {
+    try {
+      handler();
+    } catch (error) {
+      console.error(`Failed to log output of '${featureName}':`, error);
+    }
+  };
+
+  const pipes: Array<[string, Readable | null]> = [['stdout', child.stdout], ['stderr', child.stderr]];
+  for (const [stream, pipe] of pipes) {
+    if (!pipe) {
+      continue;
+    }
+    void readLines(pipe, line => guard(() => {
+      appendLogLine(projectRoot, featureName, stream, line);
+      if (stream === 'stdout') {
+        onStdoutLine?.(line);
+      }
+    }));
+  }
+
+  // 'close' fires after both pipes have drained, so this is always the last line
+  child.on('close', (code, signal) => guard(() => {
+    appendLogLine(projectRoot, featureName, 'agent', signal ? `Exited on signal ${signal}` : `Exited with code ${code}`);
+  }));
+}
+
+/**
+ * Hand each line of a stream to onLine as it arrives, the unterminated last one
+ * included. Resolves once the stream has ended.
+ */
+export function readLines(pipe: Readable, onLine: (line: string) => void): Promise<void> {
+  let pending = '';
+  const decoder = new StringDecoder('utf-8');
+  pipe.on('data', (chunk: Buffer | string) => {
+    const lines = (pending + (typeof chunk === 'string' ? chunk : decoder.write(chunk))).split('\n');
+    pending = lines.pop() ?? '';
+    lines.forEach(onLine);
+  });
+
+  return new Promise(resolve => {
+    const finish = () => {
+      if (pending) {
+        const line = pending;
+        pending = '';
+        onLine(line);
+      }
+      resolve();
+    };
+    pipe.once('end', finish);
+    // A stream destroyed (e.g. the process killed) may never end
+    pipe.once('close', finish);
+  });
+}
+
+export function readLogLines(projectRoot: string, featureName: string): LogLine[] {
+  const lines: LogLine[] = [];
+  for (const file of getLogFiles(projectRoot, featureName)) {
+    parseLogLines(fs.readFileSync(file, 'utf-8'), lines);
+  }
+  return lines;
+}
+
+/**
+ * The lines in the last maxBytes of the live log, without reading the rest of
+ * it or the rotated files.
+ */
+export function readLogTail(projectRoot: string, featureName: string, maxBytes: number): LogLine[] {
+  const logPath = getLogPath(projectRoot, featureName);
+  if (!fs.existsSync(logPath)) {
+    return [];
+  }
+
+  const fd = fs.openSync(logPath, 'r');
+  try {
+    const size = fs.fstatSync(fd).size;
+    const start = Math.max(0, size - maxBytes);
+    const buffer = Buffer.alloc(size - start);
+    fs.readSync(fd, buffer, 0, buffer.length, start);
+    let text = buffer.toString('utf-8');
+    // Starting mid-line, so the first line is partial
+    if (start > 0) {
+      text = text.slice(text.indexOf('\n') + 1);
+    }
+    return parseLogLines(text, []);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function parseLogLines(text: string, lines: LogLine[]): LogLine[] {
+  for (const raw of text.split('\n')) {
+    if (!raw) {
+      continue;
+    }
+    const match = raw.match(LOG_LINE_PATTERN);
+    if (match) {
+      lines.push({ timestamp: match[1], stream: match[2], text: match[3] });
+    } else if (lines.length > 0) {
+      // Shouldn't happen, but keep stray text attached to the previous entry
+      lines[lines.length - 1].text += `\n${raw}`;
+    }
+  }
+  return lines;
+}
+
+export function removeLogs(projectRoot: string, featureName: string): void {
+  closeLogWriter(getLogPath(projectRoot, featureName));
+  for (const file of getLogFiles(projectRoot, featureName)) {
+    fs.unlinkSync(file);
+  }
+
+  const logsPath = getLogsPath(projectRoot);
+  if (fs.existsSync(logsPath) && fs.readdirSync(logsPath).length === 0) {
+    fs.rmdirSync(logsPath);
+  }
+}
@@ -0,0 +1,318 @@
+import { execa } from 'execa';
+import * as path from 'path';
+import { FeatureSession, getFeatureSession, updateFeatureSession } from './registry.js';
+import { appendLogLine, readLogTail } from './agent-log.js';
+import type { AgentState } from './tool-result.js';
+
+export const DEFAULT_STOP_GRACE_PERIOD_MS = 10 * 1000;
+
+// How much of the agent's output to keep once it exits
+const FINAL_OUTPUT_LINES = 20;
+const MAX_FINAL_OUTPUT_LINE_LENGTH = 500;
+// Enough of the log's end to hold those lines, usually - stream-json lines can be long
+const FINAL_OUTPUT_TAIL_BYTES = 256 * 1024;
+
+/**
+ * Where a feature's agent is in its life, for feature_status. Queued agents are
+ * the scheduler's to report.
+ */
+export interface AgentLifecycle {
+  state: Exclude<AgentState, 'queued'>;
+  pid?: number;
+  startedAt?: string;
+  endedAt?: string;
+  // So far for live states, start to end for finished ones
+  durationMs?: number;
+  exitCode?: number | null;
+  signal?: string | null;
+  finalOutput?: string[];
+  stopReason?: string;
+  // Why the agent failed to start or was orphaned
+  reason?: string;
+}
+
+export interface StopAgentResult {
+  stopped: boolean;
+  pid?: number;
+  signal?: 'SIGTERM' | 'SIGKILL';
+  message: string;
+}
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Whether the agent recorded for this session is still running.
+ * Guards against PID reuse by checking the process still looks like the command we launched.
+ */
+export async function isAgentRunning(session: FeatureSession | undefined): Promise<boolean> {
+  if (!session?.pid || session.stoppedAt || !isProcessAlive(session.pid)) {
+    return false;
+  }
+
+  const executable = path.basename(session.command.split(' ')[0] || '');
+  if (!executable) {
+    return true;
+  }
+
+  try {
+    const { stdout } = await execa('ps', ['-p', String(session.pid), '-o', 'command='], { stdio: 'pipe' });
+    return stdout.includes(executable);
+  } catch {
+    return false;
+  }
+}
+
+// Launches this server is preparing, so feature_stop can call them off before the agent starts
+const pendingLaunches = new Map<string, AbortController>();
+
+function launchKey(projectRoot: string, featureName: string): string {
+  return `${projectRoot}::${featureName}`;
+}
+
+/**
+ * Note that this server is preparing the feature's agent launch; launchAgent's caller clears it.
+ * The signal aborts when cancelAgentLaunch calls the launch off - check it before each step.
+ */
+export function markAgentLaunching(projectRoot: string, featureName: string, phase: 'starting' | 'installing'): AbortSignal {
+  const key = launchKey(projectRoot, featureName);
+  let controller = pendingLaunches.get(key);
+  if (!controller || controller.signal.aborted) {
+    controller = new AbortController();
+    pendingLaunches.set(key, controller);
+  }
+
+  updateFeatureSession(projectRoot, featureName, {
+    launching: { phase, since: new Date().toISOString(), serverPid: process.pid },
+  });
+  return controller.signal;
+}
+
+export function throwIfLaunchCancelled(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new Error(`Launch cancelled: ${signal.reason}`);
+  }
+}
+
+/**
+ * Call off a launch this server is preparing: its install, setup commands and hooks
+ * are killed and the agent never starts. Returns false when there's no such launch.
+ */
+export function cancelAgentLaunch(projectRoot: string, featureName: string, reason: string): boolean {
+  const key = launchKey(projectRoot, featureName);
+  const controller = pendingLaunches.get(key);
+  pendingLaunches.delete(key);
+
+  const session = getFeatureSession(projectRoot, featureName);
+  if (!controller || session?.launching?.serverPid !== process.pid) {
+    return false;
+  }
+
+  controller.abort(reason);
+  updateFeatureSession(projectRoot, featureName, {
+    launching: undefined,
+    stoppedAt: new Date().toISOString(),
+    stopReason: reason,
+  });
+  appendLogLine(projectRoot, featureName, 'agent', `Launch cancelled: ${reason}`);
+  return true;
+}
+
+/**
+ * Record how the feature's agent exited, unless the session has moved on to another
+ * agent since. Returns whether the process was the feature's agent.
+ */
+export function recordAgentExit(
+  projectRoot: string,
+  featureName: string,
+  pid: number | undefined,
+  exitCode: number | null,
+  signal: NodeJS.Signals | null
+): boolean {
+  const session = getFeatureSession(projectRoot, featureName);
+  if (!session || !pid || session.pid !== pid) {
+    return false;
+  }
+
+  const finalOutput = readLogTail(projectRoot, featureName, FINAL_OUTPUT_TAIL_BYTES)
+    .filter(line => line.stream === 'stdout' || line.stream === 'stderr')
+    .slice(-FINAL_OUTPUT_LINES)
+    .map(line => line.text.length > MAX_FINAL_OUTPUT_LINE_LENGTH ? `${line.text.slice(0, MAX_FINAL_OUTPUT_LINE_LENGTH)}…` : line.text);
+
+  updateFeatureSession(projectRoot, featureName, {
+    exit: { exitCode, signal, endedAt: new Date().toISOString(), finalOutput },
+  });
+  return true;
+}
+
+/**
+ * Work out the agent's lifecycle state from the session. Anything the server
+ * lost track of - a launch or a queued job cut short by a restart, or an agent
+ * that exited with nobody watching - is orphaned.
+ */
+export async function getAgentLifecycle(session: FeatureSession, now: number = Date.now()): Promise<AgentLifecycle> {
+  const { pid, startedAt } = session;
+  const elapsed = (from?: string, to?: string) => from ? Math.max(0, (to ? Date.parse(to) : now) - Date.parse(from)) : undefined;
+
+  if (session.launching) {
+    if (isProcessAlive(session.launching.serverPid)) {
+      return { state: session.launching.phase, durationMs: elapsed(session.launching.since) };
+    }
+    const activity = session.launching.phase === 'installing' ? 'installing dependencies' : 'starting the agent';
+    return { state: 'orphaned', reason: `The server exited while ${activity}` };
+  }
+
+  if (await isAgentRunning(session)) {
+    return { state: 'running', pid, startedAt, durationMs: elapsed(startedAt) };
+  }
+
+  if (session.queuedAt) {
+    return { state: 'orphaned', reason: 'Queued job lost (server restarted)' };
+  }
+
+  if (session.stoppedAt) {
+    return { state: 'stopped', pid, startedAt, endedAt: session.stoppedAt, durationMs: elapsed(startedAt, session.stoppedAt), stopReason: session.stopReason };
+  }
+
+  const { exit } = session;
+  if (exit) {
+    return {
+      state: exit.exitCode === 0 ? 'succeeded' : 'failed',
+      pid,
+      startedAt,
+      endedAt: exit.endedAt,
+      durationMs: elapsed(startedAt, exit.endedAt),
+      exitCode: exit.exitCode,
+      signal: exit.signal,
+      finalOutput: exit.finalOutput,
+      reason: exit.error,
+    };
+  }
+
+  return {
+    state: 'orphaned',
+    pid,
+    startedAt,
+    reason: pid ? 'The agent exited while no server was watching it' : 'No agent was launched',
+  };
+}
+
+/**
+ * "45s", "12m 03s", "2h 05m".
+ */
+export function formatDuration(durationMs: number): string {
+  const seconds = Math.floor(durationMs / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+  }
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+export async function findRunningAgent(projectRoot: string, featureName: string): Promise<FeatureSession | undefined> {
+  const session = getFeatureSession(projectRoot, featureName);
+  return (await isAgentRunning(session)) ? session : undefined;
+}
+
+/**
+ * The process and all of its descendants, parents first.
+ */
+export async function getProcessTree(pid: number): Promise<number[]> {
+  const children = new Map<number, number[]>();
+  try {
+    const { stdout } = await execa('ps', ['-A', '-o', 'pid=,ppid='], { stdio: 'pipe' });
+    for (const line of stdout.split('\n')) {
+      const [childPid, parentPid] = line.trim().split(/\s+/).map(Number);
+      if (!childPid || isNaN(parentPid)) {
+        continue;
+      }
+      children.set(parentPid, [...(children.get(parentPid) || []), childPid]);
+    }
+  } catch {
+    // Without ps we can still signal the agent itself
+  }
+
+  const tree: number[] = [];
+  const queue = [pid];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (!tree.includes(current)) {
+      tree.push(current);
+      queue.push(...(children.get(current) || []));
+    }
+  }
+  return tree;
+}
+
+function signalAll(pids: number[], signal: NodeJS.Signals): void {
+  for (const pid of pids) {
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // Already exited
+    }
+  }
+}
+
+async function waitForExit(pids: number[], timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (!pids.some(isProcessAlive)) {
+      return true;
+    }
+    await new Promise(resolve => setTimeout(resolve, 250));
+  }
+  return !pids.some(isProcessAlive);
+}
+
+/**
+ * Stop a feature's agent and everything it spawned: SIGTERM first, SIGKILL after the grace period.
+ * The reason is recorded in the registry and the feature log.
+ */
+export async function stopAgent(
+  projectRoot: string,
+  featureName: string,
+  reason: string,
+  gracePeriodMs: number = DEFAULT_STOP_GRACE_PERIOD_MS
+): Promise<StopAgentResult> {
+  const session = await findRunningAgent(projectRoot, featureName);
+  if (!session?.pid) {
+    return { stopped: false, message: `No running agent found for '${featureName}'` };
+  }
+
+  const pid = session.pid;
+  const tree = await getProcessTree(pid);
+  signalAll([...tree].reverse(), 'SIGTERM');
+
+  let signal: StopAgentResult['signal'] = 'SIGTERM';
+  if (!(await waitForExit(tree, gracePeriodMs))) {
+    // Pick up anything spawned since the first snapshot
+    const remaining = Array.from(new Set([...tree, ...(await getProcessTree(pid))])).filter(isProcessAlive);
+    signalAll(remaining.reverse(), 'SIGKILL');
+    await waitForExit(remaining, 2000);
+    signal = 'SIGKILL';
+  }
+
+  updateFeatureSession(projectRoot, featureName, {
+    stoppedAt: new Date().toISOString(),
+    stopReason: reason,
+  });
+  appendLogLine(projectRoot, featureName, 'agent', `Stopped with ${signal}: ${reason}`);
+
+  return {
+    stopped: true,
+    pid,
+    signal,
+    message: `Stopped agent (PID ${pid}, ${tree.length} process${tree.length === 1 ? '' : 'es'}) with ${signal}`,
+  };
+}
@@ -0,0 +1,332 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execa, ExecaChildProcess } from 'execa';
+import { getFeatureSession, getWorktreesPath, updateFeatureSession } from './registry.js';
+import { runHook } from './hooks.js';
+import { appendLogLine, captureAgentOutput } from './agent-log.js';
+import { recordAgentExit } from './agent-process.js';
+import { loadProjectConfig } from './project-config.js';
+import { continueRetryLoop } from './retry.js';
+import { trackAgentUsage, UsageRunKind } from './usage.js';
+import { getVerifyGates, verifyFeature, VerifyReport } from './verify.js';
+
+export type AgentProfileName = 'claude' | 'claude-interactive' | 'command';
+
+export const AGENT_PROFILES: Record<AgentProfileName, { mode: 'background' | 'interactive'; description: string }> = {
+  'claude': {
+    mode: 'background',
+    description: 'Claude Code headless (-p) with stream-json output captured to the feature log',
+  },
+  'claude-interactive': {
+    mode: 'interactive',
+    description: 'Claude Code in the terminal, started with the instructions as its first prompt',
+  },
+  'command': {
+    mode: 'background',
+    description: 'Any CLI agent from a command template (e.g. aider), output captured to the feature log',
+  },
+};
+
+const DEFAULT_CLAUDE_ARGS = ['--dangerously-skip-permissions'];
+
+/**
+ * Agent settings from the tool call, the spec frontmatter and the environment.
+ */
+export interface AgentOptions {
+  profile?: string;
+  // Executable for the claude profiles (default: CLAUDE_COMMAND or "claude")
+  command?: string;
+  model?: string;
+  // Command line for the "command" profile (default: AGENT_COMMAND_TEMPLATE)
+  template?: string;
+}
+
+/**
+ * A fully resolved agent command line, ready to spawn.
+ */
+export interface AgentLaunch {
+  profile: AgentProfileName;
+  mode: 'background' | 'interactive';
+  command: string;
+  args: string[];
+  // Sent on stdin when the command line doesn't carry the prompt itself
+  input?: string;
+  prompt: string;
+}
+
+export function resolveAgentProfile(profile?: string): AgentProfileName {
+  const name = profile || process.env.AGENT_PROFILE || 'claude';
+  if (!(name in AGENT_PROFILES)) {
+    throw new Error(`Unknown agent profile '${name}' (expected one of: ${Object.keys(AGENT_PROFILES).join(', ')})`);
+  }
+  return name as AgentProfileName;
+}
+
+/**
+ * Build the command line for running an agent on a prompt in a worktree.
+ *
+ * Templates for the "command" profile are split like a shell would (quotes and
+ * backslashes are honoured) and may use these placeholders:
+ * `{{prompt}}`, `{{promptFile}}`, `{{model}}`, `{{feature}}` and `{{worktree}}`.
+ * Without `{{prompt}}` or `{{promptFile}}` the prompt is sent on stdin.
+ */
+export function buildAgentLaunch(
+  projectRoot: string,
+  featureName: string,
+  worktreePath: string,
+  prompt: string,
+  options: AgentOptions = {}
+): AgentLaunch {
+  const profile = resolveAgentProfile(options.profile);
+  const { mode } = AGENT_PROFILES[profile];
+
+  if (profile === 'command') {
+    const template = options.template || process.env.AGENT_COMMAND_TEMPLATE;
+    if (!template) {
+      throw new Error('The "command" agent profile needs a command template (agent.template in the spec frontmatter or the AGENT_COMMAND_TEMPLATE environment variable)');
+    }
+
+    let usesPrompt = false;
+    const values: Record<string, () => string> = {
+      prompt: () => prompt,
+      promptFile: () => writePromptFile(projectRoot, featureName, prompt),
+      model: () => options.model || '',
+      feature: () => featureName,
+      worktree: () => worktreePath,
+    };
+    const [command, ...args] = parseCommandLine(template).map(token =>
+      token.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) => {
+        if (!(key in values)) {
+          throw new Error(`Unknown placeholder ${placeholder} in agent command template`);
+        }
+        usesPrompt = usesPrompt || key === 'prompt' || key === 'promptFile';
+        return values[key]();
+      })
+    );
+    if (!command) {
+      throw new Error('Agent command template is empty');
+    }
+
+    return { profile, mode, command, args, input: usesPrompt ? undefined : prompt, prompt };
+  }
+
+  const command = options.command || process.env.CLAUDE_COMMAND || 'claude';
+  const args = process.env.CLAUDE_ARGS ? parseCommandLine(process.env.CLAUDE_ARGS) : [...DEFAULT_CLAUDE_ARGS];
+  if (options.model) {
+    args.push('--model', options.model);
+  }
+
+  if (profile === 'claude-interactive') {
+    return { profile, mode, command, args: [...args, prompt], prompt };
+  }
+  return {
+    profile,
+    mode,
+    command,
+    args: ['-p', '--output-format', 'stream-json', '--verbose', ...args],
+    input: prompt,
+    prompt,
+  };
+}
+
+/**
+ * Start the agent. Background agents stream their output to the feature log,
+ * where usage events are metered as a run of the given kind; interactive
+ * agents take over the terminal.
+ */
+export function launchAgent(
+  projectRoot: string,
+  featureName: string,
+  worktreePath: string,
+  launch: AgentLaunch,
+  options: { timeout?: number; run?: UsageRunKind } = {}
+): ExecaChildProcess {
+  let child: ExecaChildProcess;
+  if (launch.mode === 'interactive') {
+    child = execa(launch.command, launch.args, {
+      stdio: 'inherit',
+      cwd: worktreePath,
+      timeout: options.timeout,
+    });
+  } else {
+    child = execa(launch.command, launch.args, {
+      input: launch.input,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      buffer: false,
+      cwd: worktreePath,
+      timeout: options.timeout,
+    });
+    captureAgentOutput(projectRoot, featureName, child, formatAgentCommand(launch), trackAgentUsage(projectRoot, featureName, child, options.run));
+  }
+
+  child.catch(() => {
+    // Exit status is recorded in the session and feature log (or shown in the terminal)
+  });
+  child.on('close', (code, signal) => {
+    // Nobody awaits this, so an unreadable registry or config must not become an unhandled rejection
+    void handleAgentExit(projectRoot, featureName, worktreePath, options.run, child.pid, code, signal).catch(error => {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      try {
+        appendLogLine(projectRoot, featureName, 'agent', `Could not handle the exit: ${errorMessage}`);
+      } catch {
+        console.error(`Could not handle the exit of '${featureName}':`, error);
+      }
+    });
+  });
+  return child;
+}
+
+async function handleAgentExit(
+  projectRoot: string,
+  featureName: string,
+  worktreePath: string,
+  run: UsageRunKind | undefined,
+  pid: number | undefined,
+  agentExitCode: number | null,
+  agentSignal: NodeJS.Signals | null
+): Promise<void> {
+  const isFeatureAgent = recordAgentExit(projectRoot, featureName, pid, agentExitCode, agentSignal);
+  await runPostAgentExitHook(projectRoot, featureName, worktreePath, agentExitCode, agentSignal);
+
+  // feature_sync finishes the rebase after its conflict resolver, so there's nothing to verify yet
+  if (!isFeatureAgent || run === 'sync') {
+    return;
+  }
+  // A killed agent didn't finish, so there's nothing to verify or retry
+  if (agentSignal || !fs.existsSync(worktreePath)) {
+    continueRetryLoop(projectRoot, featureName, undefined, agentSignal ? `The agent was killed by ${agentSignal}` : 'The worktree was removed');
+    return;
+  }
+
+  let report: VerifyReport | undefined;
+  let reason: string | undefined;
+  try {
+    const config = loadProjectConfig(projectRoot).verify;
+    if (config.afterAgentExit && getVerifyGates(config).length > 0) {
+      report = await verifyFeature(projectRoot, featureName, { trigger: 'agent-exit' });
+    } else {
+      reason = 'Verification after the agent exits is turned off';
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    appendLogLine(projectRoot, featureName, 'verify', `Could not verify: ${errorMessage}`);
+    reason = `Could not verify: ${errorMessage}`;
+  }
+  continueRetryLoop(projectRoot, featureName, report, reason);
+}
+
+async function runPostAgentExitHook(
+  projectRoot: string,
+  featureName: string,
+  worktreePath: string,
+  agentExitCode: number | null,
+  agentSignal: NodeJS.Signals | null
+): Promise<void> {
+  // Nothing to run against once feature_cleanup has removed the worktree
+  const session = getFeatureSession(projectRoot, featureName);
+  if (!session || !fs.existsSync(worktreePath)) {
+    return;
+  }
+
+  try {
+    await runHook(projectRoot, 'postAgentExit', {
+      featureName,
+      worktreePath,
+      branchName: session.branchName,
+      baseBranch: session.baseBranch,
+      featureFile: session.featureFile,
+      agentExitCode,
+      agentSignal,
+    });
+    if (session.hookError) {
+      updateFeatureSession(projectRoot, featureName, { hookError: undefined });
+    }
+  } catch (error) {
+    // Nothing left to stop once the agent has exited, so surface it in feature_status
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    updateFeatureSession(projectRoot, featureName, { hookError: errorMessage.split('\n')[0] });
+  }
+}
+
+/**
+ * Printable command line, with the prompt itself abbreviated.
+ */
+export function formatAgentCommand(launch: AgentLaunch): string {
+  return [launch.command, ...launch.args]
+    .map(arg => arg === launch.prompt ? '<prompt>' : arg)
+    .map(arg => /^[\w@%+=:,./<>-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`)
+    .join(' ');
+}
+
+/**
+ * Split a command line into arguments the way a POSIX shell would, without
+ * expanding anything: single quotes are literal, double quotes and backslashes escape.
+ */
+export function parseCommandLine(commandLine: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let inArg = false;
+  let quote: '"' | "'" | undefined;
+
+  for (let i = 0; i < commandLine.length; i++) {
+    const char = commandLine[i];
+    if (quote === "'") {
+      if (char === "'") {
+        quote = undefined;
+      } else {
+        current += char;
+      }
+    } else if (char === '\\' && i + 1 < commandLine.length && (!quote || '"\\$`'.includes(commandLine[i + 1]))) {
+      current += commandLine[++i];
+      inArg = true;
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = undefined;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inArg = true;
+    } else if (/\s/.test(char)) {
+      if (inArg) {
+        args.push(current);
+        current = '';
+        inArg = false;
+      }
+    } else {
+      current += char;
+      inArg = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated ${quote} quote in command line: ${commandLine}`);
+  }
+  if (inArg) {
+    args.push(current);
+  }
+  return args;
+}
+
+function getPromptPath(projectRoot: string, featureName: string): string {
+  return path.join(getWorktreesPath(projectRoot), '.prompts', `${featureName}.md`);
+}
+
+// Kept out of the worktree so the agent can't commit it
+function writePromptFile(projectRoot: string, featureName: string, prompt: string): string {
+  const promptPath = getPromptPath(projectRoot, featureName);
+  fs.mkdirSync(path.dirname(promptPath), { recursive: true });
+  fs.writeFileSync(promptPath, prompt);
+  return promptPath;
+}
+
+export function removePromptFile(projectRoot: string, featureName: string): void {
+  const promptPath = getPromptPath(projectRoot, featureName);
+  fs.rmSync(promptPath, { force: true });
+
+  const promptsPath = path.dirname(promptPath);
+  if (fs.existsSync(promptsPath) && fs.readdirSync(promptsPath).length === 0) {
+    fs.rmdirSync(promptsPath);
+  }
+}
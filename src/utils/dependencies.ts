@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getFeatureSession, getWorktreesPath } from './registry.js';
+import { isAgentRunning } from './agent-process.js';
+import { appendLogLine } from './agent-log.js';
+import { getQueuePosition, onAgentExit } from './scheduler.js';
+
+// Agents started outside this server process can only be noticed by polling
+const DEPENDENCY_POLL_INTERVAL_MS = 30 * 1000;
+
+export type DependencyState = 'pending' | 'finished' | 'stopped' | 'failed' | 'missing';
+
+export interface WaitingFeature {
+  projectRoot: string;
+  featureName: string;
+  dependsOn: string[];
+  waitingSince: string;
+  // Starts the feature once every dependency has finished
+  start: () => Promise<void>;
+}
+
+const waiting: WaitingFeature[] = [];
+let pollTimer: NodeJS.Timeout | undefined;
+let checking = false;
+
+onAgentExit(() => void startReadyFeatures());
+
+/**
+ * Where a prerequisite feature stands. A feature is finished once its agent has
+ * exited; an agent that was stopped or failed blocks its dependents.
+ */
+export async function getDependencyState(projectRoot: string, dependency: string): Promise<DependencyState> {
+  if (waiting.some(feature => feature.projectRoot === projectRoot && feature.featureName === dependency)) {
+    return 'pending';
+  }
+
+  const session = getFeatureSession(projectRoot, dependency);
+  if (!session) {
+    // Worktrees from before the registry can't tell us more than that they exist
+    return fs.existsSync(path.join(getWorktreesPath(projectRoot), dependency)) ? 'finished' : 'missing';
+  }
+
+  if (getQueuePosition(projectRoot, dependency) !== undefined || session.launching || await isAgentRunning(session)) {
+    return 'pending';
+  }
+  if (session.stoppedAt) {
+    return 'stopped';
+  }
+  if (session.exit) {
+    return session.exit.exitCode === 0 ? 'finished' : 'failed';
+  }
+  // Agents that exited with nobody watching left no exit code, so count as finished
+  return session.startedAt ? 'finished' : 'pending';
+}
+
+export function getWaitingFeatures(projectRoot: string): WaitingFeature[] {
+  return waiting.filter(feature => feature.projectRoot === projectRoot);
+}
+
+export function removeWaitingFeature(projectRoot: string, featureName: string): boolean {
+  const index = waiting.findIndex(feature => feature.projectRoot === projectRoot && feature.featureName === featureName);
+  if (index === -1) {
+    return false;
+  }
+  waiting.splice(index, 1);
+  return true;
+}
+
+/**
+ * Hold a feature back until all of its dependencies have finished, then start it.
+ */
+export function waitForDependencies(feature: WaitingFeature): void {
+  waiting.push(feature);
+  appendLogLine(feature.projectRoot, feature.featureName, 'agent', `Waiting on ${feature.dependsOn.join(', ')}`);
+
+  if (!pollTimer) {
+    pollTimer = setInterval(() => void startReadyFeatures(), DEPENDENCY_POLL_INTERVAL_MS);
+    pollTimer.unref();
+  }
+}
+
+async function startReadyFeatures(): Promise<void> {
+  if (checking) {
+    return;
+  }
+  checking = true;
+
+  try {
+    for (const feature of [...waiting]) {
+      const states = await Promise.all(feature.dependsOn.map(dependency => getDependencyState(feature.projectRoot, dependency)));
+      if (states.some(state => state === 'pending')) {
+        continue;
+      }
+
+      removeWaitingFeature(feature.projectRoot, feature.featureName);
+
+      const blockers = feature.dependsOn.filter((_, index) => states[index] !== 'finished');
+      if (blockers.length > 0) {
+        appendLogLine(feature.projectRoot, feature.featureName, 'agent', `Not started: dependencies ${blockers.join(', ')} were stopped, failed or removed`);
+        continue;
+      }
+
+      try {
+        appendLogLine(feature.projectRoot, feature.featureName, 'agent', `Dependencies ${feature.dependsOn.join(', ')} finished, starting`);
+        await feature.start();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        appendLogLine(feature.projectRoot, feature.featureName, 'agent', `Failed to start after dependencies finished: ${errorMessage}`);
+      }
+    }
+  } finally {
+    checking = false;
+  }
+
+  if (waiting.length === 0 && pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = undefined;
+  }
+}
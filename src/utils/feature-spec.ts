@@ -0,0 +1,261 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { getWorktreesPath } from './registry.js';
+import type { UsageBudget } from './usage.js';
+import { asObject, asPositiveNumber, asString, asStringList, checkKeys } from './validation.js';
+
+// Matches "dependsOn: a, b" or "**Depends On:** a, b" on a line of its own
+const DEPENDS_ON_PATTERN = /^\s*(?:\*\*)?depends[ _-]?on(?::\*\*|\*\*:|:)\s*(.+)$/im;
+
+// A "---" fenced YAML block at the very top of the spec
+const FRONTMATTER_PATTERN = /^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Per-feature settings from the spec's YAML frontmatter. Tool arguments take precedence.
+ */
+export interface FeatureSpecConfig {
+  featureName?: string;
+  baseBranch?: string;
+  branchPrefix?: string;
+  dependsOn?: string[];
+  agent?: {
+    // claude, claude-interactive or command
+    profile?: string;
+    command?: string;
+    model?: string;
+    // Command line for the "command" profile, e.g. "aider --yes-always --message-file {{promptFile}}"
+    template?: string;
+  };
+  pr?: {
+    labels?: string[];
+    reviewers?: string[];
+    draft?: boolean;
+  };
+  // Shell commands run in the worktree after dependencies are installed
+  setup?: string[];
+  // The issue this feature resolves; its PR instructions say "Closes #<number>"
+  issue?: FeatureIssue;
+  // Overrides the project's budget.feature limits
+  budget?: UsageBudget;
+}
+
+export interface FeatureIssue {
+  number: number;
+  url?: string;
+  title?: string;
+}
+
+export interface FeatureSpec {
+  featureName: string;
+  config: FeatureSpecConfig;
+  // The spec without its frontmatter - what the agent sees as FEATURE.md
+  body: string;
+}
+
+/**
+ * Feature name derived from the spec file name (features/User Stats.md -> user-stats).
+ */
+export function getFeatureName(featureFile: string): string {
+  return path.basename(featureFile, '.md')
+    .toLowerCase()
+    .replace(/[^a-zA-Z0-9-]/g, '-');
+}
+
+/**
+ * Read a spec file and split off its frontmatter.
+ */
+export function readFeatureSpec(featureFile: string): FeatureSpec {
+  const { config, body } = parseFeatureSpec(fs.readFileSync(featureFile, 'utf-8'), featureFile);
+  return {
+    featureName: config.featureName || getFeatureName(featureFile),
+    config,
+    body,
+  };
+}
+
+/**
+ * Split spec content into validated frontmatter config and the markdown body.
+ */
+export function parseFeatureSpec(content: string, source = 'feature spec'): { config: FeatureSpecConfig; body: string } {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { config: {}, body: content };
+  }
+
+  let data: unknown;
+  try {
+    data = parseYaml(match[1]);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Invalid frontmatter in ${source}: ${errorMessage}`);
+  }
+
+  return {
+    config: validateConfig(data ?? {}, source),
+    body: content.slice(match[0].length).replace(/^\s*\n/, ''),
+  };
+}
+
+/**
+ * Names of the features a spec depends on, from frontmatter or a "dependsOn:" line.
+ * Entries may be feature names or spec paths.
+ */
+export function readDependsOn(content: string): string[] {
+  const { config, body } = parseFeatureSpec(content);
+  if (config.dependsOn) {
+    return config.dependsOn.map(getFeatureName);
+  }
+
+  const match = body.match(DEPENDS_ON_PATTERN);
+  if (!match) {
+    return [];
+  }
+
+  return match[1]
+    .replace(/[[\]`]/g, '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry && entry.toLowerCase() !== 'none')
+    .map(getFeatureName);
+}
+
+/**
+ * Resolve a directory or glob (relative to the project root) to feature spec files.
+ * Supports `*` and `?` within path segments and `**` for any number of directories.
+ */
+export function findFeatureSpecs(projectRoot: string, pattern: string): string[] {
+  const fullPattern = path.isAbsolute(pattern) ? pattern : path.join(projectRoot, pattern);
+
+  if (!/[*?]/.test(fullPattern)) {
+    if (!fs.existsSync(fullPattern)) {
+      throw new Error(`Feature spec path '${pattern}' not found at '${fullPattern}'`);
+    }
+    if (fs.statSync(fullPattern).isFile()) {
+      return [fullPattern];
+    }
+    return fs.readdirSync(fullPattern)
+      .filter(file => file.endsWith('.md'))
+      .map(file => path.join(fullPattern, file))
+      .filter(file => fs.statSync(file).isFile())
+      .sort();
+  }
+
+  // Walk from the deepest directory without wildcards
+  const segments = fullPattern.split(path.sep);
+  const firstWildcard = segments.findIndex(segment => /[*?]/.test(segment));
+  const baseDir = segments.slice(0, firstWildcard).join(path.sep) || path.sep;
+  const matcher = globToRegExp(segments.slice(firstWildcard).join('/'));
+
+  const worktreesPath = getWorktreesPath(projectRoot);
+  const results: string[] = [];
+  const walk = (dir: string) => {
+    if (!fs.existsSync(dir)) {
+      return;
+    }
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.name === 'node_modules' || entry.name === '.git' || entryPath === worktreesPath) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        walk(entryPath);
+      } else if (matcher.test(path.relative(baseDir, entryPath).split(path.sep).join('/'))) {
+        results.push(entryPath);
+      }
+    }
+  };
+  walk(baseDir);
+
+  return results.sort();
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" matches zero or more directories
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function validateConfig(data: unknown, source: string): FeatureSpecConfig {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid frontmatter in ${source}: ${message}`);
+  };
+
+  const config = asObject(data, 'frontmatter', fail);
+  checkKeys(config, ['featureName', 'baseBranch', 'branchPrefix', 'dependsOn', 'agent', 'pr', 'setup', 'issue', 'budget'], '', fail);
+
+  const featureName = asString(config.featureName, 'featureName', fail);
+  if (featureName !== undefined && !/^[a-z0-9][a-z0-9-]*$/.test(featureName)) {
+    fail(`'featureName' must contain only lowercase letters, numbers and hyphens (got '${featureName}')`);
+  }
+
+  const agent = config.agent === undefined ? undefined : asObject(config.agent, 'agent', fail);
+  if (agent) {
+    checkKeys(agent, ['profile', 'command', 'model', 'template'], 'agent.', fail);
+  }
+  const pr = config.pr === undefined ? undefined : asObject(config.pr, 'pr', fail);
+  if (pr) {
+    checkKeys(pr, ['labels', 'reviewers', 'draft'], 'pr.', fail);
+    if (pr.draft !== undefined && typeof pr.draft !== 'boolean') {
+      fail(`'pr.draft' must be true or false`);
+    }
+  }
+  const budget = config.budget === undefined ? undefined : asObject(config.budget, 'budget', fail);
+  if (budget) {
+    checkKeys(budget, ['maxTokens', 'maxCostUsd'], 'budget.', fail);
+  }
+
+  return {
+    featureName,
+    baseBranch: asString(config.baseBranch, 'baseBranch', fail),
+    branchPrefix: asString(config.branchPrefix, 'branchPrefix', fail),
+    dependsOn: asStringList(config.dependsOn, 'dependsOn', fail),
+    agent: agent && {
+      profile: asString(agent.profile, 'agent.profile', fail),
+      command: asString(agent.command, 'agent.command', fail),
+      model: asString(agent.model, 'agent.model', fail),
+      template: asString(agent.template, 'agent.template', fail),
+    },
+    pr: pr && {
+      labels: asStringList(pr.labels, 'pr.labels', fail),
+      reviewers: asStringList(pr.reviewers, 'pr.reviewers', fail),
+      draft: pr.draft as boolean | undefined,
+    },
+    setup: asStringList(config.setup, 'setup', fail),
+    issue: validateIssue(config.issue, fail),
+    budget: budget && {
+      maxTokens: asPositiveNumber(budget.maxTokens, 'budget.maxTokens', fail),
+      maxCostUsd: asPositiveNumber(budget.maxCostUsd, 'budget.maxCostUsd', fail),
+    },
+  };
+}
+
+// "issue: 42" or "issue: { number: 42, url: ..., title: ... }"
+function validateIssue(value: unknown, fail: (message: string) => never): FeatureIssue | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const issue = typeof value === 'number' ? { number: value } : asObject(value, 'issue', fail);
+  checkKeys(issue, ['number', 'url', 'title'], 'issue.', fail);
+  if (typeof issue.number !== 'number' || !Number.isInteger(issue.number) || issue.number < 1) {
+    return fail(`'issue' must be an issue number or { number, url, title }`);
+  }
+  return {
+    number: issue.number,
+    url: asString(issue.url, 'issue.url', fail),
+    title: asString(issue.title, 'issue.title', fail),
+  };
+}
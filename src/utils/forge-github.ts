@@ -0,0 +1,168 @@
+import { execa } from 'execa';
+import type { Forge, ForgeContext, PullRequest, PullRequestOptions, PullRequestState, ReviewThread } from './forge.js';
+import { formatCommandLine } from './forge.js';
+
+// Review threads aren't in `gh pr view --json`, so they come from the GraphQL API
+const REVIEW_THREADS_QUERY = `query($owner: String!, $repo: String!, $number: Int!) {
+  repository(owner: $owner, name: $repo) {
+    pullRequest(number: $number) {
+      reviewThreads(first: 100) {
+        nodes {
+          path
+          line
+          startLine
+          originalLine
+          originalStartLine
+          isResolved
+          isOutdated
+          comments(first: 50) {
+            nodes { author { login } body createdAt diffHunk }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+/**
+ * GitHub through the `gh` CLI, using its own authentication.
+ */
+export function createGitHubForge(): Forge {
+  const findPullRequest = async (context: ForgeContext): Promise<PullRequest | null> => {
+    try {
+      const { stdout } = await execa('gh', ['pr', 'view', context.branchName, '--json', 'number,url,title,body,state'], {
+        stdio: 'pipe',
+        cwd: context.worktreePath
+      });
+      const pr = JSON.parse(stdout);
+      return {
+        number: pr.number,
+        url: pr.url,
+        title: pr.title,
+        body: pr.body || '',
+        state: pr.state as PullRequestState,
+      };
+    } catch {
+      // No PR for this branch (or gh unavailable)
+      return null;
+    }
+  };
+
+  return {
+    name: 'github',
+    displayName: 'GitHub',
+    requestLabel: 'PR',
+    cli: { command: 'gh', name: 'GitHub CLI', install: 'brew install gh', authArgs: ['auth', 'status'], login: 'gh auth login' },
+
+    findPullRequest,
+
+    async getFeedback(context, pullRequest) {
+      const { stdout } = await execa('gh', ['pr', 'view', String(pullRequest.number), '--json', 'comments,reviews'], {
+        stdio: 'pipe',
+        cwd: context.worktreePath
+      });
+      const data = JSON.parse(stdout);
+
+      let threads: ReviewThread[] = [];
+      try {
+        threads = await getReviewThreads(context, pullRequest.number);
+      } catch (error) {
+        console.error('Failed to fetch review threads:', error);
+      }
+
+      return {
+        comments: (data.comments || []).map((comment: any) => ({
+          author: comment.author?.login || 'Unknown',
+          body: comment.body || '',
+          createdAt: comment.createdAt,
+        })),
+        // A bodiless COMMENTED review is just the wrapper around inline comments - those are in threads
+        reviews: (data.reviews || [])
+          .filter((review: any) => review.state !== 'COMMENTED' || review.body?.trim())
+          .map((review: any) => ({
+            author: review.author?.login || 'Unknown',
+            state: review.state,
+            body: review.body || '',
+            submittedAt: review.submittedAt,
+          })),
+        threads,
+      };
+    },
+
+    async createPullRequest(context, options) {
+      await execa('gh', ['pr', 'create', '--head', context.branchName, ...createArgs(context, options)], {
+        stdio: 'pipe',
+        cwd: context.worktreePath
+      });
+      const pullRequest = await findPullRequest(context);
+      if (!pullRequest) {
+        throw new Error(`Created a PR for '${context.branchName}' but could not look it up`);
+      }
+      return pullRequest;
+    },
+
+    async getMergeState(context) {
+      const pullRequest = await findPullRequest(context);
+      if (!pullRequest) {
+        return 'none';
+      }
+      return pullRequest.state === 'MERGED' ? 'merged' : pullRequest.state === 'CLOSED' ? 'closed' : 'open';
+    },
+
+    getCreateCommand(context, options) {
+      return formatCommandLine(['gh', 'pr', 'create', ...createArgs(context, options)]);
+    },
+
+    getCommentCommand(body) {
+      return formatCommandLine(['gh', 'pr', 'comment', '--body', body]);
+    },
+  };
+}
+
+function createArgs(context: ForgeContext, options: PullRequestOptions): string[] {
+  const args = ['--base', context.baseBranch];
+  if (options.title) {
+    args.push('--title', options.title, '--body', options.body || '');
+  } else {
+    args.push('--fill');
+  }
+  if (options.draft) {
+    args.push('--draft');
+  }
+  for (const label of options.labels || []) {
+    args.push('--label', label);
+  }
+  for (const reviewer of options.reviewers || []) {
+    args.push('--reviewer', reviewer);
+  }
+  return args;
+}
+
+async function getReviewThreads(context: ForgeContext, number: number): Promise<ReviewThread[]> {
+  // gh fills in {owner} and {repo} from the current repository
+  const { stdout } = await execa('gh', [
+    'api', 'graphql',
+    '-f', `query=${REVIEW_THREADS_QUERY}`,
+    '-F', 'owner={owner}',
+    '-F', 'repo={repo}',
+    '-F', `number=${number}`,
+  ], { stdio: 'pipe', cwd: context.worktreePath });
+
+  const nodes = JSON.parse(stdout).data?.repository?.pullRequest?.reviewThreads?.nodes || [];
+  return nodes.map((thread: any) => {
+    const comments = thread.comments?.nodes || [];
+    return {
+      path: thread.path,
+      startLine: thread.startLine ?? thread.originalStartLine ?? undefined,
+      line: thread.line ?? thread.originalLine ?? undefined,
+      diffHunk: comments[0]?.diffHunk || '',
+      isResolved: Boolean(thread.isResolved),
+      isOutdated: Boolean(thread.isOutdated),
+      comments: comments.map((comment: any) => ({
+        author: comment.author?.login || 'Unknown',
+        body: comment.body || '',
+        createdAt: comment.createdAt,
+      })),
+    };
+  });
+}
@@ -0,0 +1,155 @@
+import { execa } from 'execa';
+import type { Forge, ForgeContext, PullRequest, PullRequestComment, PullRequestOptions, PullRequestState, ReviewThread } from './forge.js';
+import { formatCommandLine } from './forge.js';
+
+const MR_STATES: Record<string, PullRequestState> = {
+  opened: 'OPEN',
+  merged: 'MERGED',
+  closed: 'CLOSED',
+  locked: 'CLOSED',
+};
+
+/**
+ * GitLab (including self-hosted instances) through the `glab` CLI.
+ */
+export function createGitLabForge(): Forge {
+  const findPullRequest = async (context: ForgeContext): Promise<PullRequest | null> => {
+    try {
+      const { stdout } = await execa('glab', ['mr', 'view', context.branchName, '--output', 'json'], {
+        stdio: 'pipe',
+        cwd: context.worktreePath
+      });
+      const mr = JSON.parse(stdout);
+      return {
+        number: mr.iid,
+        url: mr.web_url,
+        title: mr.title,
+        body: mr.description || '',
+        state: MR_STATES[mr.state] || 'OPEN',
+      };
+    } catch {
+      // No MR for this branch (or glab unavailable)
+      return null;
+    }
+  };
+
+  // `glab api` fills in :id for the current repository
+  const api = async (context: ForgeContext, endpoint: string): Promise<any> => {
+    const { stdout } = await execa('glab', ['api', endpoint], { stdio: 'pipe', cwd: context.worktreePath });
+    return JSON.parse(stdout);
+  };
+
+  return {
+    name: 'gitlab',
+    displayName: 'GitLab',
+    requestLabel: 'MR',
+    cli: { command: 'glab', name: 'GitLab CLI', install: 'brew install glab', authArgs: ['auth', 'status'], login: 'glab auth login' },
+
+    findPullRequest,
+
+    async getFeedback(context, pullRequest) {
+      const discussions = await api(context, `projects/:id/merge_requests/${pullRequest.number}/discussions?per_page=100`);
+      let approvedBy: any[] = [];
+      try {
+        approvedBy = (await api(context, `projects/:id/merge_requests/${pullRequest.number}/approvals`)).approved_by || [];
+      } catch {
+        // Approvals are a paid feature on some instances
+      }
+
+      const comments: PullRequestComment[] = [];
+      const threads: ReviewThread[] = [];
+      for (const discussion of discussions) {
+        // System notes are GitLab's own activity entries ("added 1 commit"), not feedback
+        const notes = (discussion.notes || []).filter((note: any) => !note.system);
+        if (notes.length === 0) {
+          continue;
+        }
+
+        const position = notes[0].position;
+        if (!position) {
+          comments.push(...notes.map(toComment));
+          continue;
+        }
+
+        const range = position.line_range;
+        threads.push({
+          path: position.new_path || position.old_path,
+          startLine: range ? range.start?.new_line ?? range.start?.old_line : undefined,
+          line: position.new_line ?? position.old_line ?? undefined,
+          // GitLab doesn't return the hunk with the discussion
+          diffHunk: '',
+          isResolved: Boolean(notes[0].resolved),
+          // Nor does it flag outdated discussions, so every unresolved one is treated as current
+          isOutdated: false,
+          comments: notes.map(toComment),
+        });
+      }
+
+      return {
+        comments,
+        reviews: approvedBy.map((approval: any) => ({
+          author: approval.user?.username || 'Unknown',
+          state: 'APPROVED',
+          body: '',
+          submittedAt: '',
+        })),
+        threads,
+      };
+    },
+
+    async createPullRequest(context, options) {
+      await execa('glab', ['mr', 'create', '--source-branch', context.branchName, ...createArgs(context, options)], {
+        stdio: 'pipe',
+        cwd: context.worktreePath
+      });
+      const pullRequest = await findPullRequest(context);
+      if (!pullRequest) {
+        throw new Error(`Created an MR for '${context.branchName}' but could not look it up`);
+      }
+      return pullRequest;
+    },
+
+    async getMergeState(context) {
+      const pullRequest = await findPullRequest(context);
+      if (!pullRequest) {
+        return 'none';
+      }
+      return pullRequest.state === 'MERGED' ? 'merged' : pullRequest.state === 'CLOSED' ? 'closed' : 'open';
+    },
+
+    getCreateCommand(context, options) {
+      return formatCommandLine(['glab', 'mr', 'create', ...createArgs(context, options)]);
+    },
+
+    getCommentCommand(body) {
+      return formatCommandLine(['glab', 'mr', 'note', '--message', body]);
+    },
+  };
+}
+
+function toComment(note: any): PullRequestComment {
+  return {
+    author: note.author?.username || 'Unknown',
+    body: note.body || '',
+    createdAt: note.created_at,
+  };
+}
+
+function createArgs(context: ForgeContext, options: PullRequestOptions): string[] {
+  const args = ['--target-branch', context.baseBranch, '--yes'];
+  if (options.title) {
+    args.push('--title', options.title, '--description', options.body || '');
+  } else {
+    args.push('--fill');
+  }
+  if (options.draft) {
+    args.push('--draft');
+  }
+  if (options.labels?.length) {
+    args.push('--label', options.labels.join(','));
+  }
+  if (options.reviewers?.length) {
+    args.push('--reviewer', options.reviewers.join(','));
+  }
+  return args;
+}
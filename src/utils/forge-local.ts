@@ -0,0 +1,57 @@
+import { execa } from 'execa';
+import type { Forge } from './forge.js';
+
+/**
+ * No forge at all: there are no pull requests, and a feature is done once its
+ * branch has been merged into the base branch.
+ */
+export function createLocalForge(): Forge {
+  return {
+    name: 'local',
+    displayName: 'local git',
+    requestLabel: 'merge',
+
+    async findPullRequest() {
+      return null;
+    },
+
+    async getFeedback() {
+      return { comments: [], reviews: [], threads: [] };
+    },
+
+    async createPullRequest(context) {
+      throw new Error(`The local forge has no pull requests. Merge '${context.branchName}' into '${context.baseBranch}' with git instead.`);
+    },
+
+    async getMergeState(context) {
+      const run = (args: string[]) => execa('git', args, { stdio: 'pipe', cwd: context.projectRoot });
+
+      let tip: string;
+      try {
+        tip = (await run(['rev-parse', context.branchName])).stdout.trim();
+      } catch {
+        return 'none';
+      }
+
+      // A branch with no commits of its own is trivially "merged" - that's not done
+      if (context.baseCommit && tip === context.baseCommit) {
+        return 'open';
+      }
+
+      try {
+        await run(['merge-base', '--is-ancestor', context.branchName, context.baseBranch]);
+        return 'merged';
+      } catch {
+        return 'open';
+      }
+    },
+
+    getCreateCommand() {
+      return undefined;
+    },
+
+    getCommentCommand() {
+      return undefined;
+    },
+  };
+}
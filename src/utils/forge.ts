@@ -0,0 +1,144 @@
+import { execa } from 'execa';
+import { createGitHubForge } from './forge-github.js';
+import { createGitLabForge } from './forge-gitlab.js';
+import { createLocalForge } from './forge-local.js';
+import { loadProjectConfig } from './project-config.js';
+
+export type ForgeName = 'github' | 'gitlab' | 'local';
+
+export const FORGE_NAMES: ForgeName[] = ['github', 'gitlab', 'local'];
+
+export type PullRequestState = 'OPEN' | 'MERGED' | 'CLOSED';
+
+export interface PullRequest {
+  number: number;
+  url: string;
+  title: string;
+  body: string;
+  state: PullRequestState;
+}
+
+export interface PullRequestComment {
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface PullRequestReview {
+  author: string;
+  // APPROVED, CHANGES_REQUESTED, COMMENTED, ...
+  state: string;
+  body: string;
+  submittedAt: string;
+}
+
+/**
+ * An inline review discussion anchored to a file and line range.
+ */
+export interface ReviewThread {
+  path: string;
+  // Line range in the current diff, or in the original one once outdated
+  startLine?: number;
+  line?: number;
+  diffHunk: string;
+  isResolved: boolean;
+  // The code the thread points at has changed since it was posted
+  isOutdated: boolean;
+  comments: PullRequestComment[];
+}
+
+export interface PullRequestFeedback {
+  comments: PullRequestComment[];
+  reviews: PullRequestReview[];
+  threads: ReviewThread[];
+}
+
+export interface PullRequestOptions {
+  title?: string;
+  body?: string;
+  draft?: boolean;
+  labels?: string[];
+  reviewers?: string[];
+}
+
+/**
+ * Where a feature's branch is being worked on.
+ */
+export interface ForgeContext {
+  projectRoot: string;
+  worktreePath: string;
+  branchName: string;
+  baseBranch: string;
+  // Base branch commit the feature branched from, when known
+  baseCommit?: string;
+}
+
+/**
+ * Whether a feature's work has landed: merged, still open, closed without
+ * merging, or never proposed.
+ */
+export type MergeState = 'merged' | 'open' | 'closed' | 'none';
+
+/**
+ * Pull (or merge) request operations for one code hosting service.
+ */
+export interface Forge {
+  name: ForgeName;
+  displayName: string;
+  // What the forge calls a pull request ("PR", "MR")
+  requestLabel: string;
+  // CLI the forge needs, checked by verify_setup
+  cli?: { command: string; name: string; install: string; authArgs: string[]; login: string };
+  findPullRequest(context: ForgeContext): Promise<PullRequest | null>;
+  getFeedback(context: ForgeContext, pullRequest: PullRequest): Promise<PullRequestFeedback>;
+  createPullRequest(context: ForgeContext, options: PullRequestOptions): Promise<PullRequest>;
+  getMergeState(context: ForgeContext): Promise<MergeState>;
+  // Command line the agent should run to open a PR, or undefined when there's nothing to open
+  getCreateCommand(context: ForgeContext, options: PullRequestOptions): string | undefined;
+  // Command line the agent should run to comment on an existing PR
+  getCommentCommand(body: string): string | undefined;
+}
+
+/**
+ * The forge for a project: FORGE or the project config's `forge` if set, otherwise
+ * guessed from the origin remote (no origin means local mode).
+ */
+export async function getForge(projectRoot: string, name = process.env.FORGE || loadProjectConfig(projectRoot).forge): Promise<Forge> {
+  return createForge(name ? parseForgeName(name) : await detectForge(projectRoot));
+}
+
+export function createForge(name: ForgeName): Forge {
+  switch (name) {
+    case 'github':
+      return createGitHubForge();
+    case 'gitlab':
+      return createGitLabForge();
+    case 'local':
+      return createLocalForge();
+  }
+}
+
+export function parseForgeName(name: string): ForgeName {
+  if (!FORGE_NAMES.includes(name as ForgeName)) {
+    throw new Error(`Unknown forge '${name}' (expected one of: ${FORGE_NAMES.join(', ')})`);
+  }
+  return name as ForgeName;
+}
+
+async function detectForge(projectRoot: string): Promise<ForgeName> {
+  let originUrl: string;
+  try {
+    const { stdout } = await execa('git', ['remote', 'get-url', 'origin'], { stdio: 'pipe', cwd: projectRoot });
+    originUrl = stdout.trim();
+  } catch {
+    return 'local';
+  }
+  return /gitlab/i.test(originUrl) ? 'gitlab' : 'github';
+}
+
+/**
+ * Quote arguments for a command line shown to the agent.
+ */
+export function formatCommandLine(args: string[]): string {
+  return args.map(arg => /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`).join(' ');
+}
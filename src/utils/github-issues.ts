@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execa } from 'execa';
+import { stringify as stringifyYaml } from 'yaml';
+import type { FeatureIssue } from './feature-spec.js';
+import { renderPromptTemplate } from './prompt-templates.js';
+import { getWorktreesPath } from './registry.js';
+
+export interface GitHubIssue {
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  state: 'OPEN' | 'CLOSED';
+  labels: string[];
+  comments: Array<{ author: string; body: string; createdAt: string }>;
+}
+
+// Long titles make unwieldy branch names; the issue number keeps them unique
+const MAX_SLUG_LENGTH = 40;
+
+const ISSUE_URL_PATTERN = /^https:\/\/[^/]+\/([^/]+\/[^/]+)\/issues\/(\d+)\/?(?:[?#].*)?$/;
+
+/**
+ * "42", "#42" or an issue URL; a URL names its repository, which wins over `repo`.
+ */
+export function parseIssueReference(reference: string | number, repo?: string): { number: number; repo?: string } {
+  const text = String(reference).trim();
+  const urlMatch = text.match(ISSUE_URL_PATTERN);
+  if (urlMatch) {
+    return { number: Number(urlMatch[2]), repo: urlMatch[1] };
+  }
+  if (!/^#?\d+$/.test(text)) {
+    throw new Error(`Invalid issue '${text}' (expected a number such as 42 or #42, or an issue URL)`);
+  }
+  return { number: Number(text.replace('#', '')), repo };
+}
+
+/**
+ * Read an issue with `gh issue view`, from the project's repository unless
+ * another one is named.
+ */
+export async function fetchGitHubIssue(projectRoot: string, reference: string | number, repo?: string): Promise<GitHubIssue> {
+  const parsed = parseIssueReference(reference, repo);
+  const args = ['issue', 'view', String(parsed.number), '--json', 'number,title,body,url,state,labels,comments'];
+  if (parsed.repo) {
+    args.push('--repo', parsed.repo);
+  }
+
+  let stdout: string;
+  try {
+    ({ stdout } = await execa('gh', args, { stdio: 'pipe', cwd: projectRoot }));
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    const errorMessage = stderr || (error instanceof Error ? error.message : 'Unknown error');
+    throw new Error(`Could not read issue #${parsed.number}${parsed.repo ? ` in ${parsed.repo}` : ''} with gh: ${errorMessage}`);
+  }
+
+  const issue = JSON.parse(stdout);
+  return {
+    number: issue.number,
+    title: issue.title || '',
+    body: issue.body || '',
+    url: issue.url,
+    state: issue.state,
+    labels: (issue.labels || []).map((label: any) => label.name),
+    comments: (issue.comments || []).map((comment: any) => ({
+      author: comment.author?.login || 'Unknown',
+      body: comment.body || '',
+      createdAt: comment.createdAt || '',
+    })),
+  };
+}
+
+/**
+ * "<number>-<slug of the title>", e.g. 42-fix-login-timeout.
+ */
+export function getIssueFeatureName(issue: Pick<GitHubIssue, 'number' | 'title'>): string {
+  const slug = issue.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const shortened = slug.length > MAX_SLUG_LENGTH
+    ? slug.slice(0, MAX_SLUG_LENGTH).replace(/-[^-]*$/, '')
+    : slug;
+  return shortened ? `${issue.number}-${shortened}` : `issue-${issue.number}`;
+}
+
+export function getIssueSpecPath(projectRoot: string, featureName: string): string {
+  return path.join(getWorktreesPath(projectRoot), '.issues', `${featureName}.md`);
+}
+
+/**
+ * Write the feature spec for an issue from the project's issue template, with
+ * frontmatter that ties the feature to the issue.
+ */
+export function writeIssueSpec(projectRoot: string, issue: GitHubIssue): { featureName: string; specPath: string } {
+  const featureName = getIssueFeatureName(issue);
+  const body = renderPromptTemplate(projectRoot, 'issue', {
+    featureName,
+    issueNumber: issue.number,
+    issueTitle: issue.title,
+    issueUrl: issue.url,
+    issueBody: issue.body.trim(),
+    issueLabels: issue.labels.join(', '),
+    issueComments: issue.comments
+      .map(comment => `**@${comment.author}**${comment.createdAt ? ` (${comment.createdAt.slice(0, 10)})` : ''}:\n${comment.body.trim()}`)
+      .join('\n\n'),
+  });
+  const frontmatter = stringifyYaml({ featureName, issue: { number: issue.number, url: issue.url, title: issue.title } });
+
+  const specPath = getIssueSpecPath(projectRoot, featureName);
+  fs.mkdirSync(path.dirname(specPath), { recursive: true });
+  fs.writeFileSync(specPath, `---\n${frontmatter}---\n${body}`);
+  return { featureName, specPath };
+}
+
+export function removeIssueSpec(projectRoot: string, featureName: string): void {
+  const specPath = getIssueSpecPath(projectRoot, featureName);
+  fs.rmSync(specPath, { force: true });
+
+  const specsPath = path.dirname(specPath);
+  if (fs.existsSync(specsPath) && fs.readdirSync(specsPath).length === 0) {
+    fs.rmdirSync(specsPath);
+  }
+}
+
+/**
+ * How a PR description refers to the issue: "#42" for an issue in the project's
+ * own repository (its origin remote), "acme/app#42" for one anywhere else.
+ */
+export async function getIssueReference(projectRoot: string, issue: FeatureIssue): Promise<string> {
+  const issueRepo = issue.url?.match(ISSUE_URL_PATTERN)?.[1];
+  if (!issueRepo) {
+    return `#${issue.number}`;
+  }
+
+  let originRepo: string | undefined;
+  try {
+    const { stdout } = await execa('git', ['remote', 'get-url', 'origin'], { stdio: 'pipe', cwd: projectRoot });
+    // git@github.com:acme/app.git, https://github.com/acme/app.git, ...
+    originRepo = stdout.trim().match(/[:/]([^/:]+\/[^/]+?)(?:\.git)?\/?$/)?.[1];
+  } catch {
+    // No origin - the qualified reference works from anywhere
+  }
+  return originRepo?.toLowerCase() === issueRepo.toLowerCase() ? `#${issue.number}` : `${issueRepo}#${issue.number}`;
+}
+
+/**
+ * "#42 Fix login timeout (https://github.com/acme/app/issues/42)" for tool output.
+ */
+export function formatIssue(issue: FeatureIssue): string {
+  return `#${issue.number}${issue.title ? ` ${issue.title}` : ''}${issue.url ? ` (${issue.url})` : ''}`;
+}
@@ -0,0 +1,115 @@
+import { execa } from 'execa';
+import { appendLogLine } from './agent-log.js';
+import { loadProjectConfig } from './project-config.js';
+import { killProcessGroupOnAbort, throwIfCancelled } from './tool-calls.js';
+
+export const HOOK_NAMES = ['postCreate', 'preAgentLaunch', 'postAgentExit', 'preRemove'] as const;
+
+export type HookName = typeof HOOK_NAMES[number];
+
+// Long enough for code generation or seeding a database, short enough that a hung hook surfaces
+const HOOK_TIMEOUT_MS = 10 * 60 * 1000;
+
+// How much of a failing hook's output goes into the error message (all of it is in the feature log)
+const ERROR_OUTPUT_LINES = 20;
+
+/**
+ * The feature a hook runs for, passed to it as environment variables.
+ */
+export interface HookContext {
+  featureName: string;
+  worktreePath: string;
+  branchName: string;
+  baseBranch: string;
+  featureFile?: string;
+  // postAgentExit only
+  agentExitCode?: number | null;
+  agentSignal?: string | null;
+}
+
+export interface HookRun {
+  hook: HookName;
+  command: string;
+  exitCode: number;
+  durationMs: number;
+  output: string;
+}
+
+/**
+ * Run the project's commands for a hook, in order, in the feature's worktree.
+ * Output goes to the feature log; the first failing command throws and stops the rest.
+ */
+export async function runHook(projectRoot: string, hook: HookName, context: HookContext, signal?: AbortSignal): Promise<HookRun[]> {
+  const commands = loadProjectConfig(projectRoot).hooks[hook] || [];
+  const runs: HookRun[] = [];
+
+  for (const command of commands) {
+    appendLogLine(projectRoot, context.featureName, 'hook', `Running ${hook}: ${command}`);
+    const startedAt = Date.now();
+    const subprocess = execa(command, {
+      shell: true,
+      cwd: context.worktreePath,
+      env: getHookEnv(projectRoot, hook, context),
+      all: true,
+      reject: false,
+      timeout: HOOK_TIMEOUT_MS,
+      detached: true,
+    });
+    const stopKilling = killProcessGroupOnAbort(subprocess.pid, signal);
+    const result = await subprocess.finally(stopKilling);
+
+    const output = result.all ?? '';
+    for (const line of output.split('\n').filter(Boolean)) {
+      appendLogLine(projectRoot, context.featureName, 'hook', line);
+    }
+
+    const run: HookRun = {
+      hook,
+      command,
+      exitCode: result.exitCode ?? -1,
+      durationMs: Date.now() - startedAt,
+      output,
+    };
+    runs.push(run);
+
+    throwIfCancelled(signal);
+    if (result.failed) {
+      const reason = result.timedOut ? `timed out after ${HOOK_TIMEOUT_MS / 1000}s` : `exited with code ${run.exitCode}`;
+      appendLogLine(projectRoot, context.featureName, 'hook', `${hook} failed: ${command} ${reason}`);
+      const tail = output.split('\n').slice(-ERROR_OUTPUT_LINES).join('\n');
+      throw new Error(`${hook} hook '${command}' ${reason}${tail ? `:\n${tail}` : ''}`);
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * One line per hook command for tool output, e.g. "postCreate: make generate ✅ (1.2s)".
+ */
+export function formatHookRuns(runs: HookRun[]): string {
+  return runs
+    .map(run => `${run.hook}: ${run.command} ${run.exitCode === 0 ? '✅' : '❌'} (${(run.durationMs / 1000).toFixed(1)}s)`)
+    .join('\n');
+}
+
+function getHookEnv(projectRoot: string, hook: HookName, context: HookContext): Record<string, string> {
+  const env: Record<string, string> = {
+    HOOK_NAME: hook,
+    PROJECT_ROOT: projectRoot,
+    FEATURE_NAME: context.featureName,
+    FEATURE_WORKTREE: context.worktreePath,
+    FEATURE_BRANCH: context.branchName,
+    FEATURE_BASE_BRANCH: context.baseBranch,
+  };
+  if (context.featureFile) {
+    env.FEATURE_FILE = context.featureFile;
+  }
+  if (context.agentExitCode !== undefined && context.agentExitCode !== null) {
+    env.AGENT_EXIT_CODE = String(context.agentExitCode);
+  }
+  if (context.agentSignal) {
+    env.AGENT_SIGNAL = context.agentSignal;
+  }
+  return env;
+}
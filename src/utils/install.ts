@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execa } from 'execa';
+import { appendLogLine } from './agent-log.js';
+import { killProcessGroupOnAbort, throwIfCancelled } from './tool-calls.js';
+
+export type Ecosystem = 'node' | 'python' | 'rust' | 'go' | 'custom';
+
+export interface InstallStep {
+  ecosystem: Ecosystem;
+  // Relative to the worktree, '.' for the root
+  directory: string;
+  command: string;
+  // The file that picked the command, e.g. "yarn.lock"
+  detectedFrom?: string;
+}
+
+export interface InstallStepResult extends InstallStep {
+  exitCode: number;
+  durationMs: number;
+  // Set when the step failed: the reason and the tail of its output
+  error?: string;
+}
+
+export interface InstallReport {
+  source: 'detected' | 'config';
+  steps: InstallStepResult[];
+  durationMs: number;
+  failed: number;
+}
+
+// Installs download the world; give up before an agent slot is held forever
+const INSTALL_TIMEOUT_MS = 15 * 60 * 1000;
+
+// How much of a failing step's output is reported (all of it is in the feature log)
+const ERROR_OUTPUT_LINES = 10;
+
+// Deep enough for apps/<name>/ and packages/<scope>/<name>/ layouts
+const MAX_SCAN_DEPTH = 3;
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'vendor', 'target', 'dist', 'build', 'venv', '__pycache__']);
+
+interface Detector {
+  file: string;
+  command: (directory: string) => string;
+}
+
+interface EcosystemRule {
+  ecosystem: Exclude<Ecosystem, 'custom'>;
+  // Checked in order; the first one present installs exactly what it pins
+  lockfiles: Detector[];
+  // Used without a lockfile, unless an enclosing directory already installs
+  // this ecosystem - workspace members are covered by the workspace root
+  manifests: Detector[];
+}
+
+const VENV = 'python3 -m venv .venv && .venv/bin/pip install';
+
+const ECOSYSTEM_RULES: EcosystemRule[] = [
+  {
+    ecosystem: 'node',
+    lockfiles: [
+      { file: 'pnpm-lock.yaml', command: () => 'pnpm install --frozen-lockfile' },
+      // Yarn 2+ (configured through .yarnrc.yml) renamed the flag
+      { file: 'yarn.lock', command: directory => fs.existsSync(path.join(directory, '.yarnrc.yml')) ? 'yarn install --immutable' : 'yarn install --frozen-lockfile' },
+      { file: 'bun.lockb', command: () => 'bun install --frozen-lockfile' },
+      { file: 'bun.lock', command: () => 'bun install --frozen-lockfile' },
+      { file: 'package-lock.json', command: () => 'npm ci' },
+      { file: 'npm-shrinkwrap.json', command: () => 'npm ci' },
+    ],
+    manifests: [
+      { file: 'package.json', command: directory => `${getPackageManager(directory)} install` },
+    ],
+  },
+  {
+    ecosystem: 'python',
+    lockfiles: [
+      { file: 'uv.lock', command: () => 'uv sync --frozen' },
+      { file: 'poetry.lock', command: () => 'poetry install --no-root' },
+    ],
+    manifests: [
+      { file: 'requirements.txt', command: () => `${VENV} -r requirements.txt` },
+      { file: 'pyproject.toml', command: () => `${VENV} -e .` },
+    ],
+  },
+  {
+    ecosystem: 'rust',
+    lockfiles: [
+      { file: 'Cargo.lock', command: () => 'cargo fetch --locked' },
+    ],
+    manifests: [
+      { file: 'Cargo.toml', command: () => 'cargo fetch' },
+    ],
+  },
+  {
+    ecosystem: 'go',
+    // Every module in a go.work workspace has its own go.sum
+    lockfiles: [
+      { file: 'go.sum', command: () => 'go mod download' },
+    ],
+    manifests: [
+      { file: 'go.mod', command: () => 'go mod download' },
+    ],
+  },
+];
+
+/**
+ * Work out how to install dependencies from the lockfiles and manifests in a
+ * checkout. Nested projects get their own step; workspace members are left to
+ * their workspace root.
+ */
+export function detectInstallSteps(rootPath: string): InstallStep[] {
+  const steps: InstallStep[] = [];
+
+  const scan = (directory: string, depth: number, installed: Set<Ecosystem>) => {
+    const files = new Set(fs.readdirSync(directory));
+    const relative = path.relative(rootPath, directory) || '.';
+    const covered = new Set(installed);
+
+    for (const rule of ECOSYSTEM_RULES) {
+      const detector = rule.lockfiles.find(({ file }) => files.has(file))
+        ?? (installed.has(rule.ecosystem) ? undefined : rule.manifests.find(({ file }) => files.has(file)));
+      if (detector) {
+        steps.push({ ecosystem: rule.ecosystem, directory: relative, command: detector.command(directory), detectedFrom: detector.file });
+        covered.add(rule.ecosystem);
+      }
+    }
+
+    if (depth >= MAX_SCAN_DEPTH) {
+      return;
+    }
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      if (entry.isDirectory() && !entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.has(entry.name)) {
+        scan(path.join(directory, entry.name), depth + 1, covered);
+      }
+    }
+  };
+
+  scan(rootPath, 0, new Set());
+  return steps;
+}
+
+/**
+ * Install a worktree's dependencies: the project's installCommands if it sets
+ * them, otherwise the detected steps. Every step runs, failures included, so
+ * the report is complete; output goes to the feature log. Aborting the signal
+ * kills the running step and throws.
+ */
+export async function installDependencies(
+  projectRoot: string,
+  featureName: string,
+  worktreePath: string,
+  installCommands?: string[],
+  signal?: AbortSignal
+): Promise<InstallReport> {
+  const steps: InstallStep[] = installCommands
+    ? installCommands.map(command => ({ ecosystem: 'custom', directory: '.', command }))
+    : detectInstallSteps(worktreePath);
+  const report: InstallReport = { source: installCommands ? 'config' : 'detected', steps: [], durationMs: 0, failed: 0 };
+  const startedAt = Date.now();
+
+  for (const step of steps) {
+    appendLogLine(projectRoot, featureName, 'install', `Running in ${step.directory}: ${step.command}`);
+    const stepStartedAt = Date.now();
+    const subprocess = execa(step.command, {
+      shell: true,
+      cwd: path.join(worktreePath, step.directory),
+      all: true,
+      reject: false,
+      timeout: INSTALL_TIMEOUT_MS,
+      detached: true,
+    });
+    const stopKilling = killProcessGroupOnAbort(subprocess.pid, signal);
+    const result = await subprocess.finally(stopKilling);
+
+    const output = result.all ?? '';
+    for (const line of output.split('\n').filter(Boolean)) {
+      appendLogLine(projectRoot, featureName, 'install', line);
+    }
+
+    const stepResult: InstallStepResult = { ...step, exitCode: result.exitCode ?? -1, durationMs: Date.now() - stepStartedAt };
+    if (result.failed) {
+      const reason = signal?.aborted ? 'cancelled'
+        : result.timedOut ? `timed out after ${INSTALL_TIMEOUT_MS / 1000}s`
+        : `exited with code ${stepResult.exitCode}`;
+      const tail = output.split('\n').filter(Boolean).slice(-ERROR_OUTPUT_LINES).join('\n');
+      stepResult.error = `${reason}${tail ? `:\n${tail}` : ''}`;
+      appendLogLine(projectRoot, featureName, 'install', `Failed: ${step.command} ${reason}`);
+      report.failed++;
+    }
+    report.steps.push(stepResult);
+    throwIfCancelled(signal);
+  }
+
+  report.durationMs = Date.now() - startedAt;
+  return report;
+}
+
+/**
+ * Tool output for an install, e.g. "✅ pnpm install --frozen-lockfile (12.3s)".
+ */
+export function formatInstallReport(report: InstallReport): string {
+  if (report.steps.length === 0) {
+    return report.source === 'config' ? 'skipped (installCommands is empty)' : 'nothing to install';
+  }
+
+  const lines = report.steps.map(step => {
+    const location = step.directory === '.' ? '' : ` in ${step.directory}`;
+    const line = `${step.error ? '❌' : '✅'} ${step.command}${location} (${(step.durationMs / 1000).toFixed(1)}s)`;
+    return step.error ? `${line} - ${step.error.split('\n')[0]}` : line;
+  });
+  const total = `${report.failed > 0 ? `${report.failed} of ${report.steps.length} failed` : 'done'} in ${(report.durationMs / 1000).toFixed(1)}s`;
+  return `${total}\n${lines.map(line => `   ${line}`).join('\n')}`;
+}
+
+// package.json's "packageManager" field (e.g. "pnpm@9.1.0") wins over plain npm
+function getPackageManager(directory: string): string {
+  try {
+    const { packageManager } = JSON.parse(fs.readFileSync(path.join(directory, 'package.json'), 'utf-8'));
+    const name = typeof packageManager === 'string' ? packageManager.split('@')[0] : '';
+    return ['pnpm', 'yarn', 'bun'].includes(name) ? name : 'npm';
+  } catch {
+    return 'npm';
+  }
+}
@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import simpleGit from 'simple-git';
+
+export const LOCAL_FILE_MODES = ['copy', 'symlink'] as const;
+
+export type LocalFileMode = typeof LOCAL_FILE_MODES[number];
+
+/**
+ * A file git doesn't check out (.env, local certificates, ...) that new
+ * worktrees need. `*` in a path matches within one path segment.
+ */
+export interface LocalFileEntry {
+  path: string;
+  mode: LocalFileMode;
+}
+
+export interface LocalFileResult {
+  path: string;
+  mode: LocalFileMode;
+  status: 'copied' | 'linked' | 'skipped';
+  reason?: string;
+}
+
+/**
+ * Bring the project's local files into a new worktree. Anything git tracks is
+ * skipped - the worktree already has the base branch's version - and existing
+ * files are never overwritten. Entries that match nothing are left out.
+ */
+export async function syncLocalFiles(projectRoot: string, worktreePath: string, entries: LocalFileEntry[]): Promise<LocalFileResult[]> {
+  const matches = entries.flatMap(entry => expandPattern(projectRoot, entry.path).map(file => ({ path: file, mode: entry.mode })));
+  if (matches.length === 0) {
+    return [];
+  }
+
+  const tracked = new Set((await simpleGit(projectRoot).raw(['ls-files', '--', ...matches.map(match => match.path)]))
+    .split('\n')
+    .filter(Boolean));
+
+  const results: LocalFileResult[] = [];
+  const seen = new Set<string>();
+  for (const match of matches) {
+    if (seen.has(match.path)) {
+      continue;
+    }
+    seen.add(match.path);
+
+    const source = path.join(projectRoot, match.path);
+    const target = path.join(worktreePath, match.path);
+    const result: LocalFileResult = { ...match, status: 'skipped' };
+    results.push(result);
+
+    if (tracked.has(match.path)) {
+      result.reason = 'tracked by git';
+    } else if (fs.existsSync(target)) {
+      // Also covers directories git checked out part of
+      result.reason = 'already exists in the worktree';
+    } else {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      if (match.mode === 'symlink') {
+        fs.symlinkSync(source, target);
+        result.status = 'linked';
+      } else {
+        fs.cpSync(source, target, { recursive: true });
+        result.status = 'copied';
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * One entry per result for tool output, e.g. ".env (copied), certs (linked)".
+ */
+export function formatLocalFiles(results: LocalFileResult[]): string {
+  return results
+    .map(result => `${result.path} (${result.status}${result.reason ? `: ${result.reason}` : ''})`)
+    .join(', ');
+}
+
+// Existing paths under root matching a relative pattern, segment by segment
+function expandPattern(root: string, pattern: string): string[] {
+  let candidates = [''];
+  for (const segment of pattern.split('/').filter(Boolean)) {
+    const regex = segment.includes('*')
+      ? new RegExp(`^${segment.replace(/[.+^${}()|[\]\\?]/g, '\\$&').replace(/\*/g, '.*')}$`)
+      : undefined;
+
+    candidates = candidates.flatMap(candidate => {
+      const directory = path.join(root, candidate);
+      if (!regex) {
+        return fs.existsSync(path.join(directory, segment)) ? [path.posix.join(candidate, segment)] : [];
+      }
+      if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+        return [];
+      }
+      return fs.readdirSync(directory)
+        .filter(name => regex.test(name))
+        .sort()
+        .map(name => path.posix.join(candidate, name));
+    });
+  }
+  return candidates.filter(Boolean);
+}
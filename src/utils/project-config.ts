@@ -0,0 +1,335 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FORGE_NAMES, ForgeName } from './forge.js';
+import { HOOK_NAMES, HookName } from './hooks.js';
+import { LOCAL_FILE_MODES, LocalFileEntry, LocalFileMode } from './local-files.js';
+import type { RetryPolicy } from './retry.js';
+import type { SpecLintConfig } from './spec-lint.js';
+import type { BudgetConfig, UsageBudget } from './usage.js';
+import { VERIFY_GATES, VerifyConfig, VerifyGate } from './verify.js';
+import { asObject, asPositiveNumber, asString, asStringList, checkKeys } from './validation.js';
+
+export const PROJECT_CONFIG_FILE = '.worktree-agent.json';
+
+/**
+ * Project-wide defaults from .worktree-agent.json. Spec frontmatter and tool
+ * arguments take precedence over these.
+ */
+export interface ProjectConfig {
+  // Where worktrees (and the server's state) live, relative to the project root
+  worktreesDir: string;
+  branchPrefix: string;
+  baseBranch: string;
+  // Untracked or gitignored files (.env, certificates, ...) copied or symlinked into new worktrees
+  localFiles: LocalFileEntry[];
+  // Replaces lockfile detection: run in order in the worktree root; an empty list skips installing
+  installCommands?: string[];
+  // Overrides forge detection (the FORGE env var still wins)
+  forge?: ForgeName;
+  // Background agents running at once before launches queue (the MAX_CONCURRENT_AGENTS env var still wins)
+  maxConcurrentAgents: number;
+  // Prompt template overrides (start.md, revision.md, ...), relative to the project root
+  promptsDir: string;
+  // Shell commands run in the worktree at points in a feature's life
+  hooks: Partial<Record<HookName, string[]>>;
+  // What feature_spec_lint (and feature_start's pre-check) expects of a spec
+  specLint: SpecLintConfig;
+  // Test, lint, typecheck and build commands checked by feature_verify
+  verify: VerifyConfig;
+  // Token and cost limits for each feature and for all of them together
+  budget: BudgetConfig;
+}
+
+// verify.retry without backoff settings: 1 minute, then 2, 4, ...
+const DEFAULT_RETRY_BACKOFF_SECONDS = 60;
+const DEFAULT_RETRY_BACKOFF_MULTIPLIER = 2;
+
+export const DEFAULT_PROJECT_CONFIG: ProjectConfig = {
+  worktreesDir: '.worktrees',
+  branchPrefix: 'feature/',
+  baseBranch: 'main',
+  localFiles: [
+    { path: '.env', mode: 'copy' },
+    { path: '.env.*', mode: 'copy' },
+  ],
+  maxConcurrentAgents: 3,
+  promptsDir: '.worktree-agent/prompts',
+  hooks: {},
+  specLint: {
+    requiredSections: ['Summary|Description|Overview', 'Acceptance Criteria|Definition of Done', 'Out of Scope|Non-Goals'],
+    maxWords: 1500,
+    maxTasks: 25,
+  },
+  verify: {
+    commands: {},
+    afterAgentExit: true,
+    requiredForPullRequest: false,
+  },
+  budget: {
+    feature: {},
+    total: {},
+  },
+};
+
+// Settings that no longer do anything: ignored, with a verify_setup warning, rather than failing every tool
+const RETIRED_SETTINGS: Record<string, string> = {
+  filesToCopy: `'filesToCopy' is ignored - it was replaced by 'localFiles', and git already checks out tracked files, so list only untracked or gitignored ones there`,
+};
+
+export function getProjectConfigPath(projectRoot: string): string {
+  return path.join(projectRoot, PROJECT_CONFIG_FILE);
+}
+
+// Parsed configs (or why they're invalid) by project root, reread once the file changes
+const configCache = new Map<string, { stamp: string; config?: ProjectConfig; error?: Error }>();
+
+/**
+ * The project's configuration, merged over the defaults. Cached until the file's
+ * mtime or size changes, so edits apply without restarting the server.
+ */
+export function loadProjectConfig(projectRoot: string): ProjectConfig {
+  const configPath = getProjectConfigPath(projectRoot);
+  if (!fs.existsSync(configPath)) {
+    configCache.delete(projectRoot);
+    return DEFAULT_PROJECT_CONFIG;
+  }
+
+  const stats = fs.statSync(configPath);
+  const stamp = `${stats.mtimeMs}:${stats.size}`;
+  let cached = configCache.get(projectRoot);
+  if (cached?.stamp !== stamp) {
+    try {
+      cached = { stamp, config: parseProjectConfig(fs.readFileSync(configPath, 'utf-8')) };
+    } catch (error) {
+      cached = { stamp, error: error instanceof Error ? error : new Error(String(error)) };
+    }
+    configCache.set(projectRoot, cached);
+  }
+
+  if (cached.error) {
+    throw cached.error;
+  }
+  return cached.config!;
+}
+
+function parseProjectConfig(content: string): ProjectConfig {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${errorMessage}`);
+  }
+
+  return { ...DEFAULT_PROJECT_CONFIG, ...validateProjectConfig(data) };
+}
+
+/**
+ * Why each retired setting in the project's config is ignored, for verify_setup.
+ */
+export function getIgnoredSettings(projectRoot: string): string[] {
+  const configPath = getProjectConfigPath(projectRoot);
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch {
+    // Missing or invalid - loadProjectConfig reports that
+    return [];
+  }
+  const config = typeof data === 'object' && data !== null ? data : {};
+  return Object.keys(RETIRED_SETTINGS).filter(key => key in config).map(key => RETIRED_SETTINGS[key]);
+}
+
+function validateProjectConfig(data: unknown): Partial<ProjectConfig> {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid ${PROJECT_CONFIG_FILE}: ${message}`);
+  };
+
+  const config = asObject(data, PROJECT_CONFIG_FILE, fail);
+  checkKeys(config, ['worktreesDir', 'branchPrefix', 'baseBranch', 'localFiles', 'installCommands', 'forge', 'maxConcurrentAgents', 'promptsDir', 'hooks', 'specLint', 'verify', 'budget', ...Object.keys(RETIRED_SETTINGS)], '', fail);
+
+  const worktreesDir = asString(config.worktreesDir, 'worktreesDir', fail);
+  if (worktreesDir !== undefined && path.resolve('/project', worktreesDir) === path.resolve('/project')) {
+    fail(`'worktreesDir' can't be the project root itself`);
+  }
+
+  const forge = asString(config.forge, 'forge', fail);
+  if (forge !== undefined && !FORGE_NAMES.includes(forge as ForgeName)) {
+    fail(`'forge' must be one of: ${FORGE_NAMES.join(', ')} (got '${forge}')`);
+  }
+
+  const maxConcurrentAgents = asPositiveNumber(config.maxConcurrentAgents, 'maxConcurrentAgents', fail);
+  if (maxConcurrentAgents !== undefined && !Number.isInteger(maxConcurrentAgents)) {
+    fail(`'maxConcurrentAgents' must be a whole number`);
+  }
+
+  const settings: Partial<ProjectConfig> = {
+    worktreesDir,
+    branchPrefix: asString(config.branchPrefix, 'branchPrefix', fail),
+    baseBranch: asString(config.baseBranch, 'baseBranch', fail),
+    localFiles: validateLocalFiles(config.localFiles, fail),
+    installCommands: asStringList(config.installCommands, 'installCommands', fail),
+    forge: forge as ForgeName | undefined,
+    maxConcurrentAgents,
+    promptsDir: asString(config.promptsDir, 'promptsDir', fail),
+    hooks: validateHooks(config.hooks, fail),
+    specLint: validateSpecLint(config.specLint, fail),
+    verify: validateVerify(config.verify, fail),
+    budget: validateBudget(config.budget, fail),
+  };
+
+  // Unset keys keep their defaults
+  return Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined));
+}
+
+// "path" copies; { "path": ..., "mode": "symlink" } links
+function validateLocalFiles(value: unknown, fail: (message: string) => never): LocalFileEntry[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    return fail(`'localFiles' must be a list of paths or { "path", "mode" } entries`);
+  }
+
+  return value.map((item, index) => {
+    const key = `localFiles[${index}]`;
+    const entry = typeof item === 'string' ? { path: item } : asObject(item, key, fail);
+    checkKeys(entry, ['path', 'mode'], `${key}.`, fail);
+
+    const entryPath = asString(entry.path, `${key}.path`, fail) ?? fail(`'${key}.path' is required`);
+    if (path.isAbsolute(entryPath) || entryPath.split('/').includes('..')) {
+      fail(`'${key}.path' must be relative to the project root (got '${entryPath}')`);
+    }
+    const mode = asString(entry.mode, `${key}.mode`, fail) ?? 'copy';
+    if (!LOCAL_FILE_MODES.includes(mode as LocalFileMode)) {
+      fail(`'${key}.mode' must be one of: ${LOCAL_FILE_MODES.join(', ')} (got '${mode}')`);
+    }
+    return { path: entryPath, mode: mode as LocalFileMode };
+  });
+}
+
+function validateHooks(value: unknown, fail: (message: string) => never): ProjectConfig['hooks'] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const hooks = asObject(value, 'hooks', fail);
+  checkKeys(hooks, [...HOOK_NAMES], 'hooks.', fail);
+  return Object.fromEntries(HOOK_NAMES
+    .map(hook => [hook, asStringList(hooks[hook], `hooks.${hook}`, fail)])
+    .filter(([, commands]) => commands !== undefined));
+}
+
+// Unset keys keep their defaults; an empty requiredSections turns the section check off
+function validateSpecLint(value: unknown, fail: (message: string) => never): SpecLintConfig | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const specLint = asObject(value, 'specLint', fail);
+  checkKeys(specLint, ['requiredSections', 'maxWords', 'maxTasks'], 'specLint.', fail);
+
+  const asLimit = (key: 'maxWords' | 'maxTasks'): number => {
+    const limit = specLint[key];
+    if (limit === undefined || limit === null) {
+      return DEFAULT_PROJECT_CONFIG.specLint[key];
+    }
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1) {
+      return fail(`'specLint.${key}' must be a positive whole number`);
+    }
+    return limit;
+  };
+
+  return {
+    requiredSections: asStringList(specLint.requiredSections, 'specLint.requiredSections', fail) ?? DEFAULT_PROJECT_CONFIG.specLint.requiredSections,
+    maxWords: asLimit('maxWords'),
+    maxTasks: asLimit('maxTasks'),
+  };
+}
+
+// Unset keys keep their defaults; gates without a command are skipped
+function validateVerify(value: unknown, fail: (message: string) => never): VerifyConfig | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const verify = asObject(value, 'verify', fail);
+  checkKeys(verify, ['commands', 'afterAgentExit', 'requiredForPullRequest', 'retry'], 'verify.', fail);
+
+  const commands = verify.commands === undefined || verify.commands === null ? {} : asObject(verify.commands, 'verify.commands', fail);
+  checkKeys(commands, [...VERIFY_GATES], 'verify.commands.', fail);
+
+  const asFlag = (key: 'afterAgentExit' | 'requiredForPullRequest'): boolean => {
+    const flag = verify[key];
+    if (flag === undefined || flag === null) {
+      return DEFAULT_PROJECT_CONFIG.verify[key];
+    }
+    if (typeof flag !== 'boolean') {
+      return fail(`'verify.${key}' must be true or false`);
+    }
+    return flag;
+  };
+
+  const settings: VerifyConfig = {
+    commands: Object.fromEntries(VERIFY_GATES
+      .map(gate => [gate, asString(commands[gate], `verify.commands.${gate}`, fail)])
+      .filter(([, command]) => command)) as Partial<Record<VerifyGate, string>>,
+    afterAgentExit: asFlag('afterAgentExit'),
+    requiredForPullRequest: asFlag('requiredForPullRequest'),
+    retry: validateRetry(verify.retry, fail),
+  };
+  if (settings.requiredForPullRequest && Object.keys(settings.commands).length === 0) {
+    fail(`'verify.requiredForPullRequest' needs at least one command in 'verify.commands'`);
+  }
+  if (settings.retry && (Object.keys(settings.commands).length === 0 || !settings.afterAgentExit)) {
+    fail(`'verify.retry' needs at least one command in 'verify.commands' and 'verify.afterAgentExit' left on`);
+  }
+  return settings;
+}
+
+// Opt-in: without a retry section failed verification is only reported
+function validateRetry(value: unknown, fail: (message: string) => never): RetryPolicy | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const retry = asObject(value, 'verify.retry', fail);
+  checkKeys(retry, ['maxAttempts', 'backoffSeconds', 'backoffMultiplier'], 'verify.retry.', fail);
+
+  // No fallback means the setting is required
+  const asNumber = (key: keyof RetryPolicy, min: number, integer: boolean, fallback?: number): number => {
+    const number = retry[key];
+    if (number === undefined || number === null) {
+      return fallback ?? fail(`'verify.retry.${key}' is required`);
+    }
+    if (typeof number !== 'number' || number < min || (integer && !Number.isInteger(number))) {
+      return fail(`'verify.retry.${key}' must be ${integer ? 'a whole number' : 'a number'} of at least ${min}`);
+    }
+    return number;
+  };
+
+  return {
+    maxAttempts: asNumber('maxAttempts', 1, true),
+    backoffSeconds: asNumber('backoffSeconds', 0, false, DEFAULT_RETRY_BACKOFF_SECONDS),
+    backoffMultiplier: asNumber('backoffMultiplier', 1, false, DEFAULT_RETRY_BACKOFF_MULTIPLIER),
+  };
+}
+
+// Unset limits don't apply
+function validateBudget(value: unknown, fail: (message: string) => never): BudgetConfig | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const budget = asObject(value, 'budget', fail);
+  checkKeys(budget, ['feature', 'total'], 'budget.', fail);
+
+  const asLimits = (key: keyof BudgetConfig): UsageBudget => {
+    if (budget[key] === undefined || budget[key] === null) {
+      return {};
+    }
+    const limits = asObject(budget[key], `budget.${key}`, fail);
+    checkKeys(limits, ['maxTokens', 'maxCostUsd'], `budget.${key}.`, fail);
+    return {
+      maxTokens: asPositiveNumber(limits.maxTokens, `budget.${key}.maxTokens`, fail),
+      maxCostUsd: asPositiveNumber(limits.maxCostUsd, `budget.${key}.maxCostUsd`, fail),
+    };
+  };
+
+  return { feature: asLimits('feature'), total: asLimits('total') };
+}
@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * A repository registered with project_add, so tools can target it by name.
+ */
+export interface RegisteredProject {
+  name: string;
+  projectRoot: string;
+  addedAt: string;
+}
+
+interface ProjectList {
+  version: 1;
+  projects: Record<string, RegisteredProject>;
+}
+
+const PROJECT_NAME_PATTERN = /^[A-Za-z0-9][\w.-]*$/;
+
+/**
+ * Server-wide state lives outside any one project: WORKTREE_AGENT_HOME, or
+ * ~/.claude-worktree-agent.
+ */
+export function getAgentHome(): string {
+  return process.env.WORKTREE_AGENT_HOME || path.join(os.homedir(), '.claude-worktree-agent');
+}
+
+export function getProjectsPath(): string {
+  return path.join(getAgentHome(), 'projects.json');
+}
+
+function loadProjectList(): ProjectList {
+  const projectsPath = getProjectsPath();
+  if (!fs.existsSync(projectsPath)) {
+    return { version: 1, projects: {} };
+  }
+
+  try {
+    const list = JSON.parse(fs.readFileSync(projectsPath, 'utf-8'));
+    return { version: 1, projects: list.projects || {} };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Project list at '${projectsPath}' is corrupt: ${errorMessage}`);
+  }
+}
+
+function writeProjectList(list: ProjectList): void {
+  const projectsPath = getProjectsPath();
+  fs.mkdirSync(path.dirname(projectsPath), { recursive: true });
+  const tempPath = `${projectsPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(list, null, 2) + '\n');
+  fs.renameSync(tempPath, projectsPath);
+}
+
+export function listProjects(): RegisteredProject[] {
+  return Object.values(loadProjectList().projects).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Register a project under a name. Re-adding the same name and path is a no-op.
+ */
+export function addProject(name: string, projectRoot: string): RegisteredProject {
+  if (!PROJECT_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid project name '${name}' (use letters, digits, '.', '_' and '-')`);
+  }
+
+  const list = loadProjectList();
+  const existing = list.projects[name];
+  if (existing && existing.projectRoot !== projectRoot) {
+    throw new Error(`Project '${name}' is already registered for '${existing.projectRoot}'`);
+  }
+  const sameRoot = Object.values(list.projects).find(project => project.projectRoot === projectRoot && project.name !== name);
+  if (sameRoot) {
+    throw new Error(`'${projectRoot}' is already registered as '${sameRoot.name}'`);
+  }
+  if (existing) {
+    return existing;
+  }
+
+  const project: RegisteredProject = { name, projectRoot, addedAt: new Date().toISOString() };
+  list.projects[name] = project;
+  writeProjectList(list);
+  return project;
+}
+
+/**
+ * The repository a tool call works on: the projectRoot argument (a registered
+ * name or an absolute path), else the PROJECT_ROOT environment variable.
+ */
+export function resolveProjectRoot(projectRoot?: string): string {
+  if (projectRoot) {
+    const registered = loadProjectList().projects[projectRoot];
+    if (registered) {
+      return registered.projectRoot;
+    }
+    if (!path.isAbsolute(projectRoot)) {
+      const names = listProjects().map(project => project.name);
+      throw new Error(`Unknown project '${projectRoot}' - pass an absolute path${names.length > 0 ? ` or one of: ${names.join(', ')}` : ' or register it with project_add'}`);
+    }
+    if (!fs.existsSync(projectRoot)) {
+      throw new Error(`Project root '${projectRoot}' does not exist`);
+    }
+    return path.resolve(projectRoot);
+  }
+
+  // Single-project MCP configurations set PROJECT_ROOT
+  const envRoot = process.env.PROJECT_ROOT;
+  if (!envRoot) {
+    throw new Error('PROJECT_ROOT environment variable not set and no projectRoot given. Pass projectRoot (a path, or a name registered with project_add), or add "env": {"PROJECT_ROOT": "/path/to/your/project"} to your MCP configuration.');
+  }
+  return envRoot;
+}
+
+/**
+ * Every project the server knows about: the registered ones plus PROJECT_ROOT
+ * (named "default" unless it's registered too).
+ */
+export function listKnownProjects(): Array<{ name: string; projectRoot: string }> {
+  const projects: Array<{ name: string; projectRoot: string }> = listProjects();
+  const envRoot = process.env.PROJECT_ROOT && path.resolve(process.env.PROJECT_ROOT);
+  if (envRoot && !projects.some(project => project.projectRoot === envRoot)) {
+    projects.unshift({ name: 'default', projectRoot: envRoot });
+  }
+  return projects;
+}
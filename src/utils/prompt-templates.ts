@@ -0,0 +1,392 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadProjectConfig } from './project-config.js';
+
+export type PromptTemplateName = 'start' | 'revision' | 'revision-analysis' | 'revision-prompt' | 'retry' | 'issue';
+
+export type TemplateVariables = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Built-in prompts. A project overrides one by adding <promptsDir>/<name>.md.
+ *
+ * Templates use {{variable}}, {{#if variable}}...{{else}}...{{/if}} and
+ * {{#unless variable}}...{{/unless}}. Empty strings, 0, false and unset
+ * variables are false.
+ */
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateName, string> = {
+  // Instructions for feature_start's agent
+  start: `I need you to implement the feature described in FEATURE.md.
+
+This is an isolated development environment:
+- You're in a git worktree: {{worktreePath}}
+- Working on branch: {{branchName}}
+- Base branch: {{baseBranch}}
+
+Your task:
+1. **Read FEATURE.md carefully** - understand all requirements and acceptance criteria
+2. **Analyze the existing codebase** - understand the project structure and patterns
+3. **Implement the feature** following existing conventions and best practices
+4. **Write tests** if the project has a testing setup
+5. **Commit your work** with clear, descriptive commit messages
+{{#if createCommand}}
+6. **Create a {{requestName}}** when ready: \`{{createCommand}}\`
+{{else}}
+{{#if verifyOpensRequest}}
+6. **Leave your commits on {{branchName}}** when ready - don't push or open a {{requestName}}; one is opened for you once the checks below pass
+{{else}}
+6. **Leave your commits on {{branchName}}** when ready - it will be reviewed and merged into {{baseBranch}} locally
+{{/if}}
+{{/if}}
+{{#if verifyCommands}}
+
+These checks are run in the worktree after you finish, so make sure they pass:
+{{verifyCommands}}
+{{/if}}
+{{#if issueNumber}}
+
+This feature resolves issue #{{issueNumber}} ({{issueUrl}}).{{#if createCommand}} Put \`Closes {{issueReference}}\` on its own line in the {{requestName}} description so merging it closes the issue.{{/if}}
+{{/if}}
+
+Important guidelines:
+- Follow the existing code style and patterns
+- Add proper error handling and validation
+- Include TypeScript types if this is a TypeScript project
+- Update documentation if needed
+- Test your implementation thoroughly
+
+Work autonomously and systematically. The feature specification in FEATURE.md is your primary guide.`,
+
+  // The analysis section of REVISION.md
+  'revision-analysis': `## 🤖 Smart Comment Analysis Instructions
+
+⚠️ **Important**: Inline review threads are already sorted - address every thread under **Action Items**; resolved and outdated threads are listed for context only. The other {{requestLabel}} comments and reviews may include both addressed and unaddressed feedback. You need to intelligently analyze which of those require action:
+
+### Analysis Process:
+1. **Review Recent Commits**: Examine the git history to understand what changes have been made since comments were posted
+2. **Cross-Reference Comments**: For each piece of feedback, check if the concern has been addressed in recent commits
+3. **Evaluate Current Code**: Look at the current state of mentioned files/functions vs. what comments reference
+4. **Focus on Unaddressed**: Only implement changes for feedback that hasn't been properly resolved
+
+### Decision Guidelines:
+- ✅ **Skip if**: Comment references code that has been significantly modified/improved since the comment
+- ✅ **Skip if**: The suggested change has already been implemented (even if done differently)
+- ✅ **Skip if**: Code has been refactored and the concern is no longer relevant
+- ⚠️ **Address if**: No evidence the feedback has been handled
+- ⚠️ **Address if**: The change was attempted but doesn't fully resolve the concern
+
+### Documentation Requirements:
+- **Document your analysis**: In commit messages, note which comments you addressed vs. which were already resolved
+- **Be explicit**: Use commit messages like "fix: implement error handling from comment #3, note: auth feedback from comment #1 already addressed in commit abc123"
+- **Reference specifics**: Mention comment numbers, file names, and brief reasoning
+
+### When In Doubt:
+- Err on the side of addressing feedback rather than skipping it
+- If a comment seems partially addressed, complete the implementation
+- Focus on the intent behind feedback, not just literal suggestions
+
+Work intelligently and systematically through the feedback, documenting your analysis decisions clearly.`,
+
+  // REVISION.md
+  revision: `# Feature Revision Instructions
+
+{{prInfo}}
+
+{{#if userContext}}
+## Additional Context
+
+{{userContext}}
+
+{{/if}}
+{{#if prFeedback}}
+## All {{requestLabel}} Feedback (Requires Analysis)
+
+{{prFeedback}}
+
+{{#if revisionInstructions}}
+## Additional Manual Instructions
+
+{{revisionInstructions}}
+
+{{/if}}
+{{else}}
+## Revision Requirements
+
+{{revisionInstructions}}
+
+{{/if}}
+{{analysisInstructions}}
+
+{{#if specUpdated}}
+## Updated Feature Specification
+\`\`\`markdown
+{{featureSpec}}
+\`\`\`
+
+## Changes to the Specification
+\`\`\`diff
+{{specDiff}}
+\`\`\`
+
+## Original Feature Specification (from worktree)
+\`\`\`markdown
+{{originalSpec}}
+\`\`\`
+
+⚠️ **Note**: The feature specification has been updated since development started. Consider these changes in your revision analysis.
+{{else}}
+## Feature Specification
+\`\`\`markdown
+{{featureSpec}}
+\`\`\`
+{{/if}}
+
+## Current Implementation Status
+
+### Git Status
+- **Branch:** {{branchName}}
+- **Files changed:** {{filesChanged}}
+- **Commits ahead of {{baseBranch}}:** {{commitsAhead}}
+
+### Recent Commits
+{{recentCommits}}
+
+### Changes Summary
+\`\`\`
+{{changesSummary}}
+\`\`\`
+
+## Completion Guidelines
+
+1. **Analyze Intelligently**: Use the analysis process above to determine what needs attention
+2. **Implement Systematically**: Address unresolved feedback methodically
+3. **Test Thoroughly**: Ensure all changes work and don't break existing features
+4. **Document Clearly**: Explain your analysis and decisions in commit messages
+{{#if isLocal}}
+5. **Commit Everything**: Leave all work committed on the branch when complete
+{{else}}
+5. **Update {{requestLabel}}**: Push changes and add summary comment when complete
+{{/if}}
+
+## When Complete
+1. Make clear commits with analysis documentation: \`git commit -m "fix: address review feedback on error handling (comments #2, #4); note: performance feedback #1 already addressed in commit def456"\`
+{{#if isLocal}}
+2. Leave your commits on \`{{branchName}}\` - it will be merged into {{baseBranch}} locally
+{{else}}
+2. Push changes: \`git push origin {{branchName}}\`
+{{#if hasPR}}
+3. Add a summary comment to the {{requestLabel}}: \`{{commentCommand}}\`
+{{else}}
+{{#if createCommand}}
+3. Create {{requestLabel}}: \`{{createCommand}}\`
+{{else}}
+3. Stop there - the {{requestLabel}} is opened for you once the project's verify checks pass
+{{/if}}
+{{/if}}
+{{/if}}
+
+Work systematically and intelligently. Your analysis and reasoning are key to effective revision management.
+`,
+
+  // Instructions for feature_revision's agent
+  'revision-prompt': `I need you to intelligently apply revisions to an existing feature implementation.
+
+Please carefully read REVISION.md which contains:
+{{#if hasPR}}
+- ALL {{requestLabel}} comments and review feedback from {{forgeName}} (both resolved and unresolved)
+{{else}}
+- Specific revision requirements
+{{/if}}
+- Smart analysis instructions for determining what needs attention vs. what's already been addressed
+{{#if specUpdated}}
+- Updated feature requirements (specification has changed since development started)
+{{else}}
+- Current feature requirements and implementation status
+{{/if}}
+{{#if userContext}}
+- Additional context and requirements
+{{/if}}
+
+Your task is to:
+1. **Analyze the feedback intelligently** - determine what has already been addressed vs. what needs work
+2. **Consider any feature spec updates** - the requirements may have evolved since development started
+3. **Implement only necessary changes** - focus on unaddressed feedback and updated requirements
+4. **Document your analysis** - explain your decisions in commit messages
+5. **Work systematically** - handle each piece of feedback methodically
+
+{{#if hasPR}}
+Use your AI reasoning to distinguish between feedback that has been resolved and feedback that still needs attention.
+{{else}}
+Follow the provided revision requirements carefully.
+{{/if}}
+
+Document your analysis process clearly in your commit messages so the reasoning is transparent.`,
+
+  // Instructions for a retry after verification failed (verify.retry)
+  retry: `The project's verify checks failed after the last attempt at the feature described in FEATURE.md. This is attempt {{attempt}} of {{maxAttempts}}.
+
+You're in the same git worktree as before: {{worktreePath}}
+- Working on branch: {{branchName}}
+- Base branch: {{baseBranch}}
+
+## Failing Checks
+{{failures}}
+
+## Changes Since the Previous Attempt
+{{#if diff}}
+{{#if commits}}
+{{commits}}
+
+{{/if}}
+\`\`\`diff
+{{diff}}
+\`\`\`
+{{else}}
+The previous attempt changed nothing.
+{{/if}}
+
+Your task:
+1. **Find the cause** of each failure above - read the output before changing code
+2. **Fix the code**, not the checks - don't skip, delete or loosen tests, lint rules or type checks
+3. **Run every failing command again** and make sure it passes before you finish
+4. **Commit your fixes** with clear, descriptive commit messages
+{{#if isLocal}}
+5. **Leave your commits on {{branchName}}** - it will be reviewed and merged into {{baseBranch}} locally
+{{else}}
+{{#if createCommand}}
+5. **Push your commits**: \`git push origin {{branchName}}\`, then create a {{requestLabel}} if there isn't one yet: \`{{createCommand}}\`
+{{else}}
+5. **Leave your commits on {{branchName}}** - don't push or open a {{requestLabel}}; one is opened for you once the checks pass
+{{/if}}
+{{/if}}
+
+The checks are run again when you exit.`,
+
+  // FEATURE.md for feature_start_from_issue
+  issue: `# {{issueTitle}}
+
+From issue [#{{issueNumber}}]({{issueUrl}}){{#if issueLabels}} (labels: {{issueLabels}}){{/if}}.
+
+## Summary
+{{#if issueBody}}
+{{issueBody}}
+{{else}}
+{{issueTitle}} (the issue has no description beyond its title - see {{issueUrl}})
+{{/if}}
+
+## Acceptance Criteria
+- [ ] Everything issue #{{issueNumber}} asks for works as described
+- [ ] Tests cover the change
+
+## Out of Scope
+- Anything issue #{{issueNumber}} doesn't ask for
+{{#if issueComments}}
+
+## Discussion
+{{issueComments}}
+{{/if}}
+`,
+};
+
+export const PROMPT_TEMPLATE_NAMES = Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateName[];
+
+export function getPromptTemplatePath(projectRoot: string, name: PromptTemplateName): string {
+  return path.join(path.resolve(projectRoot, loadProjectConfig(projectRoot).promptsDir), `${name}.md`);
+}
+
+/**
+ * Render a prompt from the project's template file, or the built-in default.
+ */
+export function renderPromptTemplate(projectRoot: string, name: PromptTemplateName, variables: TemplateVariables): string {
+  const templatePath = getPromptTemplatePath(projectRoot, name);
+  if (!fs.existsSync(templatePath)) {
+    return renderTemplate(DEFAULT_PROMPT_TEMPLATES[name], variables, `default ${name} template`);
+  }
+  return renderTemplate(fs.readFileSync(templatePath, 'utf-8'), variables, templatePath);
+}
+
+// {{name}}, {{#if name}}, {{#unless name}}, {{else}}, {{/if}}, {{/unless}}
+const TAG_PATTERN = /\{\{\s*(#if|#unless|else|\/if|\/unless)?\s*([\w.-]*)\s*\}\}/g;
+
+// A block tag alone on its line takes the line with it, so templates can put them on their own lines
+const STANDALONE_BLOCK_TAG = /^[ \t]*(\{\{\s*(?:#if|#unless|else|\/if|\/unless)\b[^}]*\}\})[ \t]*\r?\n/gm;
+
+type TemplateNode =
+  | string
+  | { variable: string }
+  | { kind: '#if' | '#unless'; variable: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { kind: string }>;
+
+/**
+ * Fill in a template. Unknown variables and unbalanced blocks are errors, so a
+ * typo in a project template fails loudly instead of reaching the agent.
+ */
+export function renderTemplate(template: string, variables: TemplateVariables, source = 'template'): string {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid prompt template ${source}: ${message}`);
+  };
+  const checkVariable = (name: string) => {
+    if (!name) {
+      fail('empty {{ }} tag');
+    }
+    if (!(name in variables)) {
+      fail(`unknown variable '{{${name}}}' (available: ${Object.keys(variables).join(', ')})`);
+    }
+  };
+
+  // Parse into a tree of text, variables and blocks
+  const root: TemplateNode[] = [];
+  const stack: Array<{ block: BlockNode; inElse: boolean }> = [];
+  const current = () => {
+    const open = stack[stack.length - 1];
+    return open ? (open.inElse ? open.block.otherwise : open.block.then) : root;
+  };
+
+  const normalized = template.replace(STANDALONE_BLOCK_TAG, '$1');
+  let position = 0;
+  for (const match of normalized.matchAll(TAG_PATTERN)) {
+    current().push(normalized.slice(position, match.index));
+    position = match.index! + match[0].length;
+
+    const [, tag, name] = match;
+    const open = stack[stack.length - 1];
+    if (tag === '#if' || tag === '#unless') {
+      checkVariable(name);
+      const block: BlockNode = { kind: tag, variable: name, then: [], otherwise: [] };
+      current().push(block);
+      stack.push({ block, inElse: false });
+    } else if (tag === 'else') {
+      if (!open || open.inElse) {
+        fail(`unexpected '{{else}}'`);
+      }
+      open.inElse = true;
+    } else if (tag === '/if' || tag === '/unless') {
+      if (!open || open.block.kind !== `#${tag.slice(1)}`) {
+        fail(`unexpected '{{${tag}}}'`);
+      }
+      stack.pop();
+    } else {
+      checkVariable(name);
+      current().push({ variable: name });
+    }
+  }
+  current().push(normalized.slice(position));
+
+  if (stack.length > 0) {
+    const { block } = stack[stack.length - 1];
+    fail(`'{{${block.kind} ${block.variable}}}' is never closed`);
+  }
+
+  const render = (nodes: TemplateNode[]): string => nodes.map(node => {
+    if (typeof node === 'string') {
+      return node;
+    }
+    const value = variables[node.variable];
+    if (!('kind' in node)) {
+      return value === undefined || value === false ? '' : String(value);
+    }
+    return render(Boolean(value) === (node.kind === '#if') ? node.then : node.otherwise);
+  }).join('');
+
+  return render(root);
+}
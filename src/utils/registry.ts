@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadProjectConfig } from './project-config.js';
+import type { InstallReport } from './install.js';
+import type { FeatureIssue } from './feature-spec.js';
+import type { RetryState } from './retry.js';
+import type { FeatureUsage } from './usage.js';
+import type { VerifyReport } from './verify.js';
+
+/**
+ * How the agent process ended, recorded when it exits.
+ */
+export interface AgentExit {
+  exitCode: number | null;
+  signal: string | null;
+  endedAt: string;
+  // The last lines the agent wrote (empty for interactive agents)
+  finalOutput: string[];
+  // Set when the agent never started, e.g. a queued launch whose install failed
+  error?: string;
+}
+
+/**
+ * A feature development session as recorded by feature_start.
+ */
+export interface FeatureSession {
+  featureName: string;
+  featureFile: string;
+  worktreePath: string;
+  branchName: string;
+  baseBranch: string;
+  // Base branch commit at feature_start, so local mode can tell "merged" from "no commits yet"
+  baseCommit?: string;
+  pid?: number;
+  command: string;
+  agentProfile?: string;
+  mode: 'background' | 'interactive';
+  createdAt: string;
+  queuedAt?: string;
+  startedAt?: string;
+  stoppedAt?: string;
+  stopReason?: string;
+  // Set while feature_start/feature_revision prepares the launch; serverPid is the server doing it
+  launching?: { phase: 'starting' | 'installing'; since: string; serverPid: number };
+  // Cleared on every launch
+  exit?: AgentExit;
+  // Set when the last postAgentExit hook failed
+  hookError?: string;
+  // The dependency install before the first launch
+  install?: InstallReport;
+  // Set for features started from an issue (or with issue frontmatter)
+  issue?: FeatureIssue;
+  // The latest feature_verify run
+  verify?: VerifyReport;
+  // The verify-and-retry loop, when the project has a retry policy
+  retry?: RetryState;
+  // Tokens and cost of every metered agent run
+  usage?: FeatureUsage;
+}
+
+interface Registry {
+  version: 1;
+  features: Record<string, FeatureSession>;
+}
+
+export function getWorktreesPath(projectRoot: string): string {
+  return path.resolve(projectRoot, loadProjectConfig(projectRoot).worktreesDir);
+}
+
+export function getRegistryPath(projectRoot: string): string {
+  return path.join(getWorktreesPath(projectRoot), 'registry.json');
+}
+
+function loadRegistry(projectRoot: string): Registry {
+  const registryPath = getRegistryPath(projectRoot);
+  if (!fs.existsSync(registryPath)) {
+    return { version: 1, features: {} };
+  }
+
+  try {
+    const registry = JSON.parse(fs.readFileSync(registryPath, 'utf-8'));
+    return { version: 1, features: registry.features || {} };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Feature registry at '${registryPath}' is corrupt: ${errorMessage}`);
+  }
+}
+
+function writeRegistry(projectRoot: string, registry: Registry): void {
+  const registryPath = getRegistryPath(projectRoot);
+
+  // Don't leave an empty registry behind - it keeps .worktrees from being removed
+  if (Object.keys(registry.features).length === 0) {
+    if (fs.existsSync(registryPath)) {
+      fs.unlinkSync(registryPath);
+    }
+    return;
+  }
+
+  // Write atomically so a crash never leaves half a registry
+  fs.mkdirSync(path.dirname(registryPath), { recursive: true });
+  const tempPath = `${registryPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(registry, null, 2) + '\n');
+  fs.renameSync(tempPath, registryPath);
+}
+
+export function listFeatureSessions(projectRoot: string): FeatureSession[] {
+  return Object.values(loadRegistry(projectRoot).features);
+}
+
+/**
+ * Names of all known features: worktree directories plus registered sessions.
+ * Dot-directories under .worktrees hold server state (logs etc.), not features.
+ */
+export function listFeatureNames(projectRoot: string): string[] {
+  const worktreesPath = getWorktreesPath(projectRoot);
+  const worktreeDirs = fs.existsSync(worktreesPath)
+    ? fs.readdirSync(worktreesPath).filter(dir =>
+        !dir.startsWith('.') && fs.statSync(path.join(worktreesPath, dir)).isDirectory()
+      )
+    : [];
+
+  return Array.from(new Set([
+    ...worktreeDirs,
+    ...listFeatureSessions(projectRoot).map(session => session.featureName),
+  ]));
+}
+
+export function getFeatureSession(projectRoot: string, featureName: string): FeatureSession | undefined {
+  return loadRegistry(projectRoot).features[featureName];
+}
+
+export function saveFeatureSession(projectRoot: string, session: FeatureSession): void {
+  const registry = loadRegistry(projectRoot);
+  registry.features[session.featureName] = session;
+  writeRegistry(projectRoot, registry);
+}
+
+export function updateFeatureSession(projectRoot: string, featureName: string, updates: Partial<FeatureSession>): FeatureSession | undefined {
+  const registry = loadRegistry(projectRoot);
+  const session = registry.features[featureName];
+  if (!session) {
+    return undefined;
+  }
+  registry.features[featureName] = { ...session, ...updates, featureName };
+  writeRegistry(projectRoot, registry);
+  return registry.features[featureName];
+}
+
+export function removeFeatureSession(projectRoot: string, featureName: string): void {
+  const registry = loadRegistry(projectRoot);
+  if (registry.features[featureName]) {
+    delete registry.features[featureName];
+    writeRegistry(projectRoot, registry);
+  }
+}
+
+/**
+ * Look up a feature's session, falling back to the historical defaults
+ * (feature/<name> branched from main) for worktrees created before the registry existed.
+ */
+export function resolveFeatureSession(projectRoot: string, featureName: string): FeatureSession & { registered: boolean } {
+  const session = getFeatureSession(projectRoot, featureName);
+  if (session) {
+    return { ...session, registered: true };
+  }
+
+  const config = loadProjectConfig(projectRoot);
+  return {
+    featureName,
+    featureFile: '',
+    worktreePath: path.join(getWorktreesPath(projectRoot), featureName),
+    branchName: `${config.branchPrefix}${featureName}`,
+    baseBranch: config.baseBranch,
+    command: '',
+    mode: 'background',
+    createdAt: '',
+    startedAt: '',
+    registered: false,
+  };
+}
@@ -0,0 +1,252 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import simpleGit from 'simple-git';
+import { getLogFiles, readLogLines } from './agent-log.js';
+import { getFeatureSession, listFeatureNames, resolveFeatureSession } from './registry.js';
+import { listKnownProjects } from './projects.js';
+import { diffWorktree } from './worktree-diff.js';
+
+export const FEATURE_RESOURCE_KINDS = ['spec', 'revision', 'diff', 'log'] as const;
+
+export type FeatureResourceKind = typeof FEATURE_RESOURCE_KINDS[number];
+
+// A type alias rather than an interface so it stays assignable to the SDK's passthrough schemas
+export type FeatureResource = {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+};
+
+export type FeatureResourceContents = {
+  uri: string;
+  mimeType: string;
+  text: string;
+};
+
+interface ResourceLocation {
+  projectName: string;
+  projectRoot: string;
+  featureName: string;
+  kind: FeatureResourceKind;
+}
+
+// How often subscribed resources and the resource list are checked for changes
+export const RESOURCE_POLL_INTERVAL_MS = 5 * 1000;
+
+// The log resource is for watching an agent, not archaeology - feature_logs has the rest
+const LOG_RESOURCE_LINES = 1000;
+
+const RESOURCE_DETAILS: Record<FeatureResourceKind, { mimeType: string; describe: (featureName: string) => string }> = {
+  spec: { mimeType: 'text/markdown', describe: featureName => `FEATURE.md in ${featureName}'s worktree` },
+  revision: { mimeType: 'text/markdown', describe: featureName => `REVISION.md from the last feature_revision of ${featureName}` },
+  diff: { mimeType: 'text/x-diff', describe: featureName => `Everything ${featureName} changed since it branched, uncommitted work and new files included` },
+  log: { mimeType: 'text/plain', describe: featureName => `The last ${LOG_RESOURCE_LINES} lines of ${featureName}'s agent log` },
+};
+
+const URI_PATTERN = /^worktree:\/\/([^/?#]+)\/([a-z]+)(?:\?project=([^&#]+))?$/;
+
+/**
+ * worktree://<feature>/<kind> for the PROJECT_ROOT project;
+ * other projects add ?project=<name>.
+ */
+export function getResourceUri(featureName: string, kind: FeatureResourceKind, projectName = 'default'): string {
+  const uri = `worktree://${encodeURIComponent(featureName)}/${kind}`;
+  return projectName === 'default' ? uri : `${uri}?project=${encodeURIComponent(projectName)}`;
+}
+
+export function parseResourceUri(uri: string): ResourceLocation {
+  const match = uri.match(URI_PATTERN);
+  if (!match || !FEATURE_RESOURCE_KINDS.includes(match[2] as FeatureResourceKind)) {
+    throw new Error(`Invalid resource URI '${uri}' (expected worktree://<feature>/<${FEATURE_RESOURCE_KINDS.join('|')}>[?project=<name>])`);
+  }
+
+  const projectName = match[3] ? decodeURIComponent(match[3]) : 'default';
+  const project = listKnownProjects().find(known => known.name === projectName);
+  if (!project) {
+    throw new Error(projectName === 'default'
+      ? `Resource '${uri}' needs PROJECT_ROOT or a ?project=<name> from project_list`
+      : `Unknown project '${projectName}' in resource '${uri}'`);
+  }
+
+  return {
+    projectName,
+    projectRoot: project.projectRoot,
+    featureName: decodeURIComponent(match[1]),
+    kind: match[2] as FeatureResourceKind,
+  };
+}
+
+/**
+ * Every readable resource of every feature in every known project.
+ */
+export function listFeatureResources(): FeatureResource[] {
+  const resources: FeatureResource[] = [];
+  for (const { name: projectName, projectRoot } of listKnownProjects()) {
+    let featureNames: string[];
+    try {
+      featureNames = listFeatureNames(projectRoot);
+    } catch {
+      // A broken project shouldn't hide the others
+      continue;
+    }
+
+    for (const featureName of featureNames) {
+      for (const kind of FEATURE_RESOURCE_KINDS) {
+        const location = { projectName, projectRoot, featureName, kind };
+        if (getResourceSignature(location) === undefined) {
+          continue;
+        }
+        resources.push({
+          uri: getResourceUri(featureName, kind, projectName),
+          name: `${featureName} ${kind}${projectName === 'default' ? '' : ` (${projectName})`}`,
+          description: RESOURCE_DETAILS[kind].describe(featureName),
+          mimeType: RESOURCE_DETAILS[kind].mimeType,
+        });
+      }
+    }
+  }
+  return resources;
+}
+
+export async function readFeatureResource(uri: string): Promise<FeatureResourceContents> {
+  const location = parseResourceUri(uri);
+  const { projectRoot, featureName, kind } = location;
+  const { worktreePath } = resolveFeatureSession(projectRoot, featureName);
+  if (!getFeatureSession(projectRoot, featureName) && !fs.existsSync(worktreePath)) {
+    throw new Error(`Feature '${featureName}' not found`);
+  }
+
+  const { mimeType } = RESOURCE_DETAILS[kind];
+  switch (kind) {
+    case 'spec':
+    case 'revision': {
+      const file = path.join(worktreePath, kind === 'spec' ? 'FEATURE.md' : 'REVISION.md');
+      if (!fs.existsSync(file)) {
+        throw new Error(`${featureName} has no ${path.basename(file)}`);
+      }
+      return { uri, mimeType, text: fs.readFileSync(file, 'utf-8') };
+    }
+    case 'diff':
+      return { uri, mimeType, text: await getFeatureDiff(projectRoot, featureName) };
+    case 'log': {
+      const lines = readLogLines(projectRoot, featureName).slice(-LOG_RESOURCE_LINES);
+      return { uri, mimeType, text: lines.map(line => `${line.timestamp} [${line.stream}] ${line.text}`).join('\n') };
+    }
+  }
+}
+
+/**
+ * Notifies about changes to subscribed resources and to the resource list by
+ * polling - agents write worktrees and logs from other processes.
+ */
+export function createResourceWatcher(notify: {
+  updated: (uri: string) => void;
+  listChanged: () => void;
+}) {
+  const subscriptions = new Map<string, string | undefined>();
+  let listSignature = '';
+  let timer: NodeJS.Timeout | undefined;
+  let polling = false;
+
+  const poll = async () => {
+    // A slow git diff mustn't stack polls on top of each other
+    if (polling) {
+      return;
+    }
+    polling = true;
+    try {
+      const uris = listFeatureResources().map(resource => resource.uri).join('\n');
+      if (uris !== listSignature) {
+        listSignature = uris;
+        notify.listChanged();
+      }
+
+      for (const [uri, previous] of subscriptions) {
+        const signature = await getSignature(uri);
+        if (signature !== previous && subscriptions.has(uri)) {
+          subscriptions.set(uri, signature);
+          notify.updated(uri);
+        }
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  return {
+    async subscribe(uri: string): Promise<void> {
+      parseResourceUri(uri);
+      subscriptions.set(uri, await getSignature(uri));
+    },
+    unsubscribe(uri: string): void {
+      subscriptions.delete(uri);
+    },
+    start(): void {
+      listSignature = listFeatureResources().map(resource => resource.uri).join('\n');
+      if (!timer) {
+        timer = setInterval(() => void poll().catch(error => console.error('Resource poll failed:', error)), RESOURCE_POLL_INTERVAL_MS);
+        timer.unref();
+      }
+    },
+    stop(): void {
+      clearInterval(timer);
+      timer = undefined;
+    },
+    poll,
+  };
+}
+
+// Undefined while the resource doesn't exist (yet)
+async function getSignature(uri: string): Promise<string | undefined> {
+  try {
+    const location = parseResourceUri(uri);
+    // A worktree's mtime doesn't change when files deep inside it do
+    return location.kind === 'diff'
+      ? hash(await getFeatureDiff(location.projectRoot, location.featureName))
+      : getResourceSignature(location);
+  } catch {
+    return undefined;
+  }
+}
+
+// The files behind a resource; the diff's is the worktree itself
+function getResourceFiles({ projectRoot, featureName, kind }: ResourceLocation): string[] {
+  const { worktreePath } = resolveFeatureSession(projectRoot, featureName);
+  switch (kind) {
+    case 'spec':
+      return [path.join(worktreePath, 'FEATURE.md')];
+    case 'revision':
+      return [path.join(worktreePath, 'REVISION.md')];
+    case 'diff':
+      return [worktreePath];
+    case 'log':
+      return getLogFiles(projectRoot, featureName);
+  }
+}
+
+// Cheap change check from file stats; undefined while the resource doesn't exist
+function getResourceSignature(location: ResourceLocation): string | undefined {
+  const files = getResourceFiles(location).filter(file => fs.existsSync(file));
+  if (files.length === 0) {
+    return undefined;
+  }
+  return files.map(file => {
+    const stats = fs.statSync(file);
+    return `${file}:${stats.size}:${stats.mtimeMs}`;
+  }).join('|');
+}
+
+async function getFeatureDiff(projectRoot: string, featureName: string): Promise<string> {
+  const { worktreePath, baseBranch } = resolveFeatureSession(projectRoot, featureName);
+  if (!fs.existsSync(worktreePath)) {
+    throw new Error(`${featureName}'s worktree is missing`);
+  }
+  const mergeBase = (await simpleGit(worktreePath).raw(['merge-base', baseBranch, 'HEAD'])).trim();
+  return diffWorktree(worktreePath, mergeBase);
+}
+
+function hash(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
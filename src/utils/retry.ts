@@ -0,0 +1,331 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execa } from 'execa';
+import { appendLogLine } from './agent-log.js';
+import { isProcessAlive, markAgentLaunching, throwIfLaunchCancelled } from './agent-process.js';
+import { buildAgentLaunch, formatAgentCommand, launchAgent } from './agent-runner.js';
+import { readFeatureSpec } from './feature-spec.js';
+import { getForge } from './forge.js';
+import { runHook } from './hooks.js';
+import { loadProjectConfig } from './project-config.js';
+import { renderPromptTemplate } from './prompt-templates.js';
+import { getFeatureSession, getWorktreesPath, listFeatureSessions, updateFeatureSession } from './registry.js';
+import { scheduleAgentJob } from './scheduler.js';
+import { getBudgetOverrun } from './usage.js';
+import type { VerifyGate, VerifyReport } from './verify.js';
+import { diffWorktree } from './worktree-diff.js';
+
+/**
+ * The `verify.retry` section of .worktree-agent.json: relaunch the agent while
+ * verification fails, waiting backoffSeconds × backoffMultiplier^(n-1) before retry n.
+ */
+export interface RetryPolicy {
+  // Counting the feature_start/feature_revision run
+  maxAttempts: number;
+  backoffSeconds: number;
+  backoffMultiplier: number;
+}
+
+export interface RetryAttempt {
+  attempt: number;
+  startedAt: string;
+  // HEAD when the attempt began, so the next brief can show what it changed
+  startCommit?: string;
+  endedAt?: string;
+  passed?: boolean;
+  failedGates?: VerifyGate[];
+  // The brief the agent was given (retries only)
+  briefPath?: string;
+}
+
+export interface RetryState {
+  status: 'running' | 'waiting' | 'passed' | 'exhausted' | 'stopped';
+  maxAttempts: number;
+  attempts: RetryAttempt[];
+  nextAttemptAt?: string;
+  // The server whose timer launches the next attempt
+  serverPid?: number;
+  // Why the loop stopped early
+  reason?: string;
+}
+
+// Keeps the brief readable - the agent can run git diff itself for the rest
+const MAX_BRIEF_DIFF_CHARS = 20000;
+
+// Backoff timers for features waiting on their next attempt
+const timers = new Map<string, NodeJS.Timeout>();
+
+function timerKey(projectRoot: string, featureName: string): string {
+  return `${projectRoot}::${featureName}`;
+}
+
+async function getHeadCommit(worktreePath: string): Promise<string | undefined> {
+  try {
+    return (await execa('git', ['rev-parse', 'HEAD'], { stdio: 'pipe', cwd: worktreePath })).stdout.trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Begin a new retry loop with the background agent feature_start or
+ * feature_revision is about to launch as attempt 1. Does nothing unless the
+ * project has a retry policy.
+ */
+export async function startRetryLoop(projectRoot: string, featureName: string, worktreePath: string): Promise<void> {
+  cancelRetry(projectRoot, featureName);
+  const policy = loadProjectConfig(projectRoot).verify.retry;
+  if (!policy) {
+    updateFeatureSession(projectRoot, featureName, { retry: undefined });
+    return;
+  }
+
+  const retry: RetryState = {
+    status: 'running',
+    maxAttempts: policy.maxAttempts,
+    attempts: [{ attempt: 1, startedAt: new Date().toISOString(), startCommit: await getHeadCommit(worktreePath) }],
+  };
+  updateFeatureSession(projectRoot, featureName, { retry });
+}
+
+/**
+ * Close the running attempt with its verification and either finish the loop
+ * or schedule the next attempt. Without a report (the agent was killed) the loop stops.
+ */
+export function continueRetryLoop(projectRoot: string, featureName: string, report: VerifyReport | undefined, reason?: string): void {
+  const session = getFeatureSession(projectRoot, featureName);
+  const retry = session?.retry;
+  if (!retry || retry.status !== 'running') {
+    return;
+  }
+
+  const attempts = [...retry.attempts];
+  const current = attempts[attempts.length - 1];
+  attempts[attempts.length - 1] = {
+    ...current,
+    endedAt: new Date().toISOString(),
+    passed: report?.passed,
+    failedGates: report?.gates.filter(gate => !gate.passed).map(gate => gate.gate),
+  };
+
+  const policy = loadProjectConfig(projectRoot).verify.retry;
+  let next: RetryState;
+  if (!report) {
+    next = { ...retry, attempts, status: 'stopped', reason: reason || 'The agent did not finish' };
+  } else if (report.passed) {
+    next = { ...retry, attempts, status: 'passed' };
+    appendLogLine(projectRoot, featureName, 'retry', `Verification passed on attempt ${current.attempt} of ${retry.maxAttempts}`);
+  } else if (!policy || attempts.length >= retry.maxAttempts) {
+    next = { ...retry, attempts, status: 'exhausted' };
+    appendLogLine(projectRoot, featureName, 'retry', `Giving up: verification still failing after ${attempts.length} attempt(s)`);
+  } else {
+    const delayMs = policy.backoffSeconds * 1000 * Math.pow(policy.backoffMultiplier, attempts.length - 1);
+    next = { ...retry, attempts, status: 'waiting', nextAttemptAt: new Date(Date.now() + delayMs).toISOString(), serverPid: process.pid };
+    appendLogLine(projectRoot, featureName, 'retry', `Verification failed - attempt ${attempts.length + 1} of ${retry.maxAttempts} in ${Math.round(delayMs / 1000)}s`);
+    scheduleRetry(projectRoot, featureName, delayMs);
+  }
+  updateFeatureSession(projectRoot, featureName, { retry: next });
+}
+
+/**
+ * Take over the waiting loops whose server is gone (restarted or crashed), so
+ * their next attempt still launches - straight away if it's overdue. Called at
+ * startup; returns how many were resumed.
+ */
+export function resumeRetryLoops(projectRoot: string): number {
+  let resumed = 0;
+  for (const session of listFeatureSessions(projectRoot)) {
+    const { featureName, retry } = session;
+    if (retry?.status !== 'waiting' || timers.has(timerKey(projectRoot, featureName))) {
+      continue;
+    }
+    if (retry.serverPid && retry.serverPid !== process.pid && isProcessAlive(retry.serverPid)) {
+      continue;
+    }
+    const delayMs = Math.max(0, (retry.nextAttemptAt ? Date.parse(retry.nextAttemptAt) : Date.now()) - Date.now());
+    updateFeatureSession(projectRoot, featureName, { retry: { ...retry, serverPid: process.pid } });
+    appendLogLine(projectRoot, featureName, 'retry', `Server restarted - attempt ${retry.attempts.length + 1} of ${retry.maxAttempts} in ${Math.round(delayMs / 1000)}s`);
+    scheduleRetry(projectRoot, featureName, delayMs);
+    resumed++;
+  }
+  return resumed;
+}
+
+function scheduleRetry(projectRoot: string, featureName: string, delayMs: number): void {
+  const timer = setTimeout(() => {
+    timers.delete(timerKey(projectRoot, featureName));
+    void launchRetry(projectRoot, featureName).catch(error => {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      appendLogLine(projectRoot, featureName, 'retry', `Could not launch the retry: ${errorMessage}`);
+      stopRetryLoop(projectRoot, featureName, `Retry failed to launch: ${errorMessage}`);
+    });
+  }, delayMs);
+  timer.unref();
+  timers.set(timerKey(projectRoot, featureName), timer);
+}
+
+/**
+ * Stop the loop: cancel a pending attempt and record why. Running agents are
+ * left to feature_stop.
+ */
+export function stopRetryLoop(projectRoot: string, featureName: string, reason: string): boolean {
+  cancelRetry(projectRoot, featureName);
+  const retry = getFeatureSession(projectRoot, featureName)?.retry;
+  if (!retry || (retry.status !== 'running' && retry.status !== 'waiting')) {
+    return false;
+  }
+  updateFeatureSession(projectRoot, featureName, { retry: { ...retry, status: 'stopped', nextAttemptAt: undefined, serverPid: undefined, reason } });
+  return true;
+}
+
+function getRetryBriefsPath(projectRoot: string): string {
+  return path.join(getWorktreesPath(projectRoot), '.retries');
+}
+
+/**
+ * Delete the feature's retry briefs, and the briefs directory once it's empty.
+ */
+export function removeRetryBriefs(projectRoot: string, featureName: string): void {
+  const briefsPath = getRetryBriefsPath(projectRoot);
+  if (!fs.existsSync(briefsPath)) {
+    return;
+  }
+
+  // <feature>-<attempt>.md - but not the briefs of 'feature-two' when removing 'feature'
+  for (const file of fs.readdirSync(briefsPath)) {
+    if (file.startsWith(`${featureName}-`) && /^\d+\.md$/.test(file.slice(featureName.length + 1))) {
+      fs.rmSync(path.join(briefsPath, file), { force: true });
+    }
+  }
+  if (fs.readdirSync(briefsPath).length === 0) {
+    fs.rmdirSync(briefsPath);
+  }
+}
+
+function cancelRetry(projectRoot: string, featureName: string): void {
+  const key = timerKey(projectRoot, featureName);
+  clearTimeout(timers.get(key));
+  timers.delete(key);
+}
+
+async function launchRetry(projectRoot: string, featureName: string): Promise<void> {
+  const session = getFeatureSession(projectRoot, featureName);
+  const retry = session?.retry;
+  if (!session || retry?.status !== 'waiting' || !fs.existsSync(session.worktreePath)) {
+    return;
+  }
+
+  const overrun = getBudgetOverrun(projectRoot, featureName);
+  if (overrun) {
+    appendLogLine(projectRoot, featureName, 'retry', `Not retrying: ${overrun}`);
+    stopRetryLoop(projectRoot, featureName, `Budget used up: ${overrun}`);
+    return;
+  }
+
+  const { worktreePath, branchName, baseBranch } = session;
+  const previous = retry.attempts[retry.attempts.length - 1];
+  const attempt = previous.attempt + 1;
+
+  // The failing gates' output and what the last attempt changed
+  const failures = (session.verify?.gates || [])
+    .filter(gate => !gate.passed)
+    .map(gate => `### ${gate.gate}: \`${gate.command}\` (${gate.error})\n\n\`\`\`\n${gate.output || '(no output)'}\n\`\`\``)
+    .join('\n\n');
+  let diff = '';
+  let commits = '';
+  if (previous.startCommit) {
+    const git = (args: string[]) => execa('git', args, { stdio: 'pipe', cwd: worktreePath });
+    diff = await diffWorktree(worktreePath, previous.startCommit);
+    commits = (await git(['log', '--oneline', `${previous.startCommit}..HEAD`])).stdout;
+    if (diff.length > MAX_BRIEF_DIFF_CHARS) {
+      diff = `${diff.slice(0, MAX_BRIEF_DIFF_CHARS)}\n... (truncated - run \`git diff ${previous.startCommit.substring(0, 7)}\` for the rest)`;
+    }
+  }
+
+  let specConfig: ReturnType<typeof readFeatureSpec>['config'] = {};
+  try {
+    specConfig = readFeatureSpec(session.featureFile).config;
+  } catch {
+    // Spec moved or deleted - the worktree has FEATURE.md
+  }
+
+  const forge = await getForge(projectRoot);
+  const forgeContext = { projectRoot, worktreePath, branchName, baseBranch };
+  const brief = renderPromptTemplate(projectRoot, 'retry', {
+    featureName,
+    featureFile: session.featureFile,
+    worktreePath,
+    branchName,
+    baseBranch,
+    forgeName: forge.displayName,
+    requestLabel: forge.requestLabel,
+    isLocal: forge.name === 'local',
+    createCommand: loadProjectConfig(projectRoot).verify.requiredForPullRequest ? '' : forge.getCreateCommand(forgeContext, specConfig.pr || {}) || '',
+    attempt,
+    maxAttempts: retry.maxAttempts,
+    failures,
+    diff,
+    commits,
+  });
+
+  const briefPath = path.join(getRetryBriefsPath(projectRoot), `${featureName}-${attempt}.md`);
+  fs.mkdirSync(path.dirname(briefPath), { recursive: true });
+  fs.writeFileSync(briefPath, brief);
+
+  const agentLaunch = buildAgentLaunch(projectRoot, featureName, worktreePath, brief, { ...specConfig.agent, profile: session.agentProfile });
+  const launch = async () => {
+    const signal = markAgentLaunching(projectRoot, featureName, 'starting');
+    try {
+      await runHook(projectRoot, 'preAgentLaunch', { featureName, worktreePath, branchName, baseBranch, featureFile: session.featureFile }, signal);
+    } catch (error) {
+      updateFeatureSession(projectRoot, featureName, { launching: undefined });
+      throwIfLaunchCancelled(signal);
+      stopRetryLoop(projectRoot, featureName, 'The preAgentLaunch hook failed');
+      throw error;
+    }
+    throwIfLaunchCancelled(signal);
+    const startCommit = await getHeadCommit(worktreePath);
+    const agentProcess = launchAgent(projectRoot, featureName, worktreePath, agentLaunch, { run: 'retry' });
+
+    const current = getFeatureSession(projectRoot, featureName)?.retry || retry;
+    updateFeatureSession(projectRoot, featureName, {
+      pid: agentProcess.pid,
+      command: formatAgentCommand(agentLaunch),
+      startedAt: new Date().toISOString(),
+      stoppedAt: undefined,
+      stopReason: undefined,
+      launching: undefined,
+      exit: undefined,
+      retry: {
+        ...current,
+        status: 'running',
+        nextAttemptAt: undefined,
+        serverPid: undefined,
+        attempts: [...current.attempts, { attempt, startedAt: new Date().toISOString(), startCommit, briefPath }],
+      },
+    });
+    appendLogLine(projectRoot, featureName, 'retry', `Started attempt ${attempt} of ${retry.maxAttempts}`);
+    return { child: agentProcess };
+  };
+
+  await scheduleAgentJob({ projectRoot, featureName, kind: 'retry', queuedAt: new Date().toISOString(), run: launch });
+}
+
+/**
+ * "attempt 2 of 3, retrying at <time>" and the like, for feature_status.
+ */
+export function formatRetryState(retry: RetryState): string {
+  const attempt = `attempt ${retry.attempts.length} of ${retry.maxAttempts}`;
+  switch (retry.status) {
+    case 'running':
+      return `🔁 ${attempt} running`;
+    case 'waiting':
+      return `⏳ ${attempt} failed verification - retrying at ${retry.nextAttemptAt}`;
+    case 'passed':
+      return `✅ Passed verification on ${attempt}`;
+    case 'exhausted':
+      return `❌ Still failing after ${retry.attempts.length} attempt(s) - fix it by hand or with feature_revision`;
+    case 'stopped':
+      return `🛑 Stopped on ${attempt}${retry.reason ? ` - ${retry.reason}` : ''}`;
+  }
+}
@@ -0,0 +1,204 @@
+import type { ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { listFeatureSessions, updateFeatureSession } from './registry.js';
+import { isAgentRunning } from './agent-process.js';
+import { appendLogLine } from './agent-log.js';
+import { loadProjectConfig } from './project-config.js';
+
+// Agents started outside this server process can only be noticed by polling
+const QUEUE_POLL_INTERVAL_MS = 30 * 1000;
+
+export interface AgentJob {
+  projectRoot: string;
+  featureName: string;
+  kind: 'start' | 'revision' | 'retry' | 'sync';
+  queuedAt: string;
+  // Performs the launch (dependency install included) and returns the agent to watch.
+  // Wrapped in an object: execa children are thenables and would be awaited otherwise.
+  run: () => Promise<{ child: ChildProcess }>;
+}
+
+export type ScheduleResult =
+  | { started: true; child: ChildProcess }
+  | { started: false; position: number };
+
+const queue: AgentJob[] = [];
+const events = new EventEmitter();
+// Jobs holding a slot, from the moment it's reserved until their agent exits
+const active = new Set<AgentJob>();
+let pollTimer: NodeJS.Timeout | undefined;
+let draining = false;
+
+function jobKey(projectRoot: string, featureName: string): string {
+  return `${projectRoot}::${featureName}`;
+}
+
+/**
+ * The project's maxConcurrentAgents, unless MAX_CONCURRENT_AGENTS overrides it.
+ */
+export function getMaxConcurrentAgents(projectRoot: string): number {
+  const configured = process.env.MAX_CONCURRENT_AGENTS;
+  if (!configured) {
+    return loadProjectConfig(projectRoot).maxConcurrentAgents;
+  }
+
+  const limit = parseInt(configured, 10);
+  if (isNaN(limit) || limit < 1) {
+    throw new Error(`MAX_CONCURRENT_AGENTS must be a positive integer (got '${configured}')`);
+  }
+  return limit;
+}
+
+/**
+ * Agents currently holding a slot: jobs launched by this server plus
+ * registered agents that are still running from an earlier server process.
+ */
+async function countRunningAgents(projectRoot: string): Promise<number> {
+  let external = 0;
+  for (const session of listFeatureSessions(projectRoot)) {
+    const key = jobKey(projectRoot, session.featureName);
+    if (![...active].some(job => jobKey(job.projectRoot, job.featureName) === key) && await isAgentRunning(session)) {
+      external++;
+    }
+  }
+  return active.size + external;
+}
+
+/**
+ * Be notified whenever an agent launched through the scheduler exits.
+ */
+export function onAgentExit(listener: (projectRoot: string, featureName: string) => void): void {
+  events.on('exit', listener);
+}
+
+export function getQueuePosition(projectRoot: string, featureName: string): number | undefined {
+  const index = queue.findIndex(job => job.projectRoot === projectRoot && job.featureName === featureName);
+  return index === -1 ? undefined : index + 1;
+}
+
+export function getQueueLength(): number {
+  return queue.length;
+}
+
+export function removeQueuedJob(projectRoot: string, featureName: string): boolean {
+  const index = queue.findIndex(job => job.projectRoot === projectRoot && job.featureName === featureName);
+  if (index === -1) {
+    return false;
+  }
+  queue.splice(index, 1);
+  updateFeatureSession(projectRoot, featureName, { queuedAt: undefined });
+  return true;
+}
+
+// The job's slot must already be reserved in `active`
+async function runJob(job: AgentJob): Promise<ChildProcess> {
+  let child: ChildProcess;
+  try {
+    ({ child } = await job.run());
+  } catch (error) {
+    active.delete(job);
+    void drainQueue();
+    throw error;
+  }
+
+  child.on('close', () => {
+    active.delete(job);
+    events.emit('exit', job.projectRoot, job.featureName);
+    void drainQueue();
+  });
+  return child;
+}
+
+/**
+ * Launch the job now if a slot is free, otherwise queue it.
+ * Queued jobs start automatically, in order, as running agents exit.
+ */
+export async function scheduleAgentJob(job: AgentJob): Promise<ScheduleResult> {
+  if (getQueuePosition(job.projectRoot, job.featureName) !== undefined) {
+    throw new Error(`Feature '${job.featureName}' is already queued`);
+  }
+
+  // Reserve the slot before anything async, so concurrent calls can't all claim the last one
+  const limit = getMaxConcurrentAgents(job.projectRoot);
+  if (queue.length === 0 && active.size < limit) {
+    active.add(job);
+    // Agents from an earlier server process hold slots too
+    if (await countRunningAgents(job.projectRoot) <= limit) {
+      return { started: true, child: await runJob(job) };
+    }
+    active.delete(job);
+  }
+
+  queue.push(job);
+  updateFeatureSession(job.projectRoot, job.featureName, { queuedAt: job.queuedAt });
+  appendLogLine(job.projectRoot, job.featureName, 'agent', `Queued ${job.kind} at position ${queue.length}`);
+  ensurePolling();
+  return { started: false, position: queue.length };
+}
+
+async function drainQueue(): Promise<void> {
+  // One drain at a time, or two exits could both claim the same free slot
+  if (draining) {
+    return;
+  }
+  draining = true;
+
+  try {
+    await startQueuedJobs();
+  } finally {
+    draining = false;
+  }
+
+  if (queue.length === 0 && pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = undefined;
+  }
+}
+
+async function startQueuedJobs(): Promise<void> {
+  while (queue.length > 0) {
+    const next = queue[0];
+    let limit: number;
+    try {
+      limit = getMaxConcurrentAgents(next.projectRoot);
+    } catch (error) {
+      // A broken config fails its own job rather than holding up everyone else's
+      queue.shift();
+      recordLaunchFailure(next, error);
+      continue;
+    }
+    if (await countRunningAgents(next.projectRoot) >= limit) {
+      break;
+    }
+
+    queue.shift();
+    active.add(next);
+    updateFeatureSession(next.projectRoot, next.featureName, { queuedAt: undefined });
+    appendLogLine(next.projectRoot, next.featureName, 'agent', `Starting queued ${next.kind}`);
+
+    // Launches (installs included) run side by side, one per free slot
+    void runJob(next).catch(error => recordLaunchFailure(next, error));
+  }
+}
+
+function recordLaunchFailure(job: AgentJob, error: unknown): void {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  try {
+    appendLogLine(job.projectRoot, job.featureName, 'agent', `Queued ${job.kind} failed to launch: ${errorMessage}`);
+    // The agent never started, so record it as a failed run
+    updateFeatureSession(job.projectRoot, job.featureName, {
+      queuedAt: undefined,
+      launching: undefined,
+      exit: { exitCode: null, signal: null, endedAt: new Date().toISOString(), finalOutput: [], error: `Launch failed: ${errorMessage}` },
+    });
+  } catch (recordError) {
+    console.error(`Failed to record the launch failure of '${job.featureName}':`, recordError);
+  }
+}
+
+function ensurePolling(): void {
+  if (!pollTimer) {
+    pollTimer = setInterval(() => void drainQueue(), QUEUE_POLL_INTERVAL_MS);
+    pollTimer.unref();
+  }
+}
@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseFeatureSpec } from './feature-spec.js';
+
+export type SpecLintSeverity = 'error' | 'warning';
+
+export type SpecLintRule = 'missing-section' | 'empty-section' | 'empty-checkbox' | 'broken-link' | 'missing-path' | 'scope-size';
+
+export interface SpecLintFinding {
+  rule: SpecLintRule;
+  severity: SpecLintSeverity;
+  message: string;
+  // 1-based, counting the frontmatter
+  line?: number;
+}
+
+export interface SpecLintReport {
+  featureFile: string;
+  errors: number;
+  warnings: number;
+  findings: SpecLintFinding[];
+  // The rough size estimate behind scope-size
+  scope: { words: number; tasks: number };
+}
+
+/**
+ * Lint settings from .worktree-agent.json's "specLint".
+ */
+export interface SpecLintConfig {
+  // Headings every spec needs; "A|B" accepts either
+  requiredSections: string[];
+  // Above these a spec is probably several features
+  maxWords: number;
+  maxTasks: number;
+}
+
+interface Section {
+  title: string;
+  level: number;
+  line: number;
+  content: string[];
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const EMPTY_CHECKBOX_PATTERN = /^\s*[-*+]\s+\[[ xX]\]\s*$/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+\S/;
+const LINK_PATTERN = /\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^)]*)?\)/g;
+const CODE_SPAN_PATTERN = /`([^`\s]+)`/g;
+// Something like src/utils/foo.ts or docs/ - a bare word or URL isn't a path
+const PATH_PATTERN = /^[\w.@-]*\/[\w.@/-]*$/;
+
+/**
+ * Check a feature spec for the things that send agents off in the wrong
+ * direction: missing sections, empty checklists, dead links, paths that aren't
+ * in the repo and specs too big for one agent run.
+ */
+export function lintFeatureSpec(projectRoot: string, featureFile: string, config: SpecLintConfig): SpecLintReport {
+  const content = fs.readFileSync(featureFile, 'utf-8');
+  const { body } = parseFeatureSpec(content, featureFile);
+  // Report line numbers of the file as written, frontmatter included
+  const lineOffset = content.slice(0, content.length - body.length).split('\n').length - 1;
+
+  const findings: SpecLintFinding[] = [];
+  const add = (rule: SpecLintRule, severity: SpecLintSeverity, message: string, line?: number) =>
+    findings.push({ rule, severity, message, line: line === undefined ? undefined : line + lineOffset });
+
+  // Code blocks are examples, not structure
+  const lines: Array<{ text: string; line: number }> = [];
+  let inFence = false;
+  body.split('\n').forEach((text, index) => {
+    if (FENCE_PATTERN.test(text)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      lines.push({ text, line: index + 1 });
+    }
+  });
+
+  const sections = getSections(lines);
+  for (const required of config.requiredSections) {
+    const alternatives = required.split('|').map(normalizeHeading);
+    const section = sections.find(candidate => alternatives.some(alternative => {
+      const title = normalizeHeading(candidate.title);
+      return title === alternative || title.startsWith(`${alternative} `);
+    }));
+    if (!section) {
+      const [name, ...aliases] = required.split('|');
+      add('missing-section', 'error', `Missing required section '${name}'${aliases.length > 0 ? ` (or ${aliases.join(', ')})` : ''}`);
+    } else if (section.content.every(text => !text.trim() || EMPTY_CHECKBOX_PATTERN.test(text))) {
+      add('empty-section', 'error', `Section '${section.title}' is empty`, section.line);
+    }
+  }
+
+  let tasks = 0;
+  const mentionedPaths = new Set<string>();
+  for (const { text, line } of lines) {
+    if (EMPTY_CHECKBOX_PATTERN.test(text)) {
+      add('empty-checkbox', 'error', 'Checkbox without a task', line);
+    } else if (LIST_ITEM_PATTERN.test(text)) {
+      tasks++;
+    }
+
+    for (const [, target] of text.matchAll(LINK_PATTERN)) {
+      if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('#')) {
+        continue;
+      }
+      const file = safeDecode(target.replace(/[#?].*$/, ''));
+      const resolved = file.startsWith('/') ? path.join(projectRoot, file) : path.resolve(path.dirname(featureFile), file);
+      if (!fs.existsSync(resolved)) {
+        add('broken-link', 'error', `Link to '${target}' doesn't resolve`, line);
+      }
+    }
+
+    for (const [, code] of text.matchAll(CODE_SPAN_PATTERN)) {
+      const mentioned = code.replace(/^\.\//, '').replace(/^\//, '');
+      if (!PATH_PATTERN.test(code) || mentioned.startsWith('.worktrees/') || mentionedPaths.has(mentioned)) {
+        continue;
+      }
+      mentionedPaths.add(mentioned);
+      if (!fs.existsSync(path.join(projectRoot, mentioned))) {
+        add('missing-path', 'warning', `'${code}' doesn't exist in the repo (fine if the feature creates it)`, line);
+      }
+    }
+  }
+
+  const words = lines.map(({ text }) => text.split(/\s+/).filter(word => /\w/.test(word)).length).reduce((sum, count) => sum + count, 0);
+  if (words > config.maxWords || tasks > config.maxTasks) {
+    add('scope-size', 'warning', `Large scope: ${words} words and ${tasks} tasks (limits ${config.maxWords} and ${config.maxTasks}) - consider splitting it into several features`);
+  }
+
+  return {
+    featureFile,
+    errors: findings.filter(finding => finding.severity === 'error').length,
+    warnings: findings.filter(finding => finding.severity === 'warning').length,
+    findings,
+    scope: { words, tasks },
+  };
+}
+
+/**
+ * One line per finding, e.g. "❌ line 12: Checkbox without a task (empty-checkbox)".
+ */
+export function formatLintFindings(findings: SpecLintFinding[]): string {
+  return findings
+    .map(finding => `${finding.severity === 'error' ? '❌' : '⚠️'} ${finding.line ? `line ${finding.line}: ` : ''}${finding.message} (${finding.rule})`)
+    .join('\n');
+}
+
+// A section runs until the next heading at its level or above, subsections included
+function getSections(lines: Array<{ text: string; line: number }>): Section[] {
+  const headings = lines
+    .map(({ text, line }, index) => ({ match: text.match(HEADING_PATTERN), line, index }))
+    .filter(heading => heading.match !== null);
+
+  return headings.map(({ match, line, index }, position) => {
+    const level = match![1].length;
+    const next = headings.slice(position + 1).find(heading => heading.match![1].length <= level);
+    return {
+      title: match![2],
+      level,
+      line,
+      content: lines.slice(index + 1, next ? next.index : lines.length).map(({ text }) => text),
+    };
+  });
+}
+
+function normalizeHeading(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * What a long-running tool gets from its MCP call: a way to report progress
+ * and a signal that fires when the client cancels the call.
+ */
+export interface ToolCallContext {
+  signal?: AbortSignal;
+  reportProgress?: (progress: number, total: number, message: string) => void;
+}
+
+export type RequestId = string | number;
+
+/**
+ * Reports each phase of a tool as progress "n of total" and stops at the next
+ * phase once the call is cancelled.
+ */
+export function createPhaseReporter<Phase extends string>(context: ToolCallContext, phases: readonly Phase[]) {
+  return (phase: Phase) => {
+    throwIfCancelled(context.signal);
+    context.reportProgress?.(phases.indexOf(phase), phases.length, phase);
+  };
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    const reason = typeof signal.reason === 'string' ? `: ${signal.reason}` : '';
+    throw new Error(`Cancelled by the client${reason}`);
+  }
+}
+
+/**
+ * In-flight tool calls by JSON-RPC request id, so notifications/cancelled can
+ * abort the right one.
+ */
+export function createToolCallRegistry() {
+  const calls = new Map<RequestId, AbortController>();
+
+  return {
+    begin(requestId: RequestId): AbortSignal {
+      const controller = new AbortController();
+      calls.set(requestId, controller);
+      return controller.signal;
+    },
+    end(requestId: RequestId): void {
+      calls.delete(requestId);
+    },
+    // False when the call already finished - cancellation races the response
+    cancel(requestId: RequestId, reason?: string): boolean {
+      const controller = calls.get(requestId);
+      if (!controller) {
+        return false;
+      }
+      controller.abort(reason);
+      calls.delete(requestId);
+      return true;
+    },
+  };
+}
+
+/**
+ * Kill a detached shell command's whole process group once the signal aborts -
+ * killing only the shell leaves the package manager (or whatever it ran) behind.
+ * Returns the listener's cleanup.
+ */
+export function killProcessGroupOnAbort(pid: number | undefined, signal?: AbortSignal): () => void {
+  if (!signal || pid === undefined) {
+    return () => {};
+  }
+
+  const kill = () => {
+    try {
+      process.kill(-pid, 'SIGTERM');
+    } catch {
+      // Already gone
+    }
+  };
+  if (signal.aborted) {
+    kill();
+    return () => {};
+  }
+  signal.addEventListener('abort', kill, { once: true });
+  return () => signal.removeEventListener('abort', kill);
+}
@@ -0,0 +1,62 @@
+export type ResultFormat = 'text' | 'json' | 'both';
+
+export const RESULT_FORMATS: ResultFormat[] = ['text', 'json', 'both'];
+
+/**
+ * What a feature's agent is doing, as reported in structured results.
+ */
+export type AgentState =
+  | 'queued'
+  | 'starting'
+  | 'installing'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'stopped'
+  | 'orphaned';
+
+// A type alias rather than an interface so it stays assignable to the SDK's passthrough result schema
+export type ToolResult = {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+};
+
+export function validateResultFormat(format: unknown): asserts format is ResultFormat | undefined {
+  if (format !== undefined && !RESULT_FORMATS.includes(format as ResultFormat)) {
+    throw new Error(`Invalid format '${format}' (expected one of: ${RESULT_FORMATS.join(', ')})`);
+  }
+}
+
+/**
+ * Build a tool response. The markdown text is for people; the JSON copy of
+ * `data` is for scripts and orchestrating agents. SDK 0.4.0 has no
+ * structuredContent, so the JSON goes out as its own text content item.
+ */
+export function createToolResult(text: string, data: object, format: ResultFormat = 'text'): ToolResult {
+  validateResultFormat(format);
+
+  const json = JSON.stringify(data, null, 2);
+  return {
+    content: format === 'text'
+      ? [{ type: 'text', text }]
+      : format === 'json'
+        ? [{ type: 'text', text: json }]
+        : [{ type: 'text', text }, { type: 'text', text: json }],
+  };
+}
+
+/**
+ * Error response in the requested format. JSON errors look like `{ "error": "..." }`.
+ */
+export function createErrorResult(message: string, format: unknown): ToolResult {
+  const text = `❌ Error: ${message}`;
+  const json = JSON.stringify({ error: message }, null, 2);
+  return {
+    content: format === 'json'
+      ? [{ type: 'text', text: json }]
+      : format === 'both'
+        ? [{ type: 'text', text }, { type: 'text', text: json }]
+        : [{ type: 'text', text }],
+    isError: true,
+  };
+}
@@ -0,0 +1,364 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ChildProcess } from 'child_process';
+import { appendLogLine } from './agent-log.js';
+import { stopAgent } from './agent-process.js';
+import { readFeatureSpec } from './feature-spec.js';
+import { loadProjectConfig } from './project-config.js';
+import { getFeatureSession, getWorktreesPath, listFeatureSessions, updateFeatureSession } from './registry.js';
+import { stopRetryLoop } from './retry.js';
+
+export interface TokenUsage {
+  // All input, cached included
+  inputTokens: number;
+  // The part of inputTokens read from the prompt cache
+  cachedInputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+// What launched the run: feature_start, feature_revision, a verify retry or a feature_sync conflict resolver
+export type UsageRunKind = 'start' | 'revision' | 'retry' | 'sync';
+
+export interface UsageRun extends TokenUsage {
+  kind?: UsageRunKind;
+  pid?: number;
+  startedAt: string;
+  endedAt?: string;
+  // Set once the agent reported its final totals and cost - until then (and for a killed run) the cost is estimated
+  reported: boolean;
+}
+
+export interface FeatureUsage {
+  total: TokenUsage;
+  runs: UsageRun[];
+}
+
+/**
+ * Spending limits; tokens count input (cached included) plus output.
+ */
+export interface UsageBudget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+}
+
+/**
+ * The `budget` section of .worktree-agent.json.
+ */
+export interface BudgetConfig {
+  // Every feature's limit; a spec's `budget` frontmatter overrides it
+  feature: UsageBudget;
+  // Every feature the project ever ran, cleaned up ones included
+  total: UsageBudget;
+}
+
+interface UsageEvent {
+  messageId?: string;
+  usage?: Omit<TokenUsage, 'costUsd'>;
+  // What an assistant message's tokens cost at the model's prices
+  estimatedCostUsd?: number;
+  // The run's cost as reported by its result event
+  costUsd?: number;
+  // The run's closing "result" event with its totals
+  final: boolean;
+}
+
+const NO_USAGE: TokenUsage = { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, costUsd: 0 };
+
+// USD per million input and output tokens by model name; cache writes cost 1.25x input, cache reads 0.1x.
+// Unknown models are priced like Sonnet.
+const MODEL_PRICES: Array<[string, number, number]> = [
+  ['opus-4-5', 5, 25],
+  ['opus', 15, 75],
+  ['haiku-4', 1, 5],
+  ['haiku', 0.8, 4],
+  ['sonnet', 3, 15],
+];
+
+// Save and check the budget at most this often while an agent streams messages
+const USAGE_FLUSH_INTERVAL_MS = 1000;
+
+type JsonObject = Record<string, unknown>;
+
+function asJsonObject(value: unknown): JsonObject | undefined {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as JsonObject : undefined;
+}
+
+function estimateCostUsd(model: unknown, tokens: { input: number; cacheWrite: number; cacheRead: number; output: number }): number {
+  const [, input, output] = MODEL_PRICES.find(([name]) => typeof model === 'string' && model.includes(name))
+    || MODEL_PRICES.find(([name]) => name === 'sonnet')!;
+  return (tokens.input * input + tokens.cacheWrite * input * 1.25 + tokens.cacheRead * input * 0.1 + tokens.output * output) / 1000000;
+}
+
+/**
+ * Usage from one line of `claude --output-format stream-json`: assistant
+ * messages carry their token counts (priced by model), the closing result event the run's totals and cost.
+ */
+export function parseUsageEvent(line: string): UsageEvent | undefined {
+  if (!line.startsWith('{')) {
+    return undefined;
+  }
+  let event: unknown;
+  try {
+    event = JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+
+  const fields = asJsonObject(event);
+  const final = fields?.type === 'result';
+  if (!fields || (!final && fields.type !== 'assistant')) {
+    return undefined;
+  }
+  const message = asJsonObject(fields.message);
+  const usage = asJsonObject(final ? fields.usage : message?.usage);
+  if (!final && !usage) {
+    return undefined;
+  }
+
+  const count = (key: string): number => typeof usage?.[key] === 'number' ? usage[key] as number : 0;
+  const tokens = { input: count('input_tokens'), cacheWrite: count('cache_creation_input_tokens'), cacheRead: count('cache_read_input_tokens'), output: count('output_tokens') };
+  const cost = fields.total_cost_usd ?? fields.cost_usd;
+  return {
+    messageId: typeof message?.id === 'string' ? message.id : undefined,
+    usage: usage ? {
+      inputTokens: tokens.input + tokens.cacheWrite + tokens.cacheRead,
+      cachedInputTokens: tokens.cacheRead,
+      outputTokens: tokens.output,
+    } : undefined,
+    estimatedCostUsd: final ? undefined : estimateCostUsd(message?.model, tokens),
+    costUsd: typeof cost === 'number' ? cost : undefined,
+    final,
+  };
+}
+
+export function addUsage(usages: Array<Partial<TokenUsage>>): TokenUsage {
+  return usages.reduce<TokenUsage>((total, usage) => ({
+    inputTokens: total.inputTokens + (usage.inputTokens || 0),
+    cachedInputTokens: total.cachedInputTokens + (usage.cachedInputTokens || 0),
+    outputTokens: total.outputTokens + (usage.outputTokens || 0),
+    costUsd: total.costUsd + (usage.costUsd || 0),
+  }), NO_USAGE);
+}
+
+/**
+ * Meter an agent run from its stdout lines: record it in the feature's usage
+ * and the project's ledger, and stop the agent once a budget is used up.
+ * Nothing is recorded for output without usage events (other agents, interactive sessions).
+ */
+export function trackAgentUsage(projectRoot: string, featureName: string, child: ChildProcess, kind?: UsageRunKind): (line: string) => void {
+  const startedAt = new Date().toISOString();
+  // Claude repeats a message's usage with each of its content blocks, so keep the latest per message
+  const messages = new Map<string, TokenUsage>();
+  let runIndex: number | undefined;
+  let pending: Partial<UsageRun> | undefined;
+  let flushedAt = 0;
+  let featureBudget: UsageBudget | undefined;
+  let budgetUsedUp = false;
+
+  // Metering must never take the server down, so failures only go to the log
+  const report = (error: unknown) => {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    try {
+      appendLogLine(projectRoot, featureName, 'usage', `Could not meter the agent: ${errorMessage}`);
+    } catch {
+      console.error(`Could not meter the agent of '${featureName}':`, error);
+    }
+  };
+
+  // Returns the feature's and the project's totals after the update
+  const saveRun = (updates: Partial<UsageRun>): [TokenUsage, TokenUsage] | undefined => {
+    const session = getFeatureSession(projectRoot, featureName);
+    if (!session) {
+      return undefined;
+    }
+    const runs = [...(session.usage?.runs || [])];
+    if (runIndex === undefined) {
+      runIndex = runs.length;
+      runs.push({ kind, pid: child.pid, startedAt, ...NO_USAGE, reported: false });
+    }
+    const previous = runs[runIndex];
+    runs[runIndex] = { ...previous, ...updates };
+    const total = addUsage(runs);
+    const projectTotal = addUsage([getProjectUsage(projectRoot), subtractUsage(runs[runIndex], previous)]);
+    updateFeatureSession(projectRoot, featureName, { usage: { total, runs } });
+    writeUsageLedger(projectRoot, projectTotal);
+    return [total, projectTotal];
+  };
+
+  const checkBudget = (featureTotal: TokenUsage, projectTotal: TokenUsage, final: boolean) => {
+    featureBudget ??= getFeatureBudget(projectRoot, featureName);
+    const overrun = findOverrun(featureTotal, featureBudget, "the feature's")
+      || findOverrun(projectTotal, loadProjectConfig(projectRoot).budget.total, "the project's");
+    if (!overrun) {
+      return;
+    }
+    budgetUsedUp = true;
+    const reason = `Budget used up: ${overrun}`;
+    stopRetryLoop(projectRoot, featureName, reason);
+
+    // The result event is the agent's last word - it's exiting anyway
+    if (final) {
+      appendLogLine(projectRoot, featureName, 'usage', `${reason} - no more runs`);
+      return;
+    }
+    appendLogLine(projectRoot, featureName, 'usage', `${reason} - stopping the agent`);
+    // feature_sync's conflict resolvers aren't the session's agent
+    if (getFeatureSession(projectRoot, featureName)?.pid === child.pid) {
+      void stopAgent(projectRoot, featureName, reason).catch(report);
+    } else {
+      child.kill('SIGTERM');
+    }
+  };
+
+  child.on('close', () => {
+    try {
+      if (runIndex !== undefined || pending) {
+        saveRun({ ...pending, endedAt: new Date().toISOString() });
+      }
+    } catch (error) {
+      report(error);
+    }
+  });
+
+  return line => {
+    try {
+      const event = parseUsageEvent(line);
+      if (!event) {
+        return;
+      }
+      if (event.final) {
+        // The reported totals and cost replace the estimate
+        const estimate = addUsage([...messages.values()]);
+        pending = { ...estimate, ...event.usage, costUsd: event.costUsd ?? estimate.costUsd, reported: event.costUsd !== undefined };
+      } else if (event.usage) {
+        messages.set(event.messageId || `message-${messages.size}`, { ...event.usage, costUsd: event.estimatedCostUsd ?? 0 });
+        pending = addUsage([...messages.values()]);
+      } else {
+        return;
+      }
+
+      // Registry writes and budget checks are throttled; the result event and the exit always save
+      if (!event.final && Date.now() - flushedAt < USAGE_FLUSH_INTERVAL_MS) {
+        return;
+      }
+      flushedAt = Date.now();
+      const totals = saveRun(pending);
+      pending = undefined;
+      if (totals && !budgetUsedUp) {
+        checkBudget(totals[0], totals[1], event.final);
+      }
+    } catch (error) {
+      report(error);
+    }
+  };
+}
+
+/**
+ * A feature's limits: its spec's `budget` frontmatter over the project's `budget.feature`.
+ */
+export function getFeatureBudget(projectRoot: string, featureName: string): UsageBudget {
+  const featureFile = getFeatureSession(projectRoot, featureName)?.featureFile;
+  let specBudget: UsageBudget | undefined;
+  try {
+    specBudget = featureFile ? readFeatureSpec(featureFile).config.budget : undefined;
+  } catch {
+    // Spec moved or deleted - the project's limits apply
+  }
+  return { ...loadProjectConfig(projectRoot).budget.feature, ...specBudget };
+}
+
+export function getUsageLedgerPath(projectRoot: string): string {
+  return path.join(getWorktreesPath(projectRoot), '.usage.json');
+}
+
+/**
+ * Everything the project's agents have used. Kept in its own ledger, so
+ * feature_cleanup doesn't take a feature's spending off the total.
+ */
+export function getProjectUsage(projectRoot: string): TokenUsage {
+  const ledgerPath = getUsageLedgerPath(projectRoot);
+  if (!fs.existsSync(ledgerPath)) {
+    // Projects metered before the ledger existed start from their registered features
+    return addUsage(listFeatureSessions(projectRoot).map(session => session.usage?.total || NO_USAGE));
+  }
+
+  try {
+    const ledger = JSON.parse(fs.readFileSync(ledgerPath, 'utf-8'));
+    return addUsage([ledger.total || NO_USAGE]);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Usage ledger at '${ledgerPath}' is corrupt: ${errorMessage}`);
+  }
+}
+
+function writeUsageLedger(projectRoot: string, total: TokenUsage): void {
+  const ledgerPath = getUsageLedgerPath(projectRoot);
+  // Written atomically, like the registry
+  fs.mkdirSync(path.dirname(ledgerPath), { recursive: true });
+  const tempPath = `${ledgerPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify({ total, updatedAt: new Date().toISOString() }, null, 2) + '\n');
+  fs.renameSync(tempPath, ledgerPath);
+}
+
+function subtractUsage(usage: TokenUsage, previous: TokenUsage): TokenUsage {
+  return {
+    inputTokens: usage.inputTokens - previous.inputTokens,
+    cachedInputTokens: usage.cachedInputTokens - previous.cachedInputTokens,
+    outputTokens: usage.outputTokens - previous.outputTokens,
+    costUsd: usage.costUsd - previous.costUsd,
+  };
+}
+
+/**
+ * Why the feature may not spend any more, e.g. "$5.12 of the feature's $5.00
+ * budget spent", or undefined while it's within its own and the project's budget.
+ */
+export function getBudgetOverrun(projectRoot: string, featureName: string): string | undefined {
+  const usage = getFeatureSession(projectRoot, featureName)?.usage?.total || NO_USAGE;
+  return findOverrun(usage, getFeatureBudget(projectRoot, featureName), "the feature's")
+    || findOverrun(getProjectUsage(projectRoot), loadProjectConfig(projectRoot).budget.total, "the project's");
+}
+
+function findOverrun(usage: TokenUsage, budget: UsageBudget, owner: string): string | undefined {
+  if (budget.maxCostUsd !== undefined && usage.costUsd >= budget.maxCostUsd) {
+    return `${formatCost(usage.costUsd)} of ${owner} ${formatCost(budget.maxCostUsd)} budget spent`;
+  }
+  const tokens = usage.inputTokens + usage.outputTokens;
+  if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+    return `${formatTokens(tokens)} of ${owner} ${formatTokens(budget.maxTokens)} token budget used`;
+  }
+  return undefined;
+}
+
+/**
+ * 950, 12.3k or 1.2M.
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) {
+    return String(tokens);
+  }
+  return tokens < 1000000 ? `${(tokens / 1000).toFixed(1)}k` : `${(tokens / 1000000).toFixed(1)}M`;
+}
+
+export function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(2)}`;
+}
+
+/**
+ * "1.2M in (1.1M cached) / 45.3k out tokens, $3.21".
+ */
+export function formatUsage(usage: TokenUsage): string {
+  return `${formatTokens(usage.inputTokens)} in (${formatTokens(usage.cachedInputTokens)} cached) / ${formatTokens(usage.outputTokens)} out tokens, ${formatCost(usage.costUsd)}`;
+}
+
+/**
+ * "$5.00 / 2.0M tokens", or undefined without limits.
+ */
+export function formatBudget(budget: UsageBudget): string | undefined {
+  const limits = [
+    budget.maxCostUsd !== undefined ? formatCost(budget.maxCostUsd) : undefined,
+    budget.maxTokens !== undefined ? `${formatTokens(budget.maxTokens)} tokens` : undefined,
+  ].filter(Boolean);
+  return limits.length > 0 ? limits.join(' / ') : undefined;
+}
@@ -0,0 +1,48 @@
+// Helpers for validating user-written settings (spec frontmatter, project config).
+// Each takes a fail callback that throws with the caller's context.
+
+export function asObject(value: unknown, key: string, fail: (message: string) => never): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(`'${key}' must be a mapping of keys to values`);
+  }
+  return value as Record<string, unknown>;
+}
+
+export function checkKeys(value: Record<string, unknown>, allowed: string[], prefix: string, fail: (message: string) => never): void {
+  const unknownKey = Object.keys(value).find(key => !allowed.includes(key));
+  if (unknownKey) {
+    fail(`unknown setting '${prefix}${unknownKey}' (expected one of: ${allowed.map(key => prefix + key).join(', ')})`);
+  }
+}
+
+export function asString(value: unknown, key: string, fail: (message: string) => never): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return fail(`'${key}' must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+// A single string is accepted as a one-item list
+export function asStringList(value: unknown, key: string, fail: (message: string) => never): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const items = Array.isArray(value) ? value : [value];
+  if (items.some(item => typeof item !== 'string' || !item.trim())) {
+    return fail(`'${key}' must be a string or a list of strings`);
+  }
+  return items.map(item => (item as string).trim());
+}
+
+export function asPositiveNumber(value: unknown, key: string, fail: (message: string) => never): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    return fail(`'${key}' must be a number greater than 0`);
+  }
+  return value;
+}
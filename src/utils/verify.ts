@@ -0,0 +1,242 @@
+import * as fs from 'fs';
+import { execa } from 'execa';
+import { appendLogLine, readLines } from './agent-log.js';
+import { readFeatureSpec } from './feature-spec.js';
+import { getIssueReference } from './github-issues.js';
+import { getForge, PullRequestOptions } from './forge.js';
+import { loadProjectConfig, PROJECT_CONFIG_FILE } from './project-config.js';
+import { FeatureSession, getFeatureSession, updateFeatureSession } from './registry.js';
+import type { RetryPolicy } from './retry.js';
+import { killProcessGroupOnAbort, throwIfCancelled } from './tool-calls.js';
+
+export const VERIFY_GATES = ['test', 'lint', 'typecheck', 'build'] as const;
+
+export type VerifyGate = typeof VERIFY_GATES[number];
+
+/**
+ * The `verify` section of .worktree-agent.json.
+ */
+export interface VerifyConfig {
+  // Shell command per gate, run in the worktree root; gates without one are skipped
+  commands: Partial<Record<VerifyGate, string>>;
+  // Verify whenever a background agent exits on its own
+  afterAgentExit: boolean;
+  // The agent doesn't open the PR - verification does, once every gate passes
+  requiredForPullRequest: boolean;
+  // Relaunch the agent while verification after its exit fails; off when unset
+  retry?: RetryPolicy;
+}
+
+export interface VerifyGateResult {
+  gate: VerifyGate;
+  command: string;
+  passed: boolean;
+  exitCode: number;
+  durationMs: number;
+  // Set when the gate failed: why, e.g. "exited with code 1"
+  error?: string;
+  // The tail of the gate's output (all of it is in the feature log)
+  output: string;
+}
+
+export interface VerifyReport {
+  trigger: 'feature_verify' | 'agent-exit';
+  ranAt: string;
+  // The worktree commit that was verified
+  commit?: string;
+  passed: boolean;
+  durationMs: number;
+  gates: VerifyGateResult[];
+  // Set when requiredForPullRequest opened (or found) the PR after a pass
+  pullRequest?: { url: string; created: boolean };
+  pullRequestError?: string;
+}
+
+// Test suites and builds can be slow, but not this slow
+const VERIFY_TIMEOUT_MS = 30 * 60 * 1000;
+
+// How much of each gate's output is kept in the report
+const OUTPUT_LINES = 30;
+const MAX_OUTPUT_LINE_LENGTH = 500;
+
+/**
+ * The configured gates in order, optionally narrowed to `only`.
+ */
+export function getVerifyGates(config: VerifyConfig, only?: VerifyGate[]): Array<{ gate: VerifyGate; command: string }> {
+  return VERIFY_GATES
+    .filter(gate => config.commands[gate] && (!only || only.includes(gate)))
+    .map(gate => ({ gate, command: config.commands[gate]! }));
+}
+
+/**
+ * Run the gates one after another in the worktree. Every gate runs, failures
+ * included, so the report is complete; output goes to the feature log. Aborting
+ * the signal kills the running gate and throws.
+ */
+export async function runVerifyGates(
+  projectRoot: string,
+  featureName: string,
+  worktreePath: string,
+  gates: Array<{ gate: VerifyGate; command: string }>,
+  signal?: AbortSignal
+): Promise<VerifyGateResult[]> {
+  const results: VerifyGateResult[] = [];
+
+  for (const { gate, command } of gates) {
+    appendLogLine(projectRoot, featureName, 'verify', `Running ${gate}: ${command}`);
+    const startedAt = Date.now();
+    const subprocess = execa(command, {
+      shell: true,
+      cwd: worktreePath,
+      buffer: false,
+      reject: false,
+      timeout: VERIFY_TIMEOUT_MS,
+      detached: true,
+    });
+    const stopKilling = killProcessGroupOnAbort(subprocess.pid, signal);
+
+    // Output goes to the log as it comes; only the tail is held on to for the report
+    const tail: string[] = [];
+    const onLine = (line: string) => {
+      if (!line) {
+        return;
+      }
+      appendLogLine(projectRoot, featureName, 'verify', line);
+      tail.push(line.length > MAX_OUTPUT_LINE_LENGTH ? `${line.slice(0, MAX_OUTPUT_LINE_LENGTH)}…` : line);
+      if (tail.length > OUTPUT_LINES) {
+        tail.shift();
+      }
+    };
+    const output = [subprocess.stdout, subprocess.stderr].flatMap(pipe => pipe ? [readLines(pipe, onLine)] : []);
+    const result = await subprocess.finally(stopKilling);
+    await Promise.all(output);
+
+    const gateResult: VerifyGateResult = {
+      gate,
+      command,
+      passed: !result.failed,
+      exitCode: result.exitCode ?? -1,
+      durationMs: Date.now() - startedAt,
+      output: tail.join('\n'),
+    };
+    if (result.failed) {
+      gateResult.error = signal?.aborted ? 'cancelled'
+        : result.timedOut ? `timed out after ${VERIFY_TIMEOUT_MS / 1000}s`
+        : `exited with code ${gateResult.exitCode}`;
+    }
+    appendLogLine(projectRoot, featureName, 'verify', `${gate} ${gateResult.passed ? 'passed' : `failed: ${gateResult.error}`}`);
+    results.push(gateResult);
+    throwIfCancelled(signal);
+  }
+
+  return results;
+}
+
+/**
+ * Verify a feature's worktree and record the report in the registry. With
+ * requiredForPullRequest, a full pass also opens the PR the agent was told to leave alone.
+ */
+export async function verifyFeature(
+  projectRoot: string,
+  featureName: string,
+  options: { trigger: VerifyReport['trigger']; only?: VerifyGate[]; signal?: AbortSignal }
+): Promise<VerifyReport> {
+  const session = getFeatureSession(projectRoot, featureName);
+  if (!session) {
+    throw new Error(`Feature '${featureName}' has no recorded session. Only features started by feature_start can be verified.`);
+  }
+  if (!fs.existsSync(session.worktreePath)) {
+    throw new Error(`Worktree for '${featureName}' not found at '${session.worktreePath}'`);
+  }
+
+  const config = loadProjectConfig(projectRoot).verify;
+  const gates = getVerifyGates(config, options.only);
+  if (gates.length === 0) {
+    throw new Error(`No verify commands configured${options.only ? ` for ${options.only.join(', ')}` : ''} - set verify.commands in ${PROJECT_CONFIG_FILE}`);
+  }
+
+  let commit: string | undefined;
+  try {
+    commit = (await execa('git', ['rev-parse', 'HEAD'], { stdio: 'pipe', cwd: session.worktreePath })).stdout.trim();
+  } catch {
+    // Reported without a commit
+  }
+
+  const startedAt = Date.now();
+  const results = await runVerifyGates(projectRoot, featureName, session.worktreePath, gates, options.signal);
+  const report: VerifyReport = {
+    trigger: options.trigger,
+    ranAt: new Date().toISOString(),
+    commit,
+    passed: results.every(result => result.passed),
+    durationMs: Date.now() - startedAt,
+    gates: results,
+  };
+
+  // A partial run doesn't clear the way for a PR
+  if (report.passed && config.requiredForPullRequest && getVerifyGates(config).length === results.length) {
+    try {
+      report.pullRequest = await openVerifiedPullRequest(projectRoot, session);
+      if (report.pullRequest?.created) {
+        appendLogLine(projectRoot, featureName, 'verify', `Opened ${report.pullRequest.url}`);
+      }
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      report.pullRequestError = stderr || (error instanceof Error ? error.message : 'Unknown error');
+      appendLogLine(projectRoot, featureName, 'verify', `Could not open the pull request: ${report.pullRequestError}`);
+    }
+  }
+
+  updateFeatureSession(projectRoot, featureName, { verify: report });
+  return report;
+}
+
+// Push the branch and open its PR, unless there already is one (or the forge has none)
+async function openVerifiedPullRequest(projectRoot: string, session: FeatureSession): Promise<VerifyReport['pullRequest']> {
+  const forge = await getForge(projectRoot);
+  if (forge.name === 'local') {
+    return undefined;
+  }
+
+  const context = {
+    projectRoot,
+    worktreePath: session.worktreePath,
+    branchName: session.branchName,
+    baseBranch: session.baseBranch,
+    baseCommit: session.baseCommit,
+  };
+  const existing = await forge.findPullRequest(context);
+  if (existing) {
+    return { url: existing.url, created: false };
+  }
+
+  await execa('git', ['push', '-u', 'origin', session.branchName], { stdio: 'pipe', cwd: session.worktreePath });
+
+  // The spec may have been moved or deleted since the start - fall back to the forge's defaults
+  let options: PullRequestOptions = {};
+  try {
+    options = { ...readFeatureSpec(session.featureFile).config.pr };
+  } catch {
+    // No spec settings
+  }
+  // The agent would have put this in the description itself
+  if (session.issue) {
+    options = { ...options, title: session.issue.title || session.featureName, body: `Closes ${await getIssueReference(projectRoot, session.issue)}` };
+  }
+
+  const pullRequest = await forge.createPullRequest(context, options);
+  return { url: pullRequest.url, created: true };
+}
+
+/**
+ * Tool output for a verification, e.g. "passed in 42.0s" then one line per gate.
+ */
+export function formatVerifyReport(report: VerifyReport): string {
+  const failed = report.gates.filter(gate => !gate.passed).length;
+  const total = `${failed > 0 ? `${failed} of ${report.gates.length} failed` : 'passed'} in ${(report.durationMs / 1000).toFixed(1)}s${report.commit ? ` at ${report.commit.substring(0, 7)}` : ''}`;
+  const lines = report.gates.map(gate => {
+    const line = `${gate.passed ? '✅' : '❌'} ${gate.gate}: ${gate.command} (${(gate.durationMs / 1000).toFixed(1)}s)`;
+    return gate.error ? `${line} - ${gate.error}` : line;
+  });
+  return `${total}\n${lines.map(line => `   ${line}`).join('\n')}`;
+}
@@ -0,0 +1,28 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execa } from 'execa';
+
+// Written into worktrees by the server (CONFLICTS.md by older feature_sync versions), not by the agent
+const HANDOFF_FILES = ['FEATURE.md', 'REVISION.md', 'CONFLICTS.md'];
+
+/**
+ * `git diff <base>` for a worktree, with files the agent created but never
+ * added shown as new files. They're marked intent-to-add in a copy of the
+ * index, so the worktree's own index is left alone.
+ */
+export async function diffWorktree(worktreePath: string, base: string): Promise<string> {
+  const indexPath = path.resolve(worktreePath, (await execa('git', ['rev-parse', '--git-path', 'index'], { stdio: 'pipe', cwd: worktreePath })).stdout.trim());
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-diff-'));
+  const git = (args: string[]) => execa('git', args, { stdio: 'pipe', cwd: worktreePath, env: { GIT_INDEX_FILE: path.join(tempDir, 'index') } });
+  try {
+    if (fs.existsSync(indexPath)) {
+      fs.copyFileSync(indexPath, path.join(tempDir, 'index'));
+    }
+    // Gitignored files stay out, as they would from git add
+    await git(['add', '--intent-to-add', '--all', '--', '.', ...HANDOFF_FILES.map(file => `:(exclude)${file}`)]);
+    return (await git(['diff', base])).stdout;
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { execa } from 'execa'
+import { featureCleanup } from '../../src/tools/feature-cleanup'
+import { getConflictsReportPath } from '../../src/tools/feature-sync'
+import { appendLogLine, getLogPath } from '../../src/utils/agent-log'
+import { getIssueSpecPath } from '../../src/utils/github-issues'
+import { getFeatureSession, saveFeatureSession } from '../../src/utils/registry'
+import { createTestSession } from '../utils/fixtures'
+
+describe('feature-cleanup', () => {
+  let tempDir: string
+  let projectRoot: string
+
+  const git = (...args: string[]) => execa('git', args, { cwd: projectRoot })
+  const retriesPath = () => path.join(projectRoot, '.worktrees', '.retries')
+
+  beforeEach(async () => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-cleanup-')))
+    process.env.WORKTREE_AGENT_HOME = path.join(tempDir, 'home')
+    projectRoot = path.join(tempDir, 'app')
+    fs.mkdirSync(projectRoot)
+
+    await git('init', '-q', '-b', 'main')
+    await git('config', 'user.email', 'test@example.com')
+    await git('config', 'user.name', 'Test')
+    fs.writeFileSync(path.join(projectRoot, '.gitignore'), '.worktrees/\n')
+    await git('add', '.')
+    await git('commit', '-q', '-m', 'initial')
+
+    const session = createTestSession(projectRoot)
+    await git('worktree', 'add', '-q', '-b', session.branchName, session.worktreePath)
+    saveFeatureSession(projectRoot, session)
+  })
+
+  afterEach(() => {
+    delete process.env.WORKTREE_AGENT_HOME
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('should remove the worktree, the branch and everything the server kept for the feature', async () => {
+    appendLogLine(projectRoot, 'test-feature', 'agent', 'Started')
+    for (const file of [getIssueSpecPath(projectRoot, 'test-feature'), getConflictsReportPath(projectRoot, 'test-feature')]) {
+      fs.mkdirSync(path.dirname(file), { recursive: true })
+      fs.writeFileSync(file, '# Notes\n')
+    }
+    fs.mkdirSync(retriesPath(), { recursive: true })
+    for (const brief of ['test-feature-2.md', 'test-feature-3.md', 'test-feature-two-2.md']) {
+      fs.writeFileSync(path.join(retriesPath(), brief), '# Retry\n')
+    }
+
+    const result = JSON.parse((await featureCleanup({ projectRoot, featureName: 'test-feature', force: true, format: 'json' })).content[0].text)
+    expect(result).toMatchObject({ cleaned: 1, features: [{ featureName: 'test-feature', outcome: 'cleaned', branchRemoved: true }] })
+
+    expect(fs.existsSync(path.join(projectRoot, '.worktrees', 'test-feature'))).toBe(false)
+    expect((await git('branch', '--list', 'feature/test-feature')).stdout).toBe('')
+    expect(getFeatureSession(projectRoot, 'test-feature')).toBeUndefined()
+    expect(fs.existsSync(getLogPath(projectRoot, 'test-feature'))).toBe(false)
+    expect(fs.existsSync(getIssueSpecPath(projectRoot, 'test-feature'))).toBe(false)
+    expect(fs.existsSync(getConflictsReportPath(projectRoot, 'test-feature'))).toBe(false)
+    // Another feature's retry briefs stay
+    expect(fs.readdirSync(retriesPath())).toEqual(['test-feature-two-2.md'])
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { execa } from 'execa'
+import { featureLogs } from '../../src/tools/feature-logs'
+import { appendLogLine, captureAgentOutput, getLogPath, readLogTail, removeLogs } from '../../src/utils/agent-log'
+
+describe('feature-logs', () => {
+  let projectRoot: string
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-logs-'))
+    process.env.PROJECT_ROOT = projectRoot
+  })
+
+  afterEach(() => {
+    delete process.env.PROJECT_ROOT
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  it('should capture stdout and stderr of an agent process', async () => {
+    const child = execa('node', ['-e', 'console.log("hello from agent"); console.error("warning from agent")'], {
+      stdio: ['pipe', 'pipe', 'pipe'],
+      buffer: false
+    })
+    captureAgentOutput(projectRoot, 'test-feature', child, 'node -e ...')
+    const closed = new Promise(resolve => child.on('close', resolve))
+    await child
+    await closed
+
+    const log = fs.readFileSync(getLogPath(projectRoot, 'test-feature'), 'utf-8')
+    expect(log).toContain('[stdout] hello from agent')
+    expect(log).toContain('[stderr] warning from agent')
+    expect(log).toContain('[agent] Exited with code 0')
+  })
+
+  it('should report when no logs exist', async () => {
+    const result = await featureLogs({ featureName: 'missing-feature' })
+
+    expect(result.content[0].text).toContain('No agent logs found')
+  })
+
+  it('should filter with grep and tail', async () => {
+    for (let i = 1; i <= 5; i++) {
+      appendLogLine(projectRoot, 'test-feature', 'stdout', `step ${i}`)
+    }
+    appendLogLine(projectRoot, 'test-feature', 'stderr', 'Error: tests failed')
+
+    const tailed = await featureLogs({ featureName: 'test-feature', tail: 2 })
+    expect(tailed.content[0].text).toContain('step 5')
+    expect(tailed.content[0].text).not.toContain('step 3')
+
+    const grepped = await featureLogs({ featureName: 'test-feature', grep: 'error' })
+    expect(grepped.content[0].text).toContain('Error: tests failed')
+    expect(grepped.content[0].text).not.toContain('step 1')
+  })
+
+  it('should filter by since', async () => {
+    const logPath = getLogPath(projectRoot, 'test-feature')
+    fs.mkdirSync(path.dirname(logPath), { recursive: true })
+    fs.writeFileSync(logPath, '2020-01-01T00:00:00.000Z [stdout] ancient output\n')
+    appendLogLine(projectRoot, 'test-feature', 'stdout', 'recent output')
+
+    const result = await featureLogs({ featureName: 'test-feature', since: '1h' })
+
+    expect(result.content[0].text).toContain('recent output')
+    expect(result.content[0].text).not.toContain('ancient output')
+    await expect(featureLogs({ featureName: 'test-feature', since: 'yesterday-ish' })).rejects.toThrow('Invalid since value')
+  })
+
+  it('should rotate at 5 MB and read only the tail of the live log', () => {
+    const chunk = 'x'.repeat(1024 * 1024)
+    for (let i = 1; i <= 5; i++) {
+      appendLogLine(projectRoot, 'test-feature', 'stdout', chunk)
+    }
+    for (let i = 1; i <= 3; i++) {
+      appendLogLine(projectRoot, 'test-feature', 'stdout', `step ${i}`)
+    }
+
+    const logPath = getLogPath(projectRoot, 'test-feature')
+    expect(fs.statSync(`${logPath}.1`).size).toBeGreaterThan(5 * 1024 * 1024)
+    expect(fs.readFileSync(logPath, 'utf-8').split('\n').filter(Boolean)).toHaveLength(3)
+    // The partial line the tail starts in is dropped
+    expect(readLogTail(projectRoot, 'test-feature', 60).map(line => line.text)).toEqual(['step 3'])
+    expect(readLogTail(projectRoot, 'test-feature', 1024).map(line => line.text)).toEqual(['step 1', 'step 2', 'step 3'])
+
+    removeLogs(projectRoot, 'test-feature')
+    expect(fs.existsSync(logPath)).toBe(false)
+    expect(readLogTail(projectRoot, 'test-feature', 1024)).toEqual([])
+  })
+
+  it('should return structured results when asked for JSON', async () => {
+    appendLogLine(projectRoot, 'test-feature', 'stdout', 'step 1')
+    appendLogLine(projectRoot, 'test-feature', 'stderr', 'Error: tests failed')
+
+    const json = await featureLogs({ featureName: 'test-feature', grep: 'error', format: 'json' })
+    expect(json.content).toHaveLength(1)
+    expect(JSON.parse(json.content[0].text)).toMatchObject({
+      featureName: 'test-feature',
+      totalLines: 2,
+      matchedLines: 1,
+      lines: [{ stream: 'stderr', text: 'Error: tests failed' }]
+    })
+
+    const both = await featureLogs({ featureName: 'test-feature', format: 'both' })
+    expect(both.content).toHaveLength(2)
+    expect(both.content[0].text).toContain('Agent Logs: test-feature')
+    expect(JSON.parse(both.content[1].text).totalLines).toBe(2)
+
+    await expect(featureLogs({ featureName: 'test-feature', format: 'xml' as any })).rejects.toThrow("Invalid format 'xml'")
+  })
+})
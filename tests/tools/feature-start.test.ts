@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { execa } from 'execa'
+import { featureStart } from '../../src/tools/feature-start'
+import { featureStop } from '../../src/tools/feature-stop'
+import { featureCleanup } from '../../src/tools/feature-cleanup'
+import { getAgentLifecycle } from '../../src/utils/agent-process'
+import { getFeatureSession } from '../../src/utils/registry'
+import { createToolCallRegistry } from '../../src/utils/tool-calls'
+
+const ADMIN_SPEC = `# Admin
+
+## Summary
+An admin page.
+
+## Acceptance Criteria
+- [ ] Admins can sign in
+
+## Out of Scope
+- Audit logs
+`
+
+describe('feature_start progress and cancellation', () => {
+  let tempDir: string
+  let projectRoot: string
+
+  const git = (...args: string[]) => execa('git', args, { cwd: projectRoot })
+
+  beforeEach(async () => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-start-')))
+    process.env.WORKTREE_AGENT_HOME = path.join(tempDir, 'home')
+    projectRoot = path.join(tempDir, 'app')
+    fs.mkdirSync(path.join(projectRoot, 'features'), { recursive: true })
+
+    await git('init', '-q', '-b', 'main')
+    await git('config', 'user.email', 'test@example.com')
+    await git('config', 'user.name', 'Test')
+    fs.writeFileSync(path.join(projectRoot, '.gitignore'), '.worktrees/\n')
+    fs.writeFileSync(path.join(projectRoot, 'features', 'admin.md'), ADMIN_SPEC)
+    // An install that only ends when it's killed
+    fs.writeFileSync(path.join(projectRoot, '.worktree-agent.json'), JSON.stringify({ installCommands: ['sleep 30'] }))
+    await git('add', '.')
+    await git('commit', '-q', '-m', 'initial')
+  })
+
+  afterEach(() => {
+    delete process.env.WORKTREE_AGENT_HOME
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('should report each phase and roll back when cancelled during the install', async () => {
+    const calls = createToolCallRegistry()
+    const signal = calls.begin(7)
+    const phases: string[] = []
+
+    const startedAt = Date.now()
+    const start = featureStart({ projectRoot, featureFile: 'features/admin.md', agentProfile: 'claude' }, {
+      signal,
+      reportProgress: (progress, total, message) => {
+        phases.push(`${progress}/${total} ${message}`)
+        if (message === 'Installing dependencies') {
+          setTimeout(() => calls.cancel(7, 'user pressed stop'), 200)
+        }
+      }
+    })
+
+    await expect(start).rejects.toThrow('Cancelled by the client: user pressed stop')
+    expect(Date.now() - startedAt).toBeLessThan(10000)
+    expect(phases).toEqual([
+      '0/5 Creating branch',
+      '1/5 Adding worktree',
+      '2/5 Syncing local files',
+      '3/5 Installing dependencies'
+    ])
+
+    // Worktree, branch and session are gone; the main checkout never left main
+    expect(fs.existsSync(path.join(projectRoot, '.worktrees', 'admin'))).toBe(false)
+    expect((await git('branch', '--list', 'feature/admin')).stdout).toBe('')
+    expect((await git('branch', '--show-current')).stdout).toBe('main')
+    expect(getFeatureSession(projectRoot, 'admin')).toBeUndefined()
+    expect(calls.cancel(7)).toBe(false)
+  })
+
+  it('should let feature_stop call off the launch during the install and keep the feature', async () => {
+    let installing!: () => void
+    const installStarted = new Promise<void>(resolve => installing = resolve)
+    const start = featureStart({ projectRoot, featureFile: 'features/admin.md', agentProfile: 'claude' }, {
+      reportProgress: (progress, total, message) => {
+        if (message === 'Installing dependencies') {
+          setTimeout(installing, 200)
+        }
+      }
+    })
+    await installStarted
+
+    // Cleanup leaves a launch alone unless forced
+    const cleanup = JSON.parse((await featureCleanup({ projectRoot, featureName: 'admin', format: 'json' })).content[0].text)
+    expect(cleanup.features[0]).toMatchObject({ outcome: 'skipped', reason: 'agent-launching' })
+
+    const stop = JSON.parse((await featureStop({ projectRoot, featureName: 'admin', reason: 'Wrong spec', format: 'json' })).content[0].text)
+    expect(stop).toMatchObject({ stopped: 'launching', reason: 'Wrong spec' })
+    await expect(start).rejects.toThrow('Launch cancelled: Wrong spec')
+
+    // The worktree stays for feature_revision, with no agent behind it
+    expect(fs.existsSync(path.join(projectRoot, '.worktrees', 'admin'))).toBe(true)
+    const session = getFeatureSession(projectRoot, 'admin')!
+    expect(session.pid).toBeUndefined()
+    expect(await getAgentLifecycle(session)).toMatchObject({ state: 'stopped', stopReason: 'Wrong spec' })
+  })
+
+  it('should leave a branch it did not create alone', async () => {
+    await git('branch', 'feature/admin')
+
+    await expect(featureStart({ projectRoot, featureFile: 'features/admin.md' })).rejects.toThrow("'feature/admin' already exists")
+    expect((await git('branch', '--list', 'feature/admin')).stdout).toContain('feature/admin')
+  })
+
+  it('should refuse a spec with lint errors unless forced', async () => {
+    fs.writeFileSync(path.join(projectRoot, 'features', 'admin.md'), '# Admin\n\n## Summary\nAn admin page.\n')
+
+    await expect(featureStart({ projectRoot, featureFile: 'features/admin.md' }))
+      .rejects.toThrow("Feature spec 'features/admin.md' has 2 lint error(s) - fix them or pass force: true")
+    expect(fs.existsSync(path.join(projectRoot, '.worktrees', 'admin'))).toBe(false)
+
+    // Forced, it gets as far as the install (cancelled here to keep the agent from launching)
+    const calls = createToolCallRegistry()
+    const signal = calls.begin(8)
+    const start = featureStart({ projectRoot, featureFile: 'features/admin.md', force: true }, {
+      signal,
+      reportProgress: (progress, total, message) => {
+        if (message === 'Installing dependencies') {
+          setTimeout(() => calls.cancel(8), 100)
+        }
+      }
+    })
+    await expect(start).rejects.toThrow('Cancelled by the client')
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { spawn, ChildProcess } from 'child_process'
+import { featureStop } from '../../src/tools/feature-stop'
+import { getProcessTree, isProcessAlive } from '../../src/utils/agent-process'
+import { getFeatureSession, saveFeatureSession } from '../../src/utils/registry'
+
+// A parent that spawns a long-running child, like an agent running a dev server
+const PARENT_SCRIPT = `
+const { spawn } = require('child_process');
+spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'ignore' });
+IGNORE_TERM
+setInterval(() => {}, 1000);
+`
+
+function spawnAgent(ignoreSigterm = false): ChildProcess {
+  const script = PARENT_SCRIPT.replace('IGNORE_TERM', ignoreSigterm ? "process.on('SIGTERM', () => {});" : '')
+  return spawn(process.execPath, ['-e', script], { stdio: 'ignore' })
+}
+
+async function waitForChildren(pid: number): Promise<number[]> {
+  for (let i = 0; i < 40; i++) {
+    const tree = await getProcessTree(pid)
+    if (tree.length > 1) {
+      return tree
+    }
+    await new Promise(resolve => setTimeout(resolve, 50))
+  }
+  throw new Error('Agent child process never started')
+}
+
+describe('feature-stop', () => {
+  let projectRoot: string
+  let spawned: number[] = []
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-stop-'))
+    process.env.PROJECT_ROOT = projectRoot
+    spawned = []
+  })
+
+  afterEach(() => {
+    for (const pid of spawned) {
+      try {
+        process.kill(pid, 'SIGKILL')
+      } catch {
+        // Already stopped
+      }
+    }
+    delete process.env.PROJECT_ROOT
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  function registerAgent(agent: ChildProcess) {
+    saveFeatureSession(projectRoot, {
+      featureName: 'test-feature',
+      featureFile: path.join(projectRoot, 'features/test-feature.md'),
+      worktreePath: path.join(projectRoot, '.worktrees/test-feature'),
+      branchName: 'feature/test-feature',
+      baseBranch: 'main',
+      pid: agent.pid,
+      command: `${process.execPath} -e ...`,
+      mode: 'background',
+      createdAt: new Date().toISOString(),
+      startedAt: new Date().toISOString()
+    })
+  }
+
+  it('should stop the agent and its child processes with SIGTERM', async () => {
+    const agent = spawnAgent()
+    const tree = await waitForChildren(agent.pid!)
+    spawned.push(...tree)
+    registerAgent(agent)
+
+    const result = await featureStop({ featureName: 'test-feature', reason: 'Runaway agent' })
+
+    expect(result.content[0].text).toContain('SIGTERM')
+    expect(tree.some(isProcessAlive)).toBe(false)
+    expect(getFeatureSession(projectRoot, 'test-feature')?.stopReason).toBe('Runaway agent')
+  })
+
+  it('should escalate to SIGKILL after the grace period', async () => {
+    const agent = spawnAgent(true)
+    const tree = await waitForChildren(agent.pid!)
+    spawned.push(...tree)
+    registerAgent(agent)
+
+    const result = await featureStop({ featureName: 'test-feature', gracePeriodSeconds: 0.5 })
+
+    expect(result.content[0].text).toContain('SIGKILL')
+    expect(tree.some(isProcessAlive)).toBe(false)
+  })
+
+  it('should report when no agent is running', async () => {
+    const agent = spawnAgent()
+    spawned.push(agent.pid!)
+    registerAgent(agent)
+    await featureStop({ featureName: 'test-feature' })
+
+    const result = await featureStop({ featureName: 'test-feature' })
+
+    expect(result.content[0].text).toContain('No running agent found')
+  })
+
+  it('should refuse features without a recorded session', async () => {
+    await expect(featureStop({ featureName: 'unknown-feature' })).rejects.toThrow('no recorded session')
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import { featureVerify } from '../../src/tools/feature-verify'
+import { AgentLaunch, launchAgent } from '../../src/utils/agent-runner'
+import { getLogPath } from '../../src/utils/agent-log'
+import { loadProjectConfig } from '../../src/utils/project-config'
+import { DEFAULT_PROMPT_TEMPLATES, renderTemplate } from '../../src/utils/prompt-templates'
+import { getFeatureSession, updateFeatureSession } from '../../src/utils/registry'
+import { createTestFeature } from '../utils/fixtures'
+
+describe('feature-verify', () => {
+  let projectRoot: string
+  let worktreePath: string
+  let writeConfig: (config: unknown) => void
+  let cleanup: () => void
+
+  beforeEach(() => {
+    ({ projectRoot, worktreePath, writeConfig, cleanup } = createTestFeature('worktree-verify-'))
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('should run every configured gate and save the results', async () => {
+    writeConfig({ verify: { commands: { test: 'echo 12 tests passed', lint: 'echo "src/a.ts: unused import" >&2; exit 1', typecheck: 'pwd' } } })
+
+    const result = await featureVerify({ projectRoot, featureName: 'test-feature', format: 'both' })
+    const [text, json] = result.content.map(item => item.text)
+    expect(text).toContain('❌ Verification failed: test-feature')
+    expect(text).toContain('1 of 3 failed')
+    expect(text).toContain('**lint** (`echo "src/a.ts: unused import" >&2; exit 1`):\n```\nsrc/a.ts: unused import\n```')
+
+    const report = JSON.parse(json)
+    expect(report.gates.map((gate: any) => [gate.gate, gate.passed, gate.error])).toEqual([
+      ['test', true, undefined],
+      ['lint', false, 'exited with code 1'],
+      ['typecheck', true, undefined]
+    ])
+    expect(report.gates[2].output).toBe(worktreePath)
+    expect(getFeatureSession(projectRoot, 'test-feature')?.verify).toMatchObject({ trigger: 'feature_verify', passed: false })
+    expect(fs.readFileSync(getLogPath(projectRoot, 'test-feature'), 'utf-8')).toContain('[verify] lint failed: exited with code 1')
+
+    // A single gate on its own
+    const testOnly = JSON.parse((await featureVerify({ projectRoot, featureName: 'test-feature', gates: ['test'], format: 'json' })).content[0].text)
+    expect(testOnly).toMatchObject({ passed: true, gates: [{ gate: 'test' }] })
+    await expect(featureVerify({ projectRoot, featureName: 'test-feature', gates: ['deploy' as any] })).rejects.toThrow('Unknown gate(s) deploy')
+  })
+
+  it('should stream gate output to the log and keep only its tail', async () => {
+    writeConfig({ verify: { commands: { test: 'echo started; sleep 0.5; seq 1 100' } } })
+
+    const verifying = featureVerify({ projectRoot, featureName: 'test-feature', format: 'json' })
+    await new Promise(resolve => setTimeout(resolve, 300))
+    expect(fs.readFileSync(getLogPath(projectRoot, 'test-feature'), 'utf-8')).toContain('[verify] started')
+
+    const report = JSON.parse((await verifying).content[0].text)
+    expect(report.gates[0].output.split('\n')).toHaveLength(30)
+    expect(report.gates[0].output).toMatch(/^71\n72\n[\s\S]*\n100$/)
+    expect(fs.readFileSync(getLogPath(projectRoot, 'test-feature'), 'utf-8')).toContain('[verify] 1\n')
+  })
+
+  it('should verify after the agent exits and keep the PR for verification', async () => {
+    writeConfig({ verify: { commands: { build: 'echo built' } } })
+    const launch: AgentLaunch = { profile: 'command', mode: 'background', command: 'sh', args: ['-c', 'echo done'], prompt: '' }
+    const child = launchAgent(projectRoot, 'test-feature', worktreePath, launch)
+    updateFeatureSession(projectRoot, 'test-feature', { pid: child.pid, startedAt: new Date().toISOString() })
+
+    for (let i = 0; i < 50 && !getFeatureSession(projectRoot, 'test-feature')?.verify; i++) {
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+    expect(getFeatureSession(projectRoot, 'test-feature')?.verify).toMatchObject({ trigger: 'agent-exit', passed: true })
+
+    writeConfig({ verify: { requiredForPullRequest: true } })
+    expect(() => loadProjectConfig(projectRoot)).toThrow("'verify.requiredForPullRequest' needs at least one command")
+
+    const prompt = renderTemplate(DEFAULT_PROMPT_TEMPLATES.start, {
+      featureName: 'test-feature', featureFile: 'x.md', worktreePath, branchName: 'feature/test-feature', baseBranch: 'main',
+      forgeName: 'GitHub', requestLabel: 'PR', requestName: 'Pull Request', createCommand: '',
+      issueNumber: undefined, issueUrl: '', issueReference: '', verifyCommands: '- build: `echo built`', verifyOpensRequest: true
+    })
+    expect(prompt).toContain("don't push or open a Pull Request; one is opened for you once the checks below pass")
+    expect(prompt).toContain('make sure they pass:\n- build: `echo built`')
+  })
+
+  it('should leave a sync conflict resolver unverified', async () => {
+    writeConfig({ verify: { commands: { build: 'echo built' } } })
+    const launch: AgentLaunch = { profile: 'command', mode: 'background', command: 'sh', args: ['-c', 'echo resolved'], prompt: '' }
+    const child = launchAgent(projectRoot, 'test-feature', worktreePath, launch, { run: 'sync' })
+    updateFeatureSession(projectRoot, 'test-feature', { pid: child.pid, startedAt: new Date().toISOString() })
+
+    for (let i = 0; i < 50 && !getFeatureSession(projectRoot, 'test-feature')?.exit; i++) {
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+    expect(getFeatureSession(projectRoot, 'test-feature')?.exit).toMatchObject({ exitCode: 0 })
+    // feature_sync still has the rebase to finish
+    await new Promise(resolve => setTimeout(resolve, 300))
+    expect(getFeatureSession(projectRoot, 'test-feature')?.verify).toBeUndefined()
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { execa } from 'execa'
+import { projectAdd } from '../../src/tools/project-add'
+import { projectList } from '../../src/tools/project-list'
+import { featureStatus } from '../../src/tools/feature-status'
+import { resolveProjectRoot } from '../../src/utils/projects'
+import { saveFeatureSession } from '../../src/utils/registry'
+
+describe('multiple projects', () => {
+  let tempDir: string
+  let webRoot: string
+  let apiRoot: string
+
+  const json = (result: { content: Array<{ text: string }> }) => JSON.parse(result.content[0].text)
+
+  const createRepository = async (name: string) => {
+    const root = path.join(tempDir, name)
+    fs.mkdirSync(path.join(root, 'src'), { recursive: true })
+    await execa('git', ['init', '-q', '-b', 'main'], { cwd: root })
+    return fs.realpathSync(root)
+  }
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-projects-'))
+    process.env.WORKTREE_AGENT_HOME = path.join(tempDir, 'home')
+    delete process.env.PROJECT_ROOT
+    webRoot = await createRepository('web')
+    apiRoot = await createRepository('api')
+  })
+
+  afterEach(() => {
+    delete process.env.WORKTREE_AGENT_HOME
+    delete process.env.PROJECT_ROOT
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('should register projects and resolve them by name or path', async () => {
+    // A subdirectory registers the repository it belongs to
+    const added = json(await projectAdd({ projectRoot: path.join(webRoot, 'src'), format: 'json' }))
+    expect(added.project).toMatchObject({ name: 'web', projectRoot: webRoot })
+    await projectAdd({ projectRoot: apiRoot, name: 'backend' })
+
+    expect(resolveProjectRoot('backend')).toBe(apiRoot)
+    expect(resolveProjectRoot(webRoot)).toBe(webRoot)
+    expect(() => resolveProjectRoot('mobile')).toThrow("Unknown project 'mobile' - pass an absolute path or one of: backend, web")
+    expect(() => resolveProjectRoot()).toThrow('PROJECT_ROOT environment variable not set')
+
+    // PROJECT_ROOT is still the default when no projectRoot is given
+    process.env.PROJECT_ROOT = webRoot
+    expect(resolveProjectRoot()).toBe(webRoot)
+
+    await expect(projectAdd({ projectRoot: apiRoot, name: 'api' })).rejects.toThrow(`'${apiRoot}' is already registered as 'backend'`)
+    await expect(projectAdd({ projectRoot: webRoot, name: 'backend' })).rejects.toThrow("Project 'backend' is already registered")
+    await expect(projectAdd({ projectRoot: tempDir, name: 'scratch' })).rejects.toThrow('is not inside a git repository')
+
+    const listed = json(await projectList({ format: 'json' }))
+    expect(listed.projects.map((project: { name: string; isDefault: boolean }) => [project.name, project.isDefault]))
+      .toEqual([['backend', false], ['web', true]])
+  })
+
+  it('should report feature status across all projects', async () => {
+    await projectAdd({ projectRoot: webRoot })
+    await projectAdd({ projectRoot: apiRoot })
+    saveFeatureSession(apiRoot, {
+      featureName: 'rate-limits',
+      featureFile: path.join(apiRoot, 'features/rate-limits.md'),
+      worktreePath: path.join(apiRoot, '.worktrees', 'rate-limits'),
+      branchName: 'feature/rate-limits',
+      baseBranch: 'main',
+      command: 'claude',
+      mode: 'background',
+      createdAt: '2024-01-01T00:00:00Z'
+    })
+
+    const result = await featureStatus({ allProjects: true, format: 'both' })
+    expect(result.content[0].text).toContain(`## api (${apiRoot})`)
+    expect(result.content[0].text).toContain('rate-limits')
+
+    const status = JSON.parse(result.content[1].text)
+    expect(status.projects.map((project: { name: string }) => project.name)).toEqual(['api', 'web'])
+    expect(status.projects[0].status.features.map((feature: { featureName: string }) => feature.featureName)).toEqual(['rate-limits'])
+    expect(status.projects[1].status.features).toEqual([])
+
+    // A single project by name
+    const single = json(await featureStatus({ projectRoot: 'web', format: 'json' }))
+    expect(single.features).toEqual([])
+  })
+})
@@ -18,12 +18,32 @@ describe('MCP Tools Integration', () => {
     const { featureStatus } = await import('../../src/tools/feature-status')
     const { featureCleanup } = await import('../../src/tools/feature-cleanup')
     const { featureRevision } = await import('../../src/tools/feature-revision')
+    const { featureSync } = await import('../../src/tools/feature-sync')
+    const { featureLogs } = await import('../../src/tools/feature-logs')
+    const { featureStop } = await import('../../src/tools/feature-stop')
+    const { featureStartBatch } = await import('../../src/tools/feature-start-batch')
+    const { projectAdd } = await import('../../src/tools/project-add')
+    const { projectList } = await import('../../src/tools/project-list')
+    const { featureSpecLint } = await import('../../src/tools/feature-spec-lint')
+    const { featureStartFromIssue } = await import('../../src/tools/feature-start-from-issue')
+    const { featureVerify } = await import('../../src/tools/feature-verify')
+    const { featureUsage } = await import('../../src/tools/feature-usage')
 
     expect(typeof verifySetup).toBe('function')
     expect(typeof featureStart).toBe('function')
     expect(typeof featureStatus).toBe('function')
     expect(typeof featureCleanup).toBe('function')
     expect(typeof featureRevision).toBe('function')
+    expect(typeof featureSync).toBe('function')
+    expect(typeof featureLogs).toBe('function')
+    expect(typeof featureStop).toBe('function')
+    expect(typeof featureStartBatch).toBe('function')
+    expect(typeof projectAdd).toBe('function')
+    expect(typeof projectList).toBe('function')
+    expect(typeof featureSpecLint).toBe('function')
+    expect(typeof featureStartFromIssue).toBe('function')
+    expect(typeof featureVerify).toBe('function')
+    expect(typeof featureUsage).toBe('function')
   })
 
   it('should validate PROJECT_ROOT requirement in tools', async () => {
@@ -55,9 +75,11 @@ describe('MCP Tools Integration', () => {
     // Verify that tools with required parameters throw errors when missing
     const { featureStart } = await import('../../src/tools/feature-start')
     const { featureRevision } = await import('../../src/tools/feature-revision')
+    const { featureSync } = await import('../../src/tools/feature-sync')
 
     // Test that calling with invalid params throws appropriate errors
     await expect(featureStart({ featureFile: '' })).rejects.toThrow()
     await expect(featureRevision({ featureFile: '' })).rejects.toThrow()
+    await expect(featureSync({ featureName: '' })).rejects.toThrow()
   })
 }) 
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import { spawnSync } from 'child_process'
+import { getLogPath } from '../../src/utils/agent-log'
+import { formatDuration, getAgentLifecycle } from '../../src/utils/agent-process'
+import { AgentLaunch, launchAgent } from '../../src/utils/agent-runner'
+import { FeatureSession, getFeatureSession, getRegistryPath, saveFeatureSession, updateFeatureSession } from '../../src/utils/registry'
+import { createTestFeature, createTestSession } from './fixtures'
+
+// A pid that's certainly gone
+const DEAD_PID = spawnSync('true').pid
+
+describe('agent lifecycle', () => {
+  let projectRoot: string
+  let worktreePath: string
+
+  let cleanup: () => void
+
+  beforeEach(() => {
+    ({ projectRoot, worktreePath, cleanup } = createTestFeature('worktree-lifecycle-'))
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  const createSession = (overrides: Partial<FeatureSession> = {}) => createTestSession(projectRoot, overrides)
+
+  async function runAgent(script: string): Promise<FeatureSession> {
+    const launch: AgentLaunch = { profile: 'command', mode: 'background', command: 'sh', args: ['-c', script], prompt: '' }
+    saveFeatureSession(projectRoot, createSession())
+    const child = launchAgent(projectRoot, 'test-feature', worktreePath, launch)
+    updateFeatureSession(projectRoot, 'test-feature', { pid: child.pid, startedAt: new Date().toISOString() })
+    await new Promise(resolve => child.on('close', resolve))
+    return getFeatureSession(projectRoot, 'test-feature')!
+  }
+
+  it('should record how the agent exited and tell success from failure', async () => {
+    const succeeded = await runAgent('echo all done')
+    expect(succeeded.exit).toMatchObject({ exitCode: 0, signal: null, finalOutput: ['all done'] })
+    const success = await getAgentLifecycle(succeeded)
+    expect(success.state).toBe('succeeded')
+    expect(success.endedAt).toBe(succeeded.exit!.endedAt)
+    expect(success.durationMs).toBeGreaterThanOrEqual(0)
+
+    const failed = await getAgentLifecycle(await runAgent('echo building; echo tests failed >&2; exit 3'))
+    expect(failed).toMatchObject({ state: 'failed', exitCode: 3 })
+    expect(failed.finalOutput).toEqual(expect.arrayContaining(['building', 'tests failed']))
+  })
+
+  it('should report launches, stops and agents nobody is watching', async () => {
+    const now = Date.parse('2024-01-01T00:10:00.000Z')
+    const since = '2024-01-01T00:09:30.000Z'
+
+    expect(await getAgentLifecycle(createSession({ launching: { phase: 'installing', since, serverPid: process.pid } }), now))
+      .toEqual({ state: 'installing', durationMs: 30000 })
+    expect(await getAgentLifecycle(createSession({ launching: { phase: 'installing', since, serverPid: DEAD_PID } }), now))
+      .toMatchObject({ state: 'orphaned', reason: 'The server exited while installing dependencies' })
+    expect(await getAgentLifecycle(createSession({ queuedAt: since }), now))
+      .toMatchObject({ state: 'orphaned', reason: 'Queued job lost (server restarted)' })
+    expect(await getAgentLifecycle(createSession({ pid: DEAD_PID, startedAt: since }), now))
+      .toMatchObject({ state: 'orphaned', reason: 'The agent exited while no server was watching it' })
+
+    const stopped = await getAgentLifecycle(createSession({
+      pid: DEAD_PID,
+      startedAt: '2024-01-01T00:00:00.000Z',
+      stoppedAt: '2024-01-01T01:02:03.000Z',
+      stopReason: 'Runaway agent'
+    }), now)
+    expect(stopped).toMatchObject({ state: 'stopped', stopReason: 'Runaway agent' })
+    expect(formatDuration(stopped.durationMs!)).toBe('1h 02m')
+    expect(formatDuration(183000)).toBe('3m 03s')
+    expect(formatDuration(45999)).toBe('45s')
+  })
+
+  it('should log exits it could not record instead of crashing the server', async () => {
+    // The registry turns unreadable while the agent runs
+    const registryPath = getRegistryPath(projectRoot)
+    await expect(runAgent(`printf '{' > '${registryPath}'`)).rejects.toThrow('is corrupt')
+
+    const logPath = getLogPath(projectRoot, 'test-feature')
+    for (let i = 0; i < 50 && !fs.readFileSync(logPath, 'utf-8').includes('Could not handle the exit'); i++) {
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+    expect(fs.readFileSync(logPath, 'utf-8')).toContain(`[agent] Could not handle the exit: Feature registry at '${registryPath}' is corrupt`)
+  })
+})
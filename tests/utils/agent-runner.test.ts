@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { buildAgentLaunch, formatAgentCommand, launchAgent, parseCommandLine } from '../../src/utils/agent-runner'
+import { getLogPath } from '../../src/utils/agent-log'
+
+describe('agent runner', () => {
+  let projectRoot: string
+  let worktreePath: string
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-runner-'))
+    worktreePath = path.join(projectRoot, '.worktrees', 'test-feature')
+    fs.mkdirSync(worktreePath, { recursive: true })
+  })
+
+  afterEach(() => {
+    delete process.env.CLAUDE_ARGS
+    delete process.env.AGENT_PROFILE
+    delete process.env.AGENT_COMMAND_TEMPLATE
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  it('should split command lines with quotes and escapes', () => {
+    expect(parseCommandLine(`--allowedTools "Bash(git *)" --append-system-prompt 'Be brief' a\\ b`))
+      .toEqual(['--allowedTools', 'Bash(git *)', '--append-system-prompt', 'Be brief', 'a b'])
+    expect(parseCommandLine('  ')).toEqual([])
+    expect(() => parseCommandLine('--flag "unterminated')).toThrow('Unterminated " quote')
+  })
+
+  it('should build Claude Code headless and interactive launches', () => {
+    process.env.CLAUDE_ARGS = '--dangerously-skip-permissions --append-system-prompt "Use pnpm"'
+
+    const headless = buildAgentLaunch(projectRoot, 'test-feature', worktreePath, 'Build it', { model: 'opus' })
+    expect(headless.command).toBe('claude')
+    expect(headless.args).toEqual([
+      '-p', '--output-format', 'stream-json', '--verbose',
+      '--dangerously-skip-permissions', '--append-system-prompt', 'Use pnpm', '--model', 'opus'
+    ])
+    expect(headless.input).toBe('Build it')
+    expect(headless.mode).toBe('background')
+
+    const interactive = buildAgentLaunch(projectRoot, 'test-feature', worktreePath, 'Build it', { profile: 'claude-interactive' })
+    expect(interactive.mode).toBe('interactive')
+    expect(interactive.args[interactive.args.length - 1]).toBe('Build it')
+    expect(formatAgentCommand(interactive)).toBe("claude --dangerously-skip-permissions --append-system-prompt 'Use pnpm' <prompt>")
+
+    expect(() => buildAgentLaunch(projectRoot, 'test-feature', worktreePath, 'Build it', { profile: 'cursor' }))
+      .toThrow("Unknown agent profile 'cursor'")
+  })
+
+  it('should fill in command templates', () => {
+    const launch = buildAgentLaunch(projectRoot, 'test-feature', worktreePath, 'Build it', {
+      profile: 'command',
+      model: 'gpt-4o',
+      template: 'aider --yes-always --model {{model}} --message-file {{promptFile}}'
+    })
+
+    const promptFile = path.join(projectRoot, '.worktrees', '.prompts', 'test-feature.md')
+    expect(launch.command).toBe('aider')
+    expect(launch.args).toEqual(['--yes-always', '--model', 'gpt-4o', '--message-file', promptFile])
+    expect(launch.input).toBeUndefined()
+    expect(fs.readFileSync(promptFile, 'utf-8')).toBe('Build it')
+
+    process.env.AGENT_PROFILE = 'command'
+    expect(() => buildAgentLaunch(projectRoot, 'test-feature', worktreePath, 'Build it'))
+      .toThrow('needs a command template')
+  })
+
+  it('should run a templated agent with the prompt on stdin and capture its output', async () => {
+    process.env.AGENT_COMMAND_TEMPLATE = `node -e "process.stdin.pipe(process.stdout)"`
+    const launch = buildAgentLaunch(projectRoot, 'test-feature', worktreePath, 'hello from stdin', { profile: 'command' })
+
+    const child = launchAgent(projectRoot, 'test-feature', worktreePath, launch)
+    const closed = new Promise(resolve => child.on('close', resolve))
+    await child
+    await closed
+
+    const log = fs.readFileSync(getLogPath(projectRoot, 'test-feature'), 'utf-8')
+    expect(log).toContain('[stdout] hello from stdin')
+    expect(log).toContain('[agent] Exited with code 0')
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { findFeatureSpecs, parseFeatureSpec, readDependsOn, readFeatureSpec } from '../../src/utils/feature-spec'
+import { featureStartBatch } from '../../src/tools/feature-start-batch'
+
+describe('feature specs', () => {
+  let projectRoot: string
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-specs-'))
+    process.env.PROJECT_ROOT = projectRoot
+    fs.mkdirSync(path.join(projectRoot, 'features', 'billing'), { recursive: true })
+    fs.writeFileSync(path.join(projectRoot, 'features', 'auth.md'), '# Auth\n')
+    fs.writeFileSync(path.join(projectRoot, 'features', 'notes.txt'), 'not a spec\n')
+    fs.writeFileSync(path.join(projectRoot, 'features', 'billing', 'invoices.md'), '# Invoices\n')
+  })
+
+  afterEach(() => {
+    delete process.env.PROJECT_ROOT
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  it('should read dependsOn lines in either style', () => {
+    expect(readDependsOn('# Dashboard\n\ndependsOn: auth, User Stats\n')).toEqual(['auth', 'user-stats'])
+    expect(readDependsOn('**Depends On:** `features/auth.md`\n')).toEqual(['auth'])
+    expect(readDependsOn('Depends on: none\n')).toEqual([])
+    expect(readDependsOn('# No dependencies here\n')).toEqual([])
+  })
+
+  it('should read frontmatter settings and strip them from the spec body', () => {
+    const specPath = path.join(projectRoot, 'features', 'Admin Panel.md')
+    fs.writeFileSync(specPath, [
+      '---',
+      'featureName: admin',
+      'baseBranch: develop',
+      'agent:',
+      '  model: opus',
+      'pr:',
+      '  labels: [enhancement, needs review]',
+      '  reviewers: alice',
+      '  draft: true',
+      'setup:',
+      '  - pnpm db:migrate',
+      'dependsOn: [auth]',
+      '---',
+      '',
+      '# Admin Panel',
+      ''
+    ].join('\n'))
+
+    const spec = readFeatureSpec(specPath)
+
+    expect(spec.featureName).toBe('admin')
+    expect(spec.body).toBe('# Admin Panel\n')
+    expect(spec.config.baseBranch).toBe('develop')
+    expect(spec.config.agent).toEqual({ profile: undefined, command: undefined, model: 'opus', template: undefined })
+    expect(spec.config.setup).toEqual(['pnpm db:migrate'])
+    expect(readDependsOn(fs.readFileSync(specPath, 'utf-8'))).toEqual(['auth'])
+    expect(spec.config.pr).toEqual({ labels: ['enhancement', 'needs review'], reviewers: ['alice'], draft: true })
+  })
+
+  it('should reject invalid frontmatter with a clear error', () => {
+    expect(() => parseFeatureSpec('---\npr:\n  draft: maybe\n---\n# Spec\n', 'spec.md'))
+      .toThrow("Invalid frontmatter in spec.md: 'pr.draft' must be true or false")
+    expect(() => parseFeatureSpec('---\nbase: develop\n---\n# Spec\n', 'spec.md'))
+      .toThrow("unknown setting 'base'")
+    expect(parseFeatureSpec('# No frontmatter\n---\n')).toEqual({ config: {}, body: '# No frontmatter\n---\n' })
+  })
+
+  it('should find specs in a directory or by glob', () => {
+    expect(findFeatureSpecs(projectRoot, 'features')).toEqual([
+      path.join(projectRoot, 'features', 'auth.md')
+    ])
+    expect(findFeatureSpecs(projectRoot, 'features/**/*.md')).toEqual([
+      path.join(projectRoot, 'features', 'auth.md'),
+      path.join(projectRoot, 'features', 'billing', 'invoices.md')
+    ])
+    expect(findFeatureSpecs(projectRoot, 'features/*/inv?ices.md')).toEqual([
+      path.join(projectRoot, 'features', 'billing', 'invoices.md')
+    ])
+    expect(() => findFeatureSpecs(projectRoot, 'missing')).toThrow("Feature spec path 'missing' not found")
+  })
+
+  it('should refuse to start features in a dependency cycle', async () => {
+    const cycleDir = path.join(projectRoot, 'cycle')
+    fs.mkdirSync(cycleDir)
+    fs.writeFileSync(path.join(cycleDir, 'a.md'), '# A\n\ndependsOn: b\n')
+    fs.writeFileSync(path.join(cycleDir, 'b.md'), '# B\n\ndependsOn: a\n')
+
+    const result = await featureStartBatch({ specs: 'cycle' })
+
+    expect(result.content[0].text).toContain('| a | ❌ Failed |')
+    expect(result.content[0].text).toContain('| b | ❌ Failed |')
+    expect(result.content[0].text).toContain('Dependency cycle: a → b → a')
+  })
+})
@@ -2,6 +2,11 @@
  * Test fixtures for feature specifications and common test data
  */
 
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { FeatureSession, saveFeatureSession } from '../../src/utils/registry'
+
 export const testFeatureSpec = `# Test Feature
 
 ## Overview
@@ -54,4 +59,41 @@ export const mockCommandResults = {
   gitVersion: { stdout: 'git version 2.49.0', stderr: '', exitCode: 0 },
   ghVersion: { stdout: 'gh version 2.74.0', stderr: '', exitCode: 0 },
   pnpmVersion: { stdout: '9.0.0', stderr: '', exitCode: 0 }
-} 
\ No newline at end of file
+}
+
+/**
+ * A background 'test-feature' session in projectRoot's .worktrees, as feature_start records it
+ */
+export function createTestSession(projectRoot: string, overrides: Partial<FeatureSession> = {}): FeatureSession {
+  return {
+    featureName: 'test-feature',
+    featureFile: path.join(projectRoot, 'features', 'test-feature.md'),
+    worktreePath: path.join(projectRoot, '.worktrees', 'test-feature'),
+    branchName: 'feature/test-feature',
+    baseBranch: 'main',
+    command: 'sh',
+    agentProfile: 'command',
+    mode: 'background',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+/**
+ * A temporary project with an empty worktree and a registered session for 'test-feature'.
+ * Call cleanup() when done.
+ */
+export function createTestFeature(prefix: string) {
+  const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), prefix))
+  const session = createTestSession(projectRoot)
+  fs.mkdirSync(session.worktreePath, { recursive: true })
+  saveFeatureSession(projectRoot, session)
+
+  return {
+    projectRoot,
+    worktreePath: session.worktreePath,
+    writeConfig: (config: unknown) =>
+      fs.writeFileSync(path.join(projectRoot, '.worktree-agent.json'), JSON.stringify(config)),
+    cleanup: () => fs.rmSync(projectRoot, { recursive: true, force: true })
+  }
+}
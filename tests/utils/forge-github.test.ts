@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { execa } from 'execa'
+import { createForge } from '../../src/utils/forge'
+
+vi.mock('execa')
+
+const mockedExeca = vi.mocked(execa) as any
+
+const context = { projectRoot: '/test/project', worktreePath: '/test/project/.worktrees/admin', branchName: 'feature/admin', baseBranch: 'main' }
+const pullRequest = { number: 42, url: 'https://github.com/team/app/pull/42', title: 'Admin', body: '', state: 'OPEN' as const }
+
+describe('GitHub forge', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockedExeca.mockImplementation(async (command: string, args: string[]) => {
+      if (command === 'gh' && args[0] === 'pr') {
+        return {
+          stdout: JSON.stringify({
+            comments: [{ author: { login: 'carol' }, body: 'Looks good overall', createdAt: '2024-01-02T00:00:00Z' }],
+            reviews: [
+              { author: { login: 'alice' }, state: 'COMMENTED', body: '', submittedAt: '2024-01-01T00:00:00Z' },
+              { author: { login: 'bob' }, state: 'CHANGES_REQUESTED', body: 'See inline', submittedAt: '2024-01-01T00:00:00Z' }
+            ]
+          })
+        }
+      }
+      if (command === 'gh' && args[0] === 'api') {
+        return {
+          stdout: JSON.stringify({
+            data: { repository: { pullRequest: { reviewThreads: { nodes: [
+              {
+                path: 'src/admin.ts', line: 14, startLine: 10, originalLine: 14, originalStartLine: 10,
+                isResolved: false, isOutdated: false,
+                comments: { nodes: [
+                  { author: { login: 'alice' }, body: 'Handle the error', createdAt: '2024-01-01T00:00:00Z', diffHunk: '@@ -1,3 +1,14 @@' },
+                  { author: { login: 'dave' }, body: 'Agreed', createdAt: '2024-01-01T01:00:00Z', diffHunk: '@@ -1,3 +1,14 @@' }
+                ] }
+              },
+              {
+                path: 'src/admin.ts', line: null, startLine: null, originalLine: 3, originalStartLine: null,
+                isResolved: false, isOutdated: true,
+                comments: { nodes: [{ author: { login: 'bob' }, body: 'Rename this', createdAt: '2024-01-01T00:00:00Z', diffHunk: '' }] }
+              }
+            ] } } } }
+          })
+        }
+      }
+      throw new Error(`Unexpected command: ${command} ${args.join(' ')}`)
+    })
+  })
+
+  it('should fetch review threads with their location and resolution state', async () => {
+    const feedback = await createForge('github').getFeedback(context, pullRequest)
+
+    const graphqlCall = mockedExeca.mock.calls.find(([command, args]: [string, string[]]) => command === 'gh' && args[0] === 'api')
+    expect(graphqlCall[1]).toEqual(expect.arrayContaining(['graphql', '-F', 'owner={owner}', '-F', 'repo={repo}', '-F', 'number=42']))
+
+    expect(feedback.threads).toEqual([
+      {
+        path: 'src/admin.ts',
+        startLine: 10,
+        line: 14,
+        diffHunk: '@@ -1,3 +1,14 @@',
+        isResolved: false,
+        isOutdated: false,
+        comments: [
+          { author: 'alice', body: 'Handle the error', createdAt: '2024-01-01T00:00:00Z' },
+          { author: 'dave', body: 'Agreed', createdAt: '2024-01-01T01:00:00Z' }
+        ]
+      },
+      {
+        path: 'src/admin.ts',
+        startLine: undefined,
+        line: 3,
+        diffHunk: '',
+        isResolved: false,
+        isOutdated: true,
+        comments: [{ author: 'bob', body: 'Rename this', createdAt: '2024-01-01T00:00:00Z' }]
+      }
+    ])
+
+    // The empty COMMENTED review only wrapped the inline comments
+    expect(feedback.reviews.map(review => review.author)).toEqual(['bob'])
+    expect(feedback.comments).toHaveLength(1)
+  })
+
+  it('should keep comments and reviews when review threads cannot be fetched', async () => {
+    const fallback = mockedExeca.getMockImplementation()
+    mockedExeca.mockImplementation(async (command: string, args: string[]) => {
+      if (args[0] === 'api') {
+        throw new Error('GraphQL: Could not resolve to a Repository')
+      }
+      return fallback(command, args)
+    })
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const feedback = await createForge('github').getFeedback(context, pullRequest)
+
+    expect(feedback.threads).toEqual([])
+    expect(feedback.comments).toHaveLength(1)
+    expect(consoleError).toHaveBeenCalledWith('Failed to fetch review threads:', expect.any(Error))
+    consoleError.mockRestore()
+  })
+})
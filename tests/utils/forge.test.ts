@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { execa } from 'execa'
+import { createForge, getForge } from '../../src/utils/forge'
+
+describe('forge providers', () => {
+  let projectRoot: string
+
+  const git = (...args: string[]) => execa('git', args, { cwd: projectRoot })
+
+  beforeEach(async () => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-forge-'))
+    await git('init', '-q', '-b', 'main')
+    await git('config', 'user.email', 'test@example.com')
+    await git('config', 'user.name', 'Test')
+    await git('commit', '-q', '--allow-empty', '-m', 'initial')
+  })
+
+  afterEach(() => {
+    delete process.env.FORGE
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  it('should pick the forge from FORGE or the origin remote', async () => {
+    expect((await getForge(projectRoot)).name).toBe('local')
+
+    await git('remote', 'add', 'origin', 'git@gitlab.example.com:team/app.git')
+    expect((await getForge(projectRoot)).name).toBe('gitlab')
+
+    await git('remote', 'set-url', 'origin', 'https://github.com/team/app.git')
+    expect((await getForge(projectRoot)).name).toBe('github')
+
+    process.env.FORGE = 'local'
+    expect((await getForge(projectRoot)).name).toBe('local')
+
+    process.env.FORGE = 'bitbucket'
+    await expect(getForge(projectRoot)).rejects.toThrow("Unknown forge 'bitbucket' (expected one of: github, gitlab, local)")
+  })
+
+  it('should build PR commands for the agent', () => {
+    const context = { projectRoot, worktreePath: projectRoot, branchName: 'feature/admin', baseBranch: 'develop' }
+    const options = { draft: true, labels: ['enhancement', 'needs review'], reviewers: ['alice'] }
+
+    expect(createForge('github').getCreateCommand(context, options))
+      .toBe("gh pr create --base develop --fill --draft --label enhancement --label 'needs review' --reviewer alice")
+    expect(createForge('gitlab').getCreateCommand(context, options))
+      .toBe("glab mr create --target-branch develop --yes --fill --draft --label 'enhancement,needs review' --reviewer alice")
+    expect(createForge('local').getCreateCommand(context, options)).toBeUndefined()
+  })
+
+  it('should treat a branch as done in local mode once it is merged into its base', async () => {
+    const forge = createForge('local')
+    const baseCommit = (await git('rev-parse', 'main')).stdout.trim()
+    const context = { projectRoot, worktreePath: projectRoot, branchName: 'feature/admin', baseBranch: 'main', baseCommit }
+
+    expect(await forge.getMergeState(context)).toBe('none')
+
+    // A fresh branch points at the base commit - that's not "merged"
+    await git('branch', 'feature/admin')
+    expect(await forge.getMergeState(context)).toBe('open')
+
+    await git('checkout', '-q', 'feature/admin')
+    await git('commit', '-q', '--allow-empty', '-m', 'add admin')
+    expect(await forge.getMergeState(context)).toBe('open')
+
+    await git('checkout', '-q', 'main')
+    await git('merge', '-q', '--no-ff', '-m', 'merge admin', 'feature/admin')
+    expect(await forge.getMergeState(context)).toBe('merged')
+  })
+})
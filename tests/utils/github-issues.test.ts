@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { execa } from 'execa'
+import { fetchGitHubIssue, formatIssue, getIssueFeatureName, getIssueReference, parseIssueReference, writeIssueSpec } from '../../src/utils/github-issues'
+import { readFeatureSpec } from '../../src/utils/feature-spec'
+import { featureStart } from '../../src/tools/feature-start'
+import { featureStartFromIssue } from '../../src/tools/feature-start-from-issue'
+import { lintFeatureSpec } from '../../src/utils/spec-lint'
+import { DEFAULT_PROJECT_CONFIG } from '../../src/utils/project-config'
+import { DEFAULT_PROMPT_TEMPLATES, renderTemplate } from '../../src/utils/prompt-templates'
+
+vi.mock('execa')
+vi.mock('../../src/tools/feature-start')
+
+const mockedExeca = vi.mocked(execa) as any
+
+const ISSUE = {
+  number: 42,
+  title: 'Login times out after 30s on slow connections',
+  body: 'Users on 3G see a timeout.\n\nRaise the limit in `src/auth/login.ts`.',
+  url: 'https://github.com/acme/app/issues/42',
+  state: 'OPEN',
+  labels: [{ name: 'bug' }, { name: 'auth' }],
+  comments: [{ author: { login: 'carol' }, body: 'Happens on mobile too', createdAt: '2024-03-01T10:00:00Z' }]
+}
+
+describe('GitHub issues', () => {
+  let projectRoot: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-issues-'))
+    mockedExeca.mockImplementation(async (command: string, args: string[]) => {
+      if (command === 'git') {
+        return { stdout: 'git@github.com:Acme/app.git\n' }
+      }
+      if (command === 'gh' && args.includes('404')) {
+        throw Object.assign(new Error('Command failed'), { stderr: 'GraphQL: Could not resolve to an issue with the number of 404.' })
+      }
+      return { stdout: JSON.stringify(ISSUE) }
+    })
+  })
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  it('should turn an issue into a linted feature spec tied to the issue', async () => {
+    const issue = await fetchGitHubIssue(projectRoot, 'https://github.com/acme/app/issues/42')
+    expect(mockedExeca).toHaveBeenCalledWith('gh', ['issue', 'view', '42', '--json', 'number,title,body,url,state,labels,comments', '--repo', 'acme/app'], expect.anything())
+    expect(issue.labels).toEqual(['bug', 'auth'])
+
+    const { featureName, specPath } = writeIssueSpec(projectRoot, issue)
+    expect(featureName).toBe('42-login-times-out-after-30s-on-slow')
+    expect(specPath).toBe(path.join(projectRoot, '.worktrees', '.issues', '42-login-times-out-after-30s-on-slow.md'))
+
+    const spec = readFeatureSpec(specPath)
+    expect(spec.featureName).toBe(featureName)
+    expect(spec.config.issue).toEqual({ number: 42, url: ISSUE.url, title: ISSUE.title })
+    expect(spec.body).toContain('From issue [#42](https://github.com/acme/app/issues/42) (labels: bug, auth).')
+    expect(spec.body).toContain('## Summary\nUsers on 3G see a timeout.')
+    expect(spec.body).toContain('**@carol** (2024-03-01):\nHappens on mobile too')
+
+    // Only the path the issue mentions is missing from this repo
+    const lint = lintFeatureSpec(projectRoot, specPath, DEFAULT_PROJECT_CONFIG.specLint)
+    expect(lint.findings.map(finding => finding.rule)).toEqual(['missing-path'])
+
+    await expect(fetchGitHubIssue(projectRoot, 404)).rejects.toThrow('Could not read issue #404 with gh: GraphQL: Could not resolve')
+  })
+
+  it('should summarize title-only issues with their title', async () => {
+    mockedExeca.mockResolvedValue({ stdout: JSON.stringify({ ...ISSUE, body: '  ', comments: [] }) })
+    const { specPath } = writeIssueSpec(projectRoot, await fetchGitHubIssue(projectRoot, 42))
+
+    expect(readFeatureSpec(specPath).body).toContain(`## Summary\nLogin times out after 30s on slow connections (the issue has no description beyond its title - see ${ISSUE.url})\n`)
+    expect(lintFeatureSpec(projectRoot, specPath, DEFAULT_PROJECT_CONFIG.specLint).findings).toEqual([])
+  })
+
+  it('should parse references, name features and close the issue from the PR', async () => {
+    expect(parseIssueReference('#7', 'acme/web')).toEqual({ number: 7, repo: 'acme/web' })
+    expect(() => parseIssueReference('login-bug')).toThrow("Invalid issue 'login-bug'")
+    expect(getIssueFeatureName({ number: 9, title: '🔥' })).toBe('issue-9')
+    expect(formatIssue({ number: 42, title: 'Login timeout' })).toBe('#42 Login timeout')
+
+    const variables = {
+      featureName: '42-login', featureFile: 'x.md', worktreePath: '/wt', branchName: 'feature/42-login', baseBranch: 'main',
+      forgeName: 'GitHub', requestLabel: 'PR', requestName: 'Pull Request', createCommand: 'gh pr create --fill',
+      issueNumber: 42, issueUrl: ISSUE.url, issueReference: '#42', verifyCommands: '', verifyOpensRequest: false
+    }
+    expect(renderTemplate(DEFAULT_PROMPT_TEMPLATES.start, variables))
+      .toContain('This feature resolves issue #42 (https://github.com/acme/app/issues/42). Put `Closes #42` on its own line in the Pull Request description')
+    expect(renderTemplate(DEFAULT_PROMPT_TEMPLATES.start, { ...variables, issueNumber: undefined })).not.toContain('Closes')
+
+    // Issues outside the origin repository need the repository in the reference
+    expect(await getIssueReference(projectRoot, { number: 42, url: ISSUE.url })).toBe('#42')
+    expect(await getIssueReference(projectRoot, { number: 7, url: 'https://github.com/acme/docs/issues/7' })).toBe('acme/docs#7')
+    expect(await getIssueReference(projectRoot, { number: 7 })).toBe('#7')
+  })
+
+  it('should not leave the spec behind when the start fails', async () => {
+    vi.mocked(featureStart).mockRejectedValue(new Error("Setup command 'make' failed"))
+
+    await expect(featureStartFromIssue({ projectRoot, issue: 42 })).rejects.toThrow("Setup command 'make' failed")
+    expect(vi.mocked(featureStart)).toHaveBeenCalledWith(expect.objectContaining({ featureFile: path.join(projectRoot, '.worktrees', '.issues', '42-login-times-out-after-30s-on-slow.md') }), {})
+    expect(fs.existsSync(path.join(projectRoot, '.worktrees', '.issues'))).toBe(false)
+  })
+})
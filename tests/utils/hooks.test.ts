@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { formatHookRuns, runHook } from '../../src/utils/hooks'
+import { readLogLines } from '../../src/utils/agent-log'
+import { loadProjectConfig } from '../../src/utils/project-config'
+
+describe('lifecycle hooks', () => {
+  let projectRoot: string
+  let worktreePath: string
+
+  const writeHooks = (hooks: unknown) =>
+    fs.writeFileSync(path.join(projectRoot, '.worktree-agent.json'), JSON.stringify({ hooks }))
+
+  const context = () => ({ featureName: 'admin', worktreePath, branchName: 'feature/admin', baseBranch: 'main', featureFile: 'features/admin.md' })
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-hooks-'))
+    worktreePath = path.join(projectRoot, '.worktrees', 'admin')
+    fs.mkdirSync(worktreePath, { recursive: true })
+  })
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  it('should run hook commands in the worktree with feature metadata', async () => {
+    writeHooks({
+      postCreate: ['echo "$HOOK_NAME $FEATURE_NAME $FEATURE_BRANCH $FEATURE_BASE_BRANCH $FEATURE_FILE" > hook.txt', 'pwd']
+    })
+
+    const runs = await runHook(projectRoot, 'postCreate', context())
+
+    expect(runs.map(run => run.exitCode)).toEqual([0, 0])
+    expect(fs.readFileSync(path.join(worktreePath, 'hook.txt'), 'utf-8').trim())
+      .toBe('postCreate admin feature/admin main features/admin.md')
+    expect(fs.realpathSync(runs[1].output.trim())).toBe(fs.realpathSync(worktreePath))
+    expect(formatHookRuns(runs)).toMatch(/^postCreate: echo .* ✅ \(\d+\.\ds\)\n/)
+
+    // Hooks that aren't configured do nothing
+    expect(await runHook(projectRoot, 'preRemove', context())).toEqual([])
+  })
+
+  it('should stop at a failing command and report its output', async () => {
+    writeHooks({ preAgentLaunch: ['echo starting db; echo connection refused >&2; exit 3', 'touch never-run'] })
+
+    await expect(runHook(projectRoot, 'preAgentLaunch', context()))
+      .rejects.toThrow("preAgentLaunch hook 'echo starting db; echo connection refused >&2; exit 3' exited with code 3:\nstarting db\nconnection refused")
+    expect(fs.existsSync(path.join(worktreePath, 'never-run'))).toBe(false)
+
+    const log = readLogLines(projectRoot, 'admin').filter(line => line.stream === 'hook').map(line => line.text)
+    expect(log).toEqual([
+      'Running preAgentLaunch: echo starting db; echo connection refused >&2; exit 3',
+      'starting db',
+      'connection refused',
+      'preAgentLaunch failed: echo starting db; echo connection refused >&2; exit 3 exited with code 3'
+    ])
+  })
+
+  it('should accept a single command and reject unknown hooks', () => {
+    writeHooks({ preRemove: 'docker compose down' })
+    expect(loadProjectConfig(projectRoot).hooks).toEqual({ preRemove: ['docker compose down'] })
+
+    writeHooks({ postStart: ['make'] })
+    expect(() => loadProjectConfig(projectRoot)).toThrow("unknown setting 'hooks.postStart'")
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { detectInstallSteps, formatInstallReport, installDependencies } from '../../src/utils/install'
+import { readLogLines } from '../../src/utils/agent-log'
+
+describe('dependency installation', () => {
+  let projectRoot: string
+
+  const write = (file: string, content = '') => {
+    fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true })
+    fs.writeFileSync(path.join(projectRoot, file), content)
+  }
+
+  const commands = () => detectInstallSteps(projectRoot).map(step => `${step.directory}: ${step.command}`)
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-install-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  it('should pick the install command from the lockfile', () => {
+    expect(commands()).toEqual([])
+
+    write('package.json', '{}')
+    expect(commands()).toEqual(['.: npm install'])
+
+    write('package.json', JSON.stringify({ packageManager: 'pnpm@9.1.0' }))
+    expect(commands()).toEqual(['.: pnpm install'])
+
+    write('yarn.lock')
+    expect(commands()).toEqual(['.: yarn install --frozen-lockfile'])
+
+    write('.yarnrc.yml')
+    expect(commands()).toEqual(['.: yarn install --immutable'])
+
+    write('pnpm-lock.yaml')
+    expect(commands()).toEqual(['.: pnpm install --frozen-lockfile'])
+
+    write('requirements.txt', 'requests\n')
+    write('go.mod', 'module example.com/app\n')
+    expect(commands()).toEqual([
+      '.: pnpm install --frozen-lockfile',
+      '.: python3 -m venv .venv && .venv/bin/pip install -r requirements.txt',
+      '.: go mod download'
+    ])
+  })
+
+  it('should install each project in a monorepo once', () => {
+    // A pnpm workspace: members are installed by the root
+    write('package.json', '{}')
+    write('pnpm-lock.yaml')
+    write('pnpm-workspace.yaml', 'packages: ["packages/*"]')
+    write('packages/ui/package.json', '{}')
+    write('packages/api/package.json', '{}')
+    write('packages/api/node_modules/left-pad/package.json', '{}')
+
+    // A Cargo workspace next to it, and a separate Python service
+    write('crates/Cargo.toml', '[workspace]')
+    write('crates/Cargo.lock')
+    write('crates/core/Cargo.toml', '[package]')
+    write('services/ml/pyproject.toml', '[project]')
+    write('services/ml/uv.lock')
+
+    expect(commands()).toEqual([
+      '.: pnpm install --frozen-lockfile',
+      'crates: cargo fetch --locked',
+      'services/ml: uv sync --frozen'
+    ])
+  })
+
+  it('should report every step with its duration and failures', async () => {
+    const worktreePath = path.join(projectRoot, '.worktrees', 'admin')
+    fs.mkdirSync(worktreePath, { recursive: true })
+
+    const report = await installDependencies(projectRoot, 'admin', worktreePath, ['echo fetched', 'echo lockfile out of date >&2; exit 1', 'true'])
+
+    expect(report.source).toBe('config')
+    expect(report.failed).toBe(1)
+    expect(report.steps.map(step => step.exitCode)).toEqual([0, 1, 0])
+    expect(report.steps[1].error).toBe('exited with code 1:\nlockfile out of date')
+    expect(report.durationMs).toBeGreaterThanOrEqual(0)
+    expect(formatInstallReport(report)).toMatch(/^1 of 3 failed in \d+\.\ds\n   ✅ echo fetched \(\d+\.\ds\)\n   ❌ .* - exited with code 1:/)
+
+    const log = readLogLines(projectRoot, 'admin').filter(line => line.stream === 'install').map(line => line.text)
+    expect(log).toContain('fetched')
+    expect(log).toContain('Failed: echo lockfile out of date >&2; exit 1 exited with code 1')
+
+    const skipped = await installDependencies(projectRoot, 'admin', worktreePath, [])
+    expect(formatInstallReport(skipped)).toBe('skipped (installCommands is empty)')
+  })
+})
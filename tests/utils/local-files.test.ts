@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { execa } from 'execa'
+import { formatLocalFiles, syncLocalFiles } from '../../src/utils/local-files'
+import { loadProjectConfig } from '../../src/utils/project-config'
+
+describe('local files', () => {
+  let projectRoot: string
+  let worktreePath: string
+
+  const git = (...args: string[]) => execa('git', args, { cwd: projectRoot })
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true })
+    fs.writeFileSync(path.join(projectRoot, file), content)
+  }
+  const read = (file: string) => fs.readFileSync(path.join(worktreePath, file), 'utf-8')
+
+  beforeEach(async () => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-local-files-'))
+    await git('init', '-q', '-b', 'main')
+    await git('config', 'user.email', 'test@example.com')
+    await git('config', 'user.name', 'Test')
+    write('.gitignore', '.env\n.env.local\ncerts/\nconfig/local.yml\n.worktrees/\n')
+    write('.env.example', 'API_KEY=\n')
+    write('config/app.yml', 'name: app\n')
+    await git('add', '.')
+    await git('commit', '-q', '-m', 'initial')
+
+    worktreePath = path.join(projectRoot, '.worktrees', 'admin')
+    await git('worktree', 'add', '-q', '-b', 'feature/admin', worktreePath, 'main')
+
+    write('.env', 'API_KEY=secret\n')
+    write('.env.local', 'DEBUG=1\n')
+    write('certs/dev.pem', 'CERT\n')
+    write('config/local.yml', 'db: localhost\n')
+    // Uncommitted edit in the main checkout - must not leak into the worktree
+    write('config/app.yml', 'name: changed\n')
+  })
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  it('should copy or link ignored files and leave tracked files alone', async () => {
+    const results = await syncLocalFiles(projectRoot, worktreePath, [
+      { path: '.env*', mode: 'copy' },
+      { path: 'certs', mode: 'symlink' },
+      { path: 'config/*.yml', mode: 'copy' },
+      { path: 'missing.json', mode: 'copy' }
+    ])
+
+    expect(results).toEqual([
+      { path: '.env', mode: 'copy', status: 'copied' },
+      { path: '.env.example', mode: 'copy', status: 'skipped', reason: 'tracked by git' },
+      { path: '.env.local', mode: 'copy', status: 'copied' },
+      { path: 'certs', mode: 'symlink', status: 'linked' },
+      { path: 'config/app.yml', mode: 'copy', status: 'skipped', reason: 'tracked by git' },
+      { path: 'config/local.yml', mode: 'copy', status: 'copied' }
+    ])
+
+    expect(read('.env')).toBe('API_KEY=secret\n')
+    expect(read('config/local.yml')).toBe('db: localhost\n')
+    expect(read('config/app.yml')).toBe('name: app\n')
+    expect(fs.readlinkSync(path.join(worktreePath, 'certs'))).toBe(path.join(projectRoot, 'certs'))
+    expect(formatLocalFiles(results.slice(0, 2))).toBe('.env (copied), .env.example (skipped: tracked by git)')
+
+    // A second sync never overwrites what's there
+    fs.writeFileSync(path.join(worktreePath, '.env'), 'API_KEY=edited\n')
+    const again = await syncLocalFiles(projectRoot, worktreePath, [{ path: '.env', mode: 'copy' }])
+    expect(again).toEqual([{ path: '.env', mode: 'copy', status: 'skipped', reason: 'already exists in the worktree' }])
+    expect(read('.env')).toBe('API_KEY=edited\n')
+  })
+
+  it('should read localFiles entries from the project config', () => {
+    write('.worktree-agent.json', JSON.stringify({ localFiles: ['.env', { path: 'certs', mode: 'symlink' }] }))
+    expect(loadProjectConfig(projectRoot).localFiles).toEqual([
+      { path: '.env', mode: 'copy' },
+      { path: 'certs', mode: 'symlink' }
+    ])
+
+    write('.worktree-agent.json', JSON.stringify({ localFiles: [{ path: 'certs', mode: 'hardlink' }] }))
+    expect(() => loadProjectConfig(projectRoot)).toThrow("'localFiles[0].mode' must be one of: copy, symlink (got 'hardlink')")
+
+    write('.worktree-agent.json', JSON.stringify({ localFiles: ['../secrets/.env'] }))
+    expect(() => loadProjectConfig(projectRoot)).toThrow("'localFiles[0].path' must be relative to the project root")
+  })
+})
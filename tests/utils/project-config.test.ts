@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { execa } from 'execa'
+import { captureAgentOutput } from '../../src/utils/agent-log'
+import { DEFAULT_PROJECT_CONFIG, getIgnoredSettings, loadProjectConfig } from '../../src/utils/project-config'
+import { getWorktreesPath, resolveFeatureSession } from '../../src/utils/registry'
+import { getForge } from '../../src/utils/forge'
+
+describe('project config', () => {
+  let projectRoot: string
+
+  const writeConfig = (config: unknown) =>
+    fs.writeFileSync(path.join(projectRoot, '.worktree-agent.json'), typeof config === 'string' ? config : JSON.stringify(config))
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-config-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  it('should use the defaults without a config file', () => {
+    expect(loadProjectConfig(projectRoot)).toEqual(DEFAULT_PROJECT_CONFIG)
+    expect(getWorktreesPath(projectRoot)).toBe(path.join(projectRoot, '.worktrees'))
+  })
+
+  it('should merge project settings over the defaults and apply them everywhere', async () => {
+    writeConfig({
+      worktreesDir: '../agent-worktrees',
+      branchPrefix: 'agent/',
+      baseBranch: 'develop',
+      installCommands: [],
+      forge: 'local'
+    })
+
+    const config = loadProjectConfig(projectRoot)
+    expect(config.localFiles).toEqual(DEFAULT_PROJECT_CONFIG.localFiles)
+    expect(config.installCommands).toEqual([])
+    expect(getWorktreesPath(projectRoot)).toBe(path.resolve(projectRoot, '../agent-worktrees'))
+
+    const session = resolveFeatureSession(projectRoot, 'admin')
+    expect(session.branchName).toBe('agent/admin')
+    expect(session.baseBranch).toBe('develop')
+    expect((await getForge(projectRoot, undefined)).name).toBe('local')
+    expect(getIgnoredSettings(projectRoot)).toEqual([])
+
+    // Retired settings are only warned about
+    writeConfig({ filesToCopy: ['package.json'], branchPrefix: 'agent/' })
+    expect(loadProjectConfig(projectRoot)).toMatchObject({ branchPrefix: 'agent/', localFiles: DEFAULT_PROJECT_CONFIG.localFiles })
+    expect(getIgnoredSettings(projectRoot)).toEqual([expect.stringContaining("'filesToCopy' is ignored - it was replaced by 'localFiles'")])
+  })
+
+  it('should reject invalid config with a clear error', () => {
+    writeConfig('{ "branchPrefix": ')
+    expect(() => loadProjectConfig(projectRoot)).toThrow('Invalid .worktree-agent.json:')
+
+    writeConfig({ worktreeDir: '.trees' })
+    expect(() => loadProjectConfig(projectRoot)).toThrow("Invalid .worktree-agent.json: unknown setting 'worktreeDir'")
+
+    writeConfig({ forge: 'bitbucket' })
+    expect(() => loadProjectConfig(projectRoot)).toThrow("'forge' must be one of: github, gitlab, local (got 'bitbucket')")
+
+    writeConfig({ installCommands: ['pnpm install', 3] })
+    expect(() => loadProjectConfig(projectRoot)).toThrow("'installCommands' must be a string or a list of strings")
+
+
+    writeConfig({ worktreesDir: '.' })
+    expect(() => loadProjectConfig(projectRoot)).toThrow("'worktreesDir' can't be the project root itself")
+  })
+
+  it('should reread the config only once it changes, without crashing running agents', async () => {
+    writeConfig({ branchPrefix: 'agent/' })
+    const config = loadProjectConfig(projectRoot)
+    expect(loadProjectConfig(projectRoot)).toBe(config)
+
+    const child = execa('node', ['-e', 'setTimeout(() => console.log("late output"), 300)'], { stdio: ['pipe', 'pipe', 'pipe'], buffer: false })
+    captureAgentOutput(projectRoot, 'test-feature', child, 'node -e ...')
+    // Saved broken while the agent runs: its output can't be logged, but the server lives on
+    writeConfig('{ "branchPrefix": ')
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    try {
+      await child
+      expect(consoleError).toHaveBeenCalledWith("Failed to log output of 'test-feature':", expect.any(Error))
+    } finally {
+      consoleError.mockRestore()
+    }
+    expect(() => loadProjectConfig(projectRoot)).toThrow('Invalid .worktree-agent.json:')
+
+    writeConfig({ branchPrefix: 'bot/' })
+    expect(loadProjectConfig(projectRoot).branchPrefix).toBe('bot/')
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { DEFAULT_PROMPT_TEMPLATES, renderPromptTemplate, renderTemplate } from '../../src/utils/prompt-templates'
+
+describe('prompt templates', () => {
+  let projectRoot: string
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-prompts-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  it('should fill in variables and conditional sections', () => {
+    const template = [
+      'Branch: {{ branchName }}',
+      '{{#if hasPR}}',
+      'Comment with `{{commentCommand}}`',
+      '{{else}}',
+      '{{#unless isLocal}}',
+      'Create with `{{createCommand}}`',
+      '{{/unless}}',
+      '{{/if}}',
+      'Done.'
+    ].join('\n')
+    const variables = { branchName: 'feature/admin', hasPR: false, isLocal: false, commentCommand: '', createCommand: 'gh pr create --fill' }
+
+    expect(renderTemplate(template, variables)).toBe('Branch: feature/admin\nCreate with `gh pr create --fill`\nDone.')
+    expect(renderTemplate(template, { ...variables, isLocal: true })).toBe('Branch: feature/admin\nDone.')
+    expect(renderTemplate('{{#if count}}{{count}} open{{/if}}', { count: 0 })).toBe('')
+  })
+
+  it('should reject unknown variables and unbalanced blocks', () => {
+    expect(() => renderTemplate('{{branch}}', { branchName: 'x' }, 'start.md'))
+      .toThrow("Invalid prompt template start.md: unknown variable '{{branch}}' (available: branchName)")
+    expect(() => renderTemplate('{{#if hasPR}}open', { hasPR: true })).toThrow("'{{#if hasPR}}' is never closed")
+    expect(() => renderTemplate('{{/unless}}', {})).toThrow("unexpected '{{/unless}}'")
+  })
+
+  it('should prefer the project template over the built-in one', () => {
+    const variables = {
+      featureName: 'admin', featureFile: 'features/admin.md', worktreePath: '/wt', branchName: 'feature/admin', baseBranch: 'main',
+      forgeName: 'GitHub', requestLabel: 'PR', requestName: 'Pull Request', createCommand: 'gh pr create --fill',
+      issueNumber: undefined, issueUrl: '', issueReference: '', verifyCommands: '', verifyOpensRequest: false
+    }
+    expect(renderPromptTemplate(projectRoot, 'start', variables)).toBe(renderTemplate(DEFAULT_PROMPT_TEMPLATES.start, variables))
+    expect(renderPromptTemplate(projectRoot, 'start', variables)).toContain('6. **Create a Pull Request** when ready: `gh pr create --fill`')
+
+    const promptsDir = path.join(projectRoot, '.worktree-agent', 'prompts')
+    fs.mkdirSync(promptsDir, { recursive: true })
+    fs.writeFileSync(path.join(promptsDir, 'start.md'), 'Implement FEATURE.md on {{branchName}}.\nRun `make check` before committing.\n')
+
+    expect(renderPromptTemplate(projectRoot, 'start', variables)).toBe('Implement FEATURE.md on feature/admin.\nRun `make check` before committing.\n')
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  getRegistryPath,
+  getFeatureSession,
+  listFeatureSessions,
+  removeFeatureSession,
+  resolveFeatureSession,
+  saveFeatureSession,
+  updateFeatureSession,
+  FeatureSession
+} from '../../src/utils/registry'
+
+function createSession(overrides: Partial<FeatureSession> = {}): FeatureSession {
+  return {
+    featureName: 'test-feature',
+    featureFile: '/test/project/features/test-feature.md',
+    worktreePath: '/test/project/.worktrees/test-feature',
+    branchName: 'fix/test-feature',
+    baseBranch: 'develop',
+    pid: 1234,
+    command: 'claude --dangerously-skip-permissions',
+    mode: 'background',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    startedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+describe('feature registry', () => {
+  let projectRoot: string
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-registry-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  it('should persist sessions to .worktrees/registry.json', () => {
+    saveFeatureSession(projectRoot, createSession())
+
+    expect(fs.existsSync(path.join(projectRoot, '.worktrees', 'registry.json'))).toBe(true)
+    expect(getFeatureSession(projectRoot, 'test-feature')?.branchName).toBe('fix/test-feature')
+    expect(listFeatureSessions(projectRoot)).toHaveLength(1)
+  })
+
+  it('should resolve registered branch and base branch', () => {
+    saveFeatureSession(projectRoot, createSession())
+
+    const session = resolveFeatureSession(projectRoot, 'test-feature')
+
+    expect(session.registered).toBe(true)
+    expect(session.branchName).toBe('fix/test-feature')
+    expect(session.baseBranch).toBe('develop')
+  })
+
+  it('should fall back to historical defaults for unregistered worktrees', () => {
+    const session = resolveFeatureSession(projectRoot, 'legacy-feature')
+
+    expect(session.registered).toBe(false)
+    expect(session.branchName).toBe('feature/legacy-feature')
+    expect(session.baseBranch).toBe('main')
+    expect(session.worktreePath).toBe(path.join(projectRoot, '.worktrees', 'legacy-feature'))
+  })
+
+  it('should update and remove sessions', () => {
+    saveFeatureSession(projectRoot, createSession())
+
+    updateFeatureSession(projectRoot, 'test-feature', { pid: 5678 })
+    expect(getFeatureSession(projectRoot, 'test-feature')?.pid).toBe(5678)
+
+    removeFeatureSession(projectRoot, 'test-feature')
+    expect(getFeatureSession(projectRoot, 'test-feature')).toBeUndefined()
+    expect(fs.existsSync(getRegistryPath(projectRoot))).toBe(false)
+  })
+
+  it('should report a corrupt registry clearly', () => {
+    fs.mkdirSync(path.join(projectRoot, '.worktrees'))
+    fs.writeFileSync(getRegistryPath(projectRoot), '{ not json')
+
+    expect(() => listFeatureSessions(projectRoot)).toThrow('Feature registry')
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { execa } from 'execa'
+import { createResourceWatcher, listFeatureResources, parseResourceUri, readFeatureResource } from '../../src/utils/resources'
+import { appendLogLine } from '../../src/utils/agent-log'
+import { addProject } from '../../src/utils/projects'
+
+describe('feature resources', () => {
+  let tempDir: string
+  let projectRoot: string
+  let worktreePath: string
+
+  const git = (cwd: string, ...args: string[]) => execa('git', args, { cwd })
+
+  beforeEach(async () => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-resources-')))
+    process.env.WORKTREE_AGENT_HOME = path.join(tempDir, 'home')
+    projectRoot = path.join(tempDir, 'app')
+    fs.mkdirSync(projectRoot)
+    process.env.PROJECT_ROOT = projectRoot
+
+    await git(projectRoot, 'init', '-q', '-b', 'main')
+    await git(projectRoot, 'config', 'user.email', 'test@example.com')
+    await git(projectRoot, 'config', 'user.name', 'Test')
+    fs.writeFileSync(path.join(projectRoot, 'app.ts'), 'export const app = 1\n')
+    await git(projectRoot, 'add', '.')
+    await git(projectRoot, 'commit', '-q', '-m', 'initial')
+
+    worktreePath = path.join(projectRoot, '.worktrees', 'admin')
+    await git(projectRoot, 'worktree', 'add', '-q', '-b', 'feature/admin', worktreePath, 'main')
+    fs.writeFileSync(path.join(worktreePath, 'FEATURE.md'), '# Admin\n')
+  })
+
+  afterEach(() => {
+    delete process.env.PROJECT_ROOT
+    delete process.env.WORKTREE_AGENT_HOME
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('should list and read the resources each feature has', async () => {
+    expect(listFeatureResources().map(resource => resource.uri)).toEqual(['worktree://admin/spec', 'worktree://admin/diff'])
+
+    // Committed and uncommitted work both show in the diff
+    fs.writeFileSync(path.join(worktreePath, 'admin.ts'), 'export const admin = true\n')
+    await git(worktreePath, 'add', 'admin.ts')
+    await git(worktreePath, 'commit', '-q', '-m', 'add admin')
+    fs.appendFileSync(path.join(worktreePath, 'app.ts'), 'export const more = 2\n')
+    fs.writeFileSync(path.join(worktreePath, 'draft.ts'), 'export const draft = 3\n')
+    const diff = await readFeatureResource('worktree://admin/diff')
+    expect(diff.mimeType).toBe('text/x-diff')
+    expect(diff.text).toContain('+export const admin = true')
+    expect(diff.text).toContain('+export const more = 2')
+    // New files too, without adding them to the worktree's index
+    expect(diff.text).toContain('+export const draft = 3')
+    expect(diff.text).not.toContain('FEATURE.md')
+    expect((await git(worktreePath, 'status', '--porcelain')).stdout).toContain('?? draft.ts')
+
+    expect((await readFeatureResource('worktree://admin/spec')).text).toBe('# Admin\n')
+    await expect(readFeatureResource('worktree://admin/revision')).rejects.toThrow('admin has no REVISION.md')
+    await expect(readFeatureResource('worktree://billing/spec')).rejects.toThrow("Feature 'billing' not found")
+    await expect(readFeatureResource('worktree://admin/tests')).rejects.toThrow("Invalid resource URI 'worktree://admin/tests'")
+
+    appendLogLine(projectRoot, 'admin', 'stdout', 'Reading FEATURE.md')
+    expect(listFeatureResources().map(resource => resource.uri)).toContain('worktree://admin/log')
+    expect((await readFeatureResource('worktree://admin/log')).text).toMatch(/\[stdout\] Reading FEATURE\.md$/)
+  })
+
+  it('should address other registered projects with ?project=', () => {
+    addProject('app', projectRoot)
+    delete process.env.PROJECT_ROOT
+
+    expect(listFeatureResources().map(resource => resource.uri)).toContain('worktree://admin/spec?project=app')
+    expect(parseResourceUri('worktree://admin/spec?project=app')).toMatchObject({ projectRoot, featureName: 'admin', kind: 'spec' })
+    expect(() => parseResourceUri('worktree://admin/spec')).toThrow('needs PROJECT_ROOT or a ?project=<name>')
+    expect(() => parseResourceUri('worktree://admin/spec?project=mobile')).toThrow("Unknown project 'mobile'")
+  })
+
+  it('should notify subscribers when a resource or the resource list changes', async () => {
+    const updated: string[] = []
+    let listChanges = 0
+    const watcher = createResourceWatcher({ updated: uri => updated.push(uri), listChanged: () => listChanges++ })
+    watcher.start()
+    watcher.stop()
+
+    await watcher.subscribe('worktree://admin/spec')
+    await watcher.subscribe('worktree://admin/diff')
+    await watcher.poll()
+    expect(updated).toEqual([])
+    expect(listChanges).toBe(0)
+
+    fs.appendFileSync(path.join(worktreePath, 'FEATURE.md'), '\nMore requirements\n')
+    fs.appendFileSync(path.join(worktreePath, 'app.ts'), 'export const more = 2\n')
+    fs.writeFileSync(path.join(worktreePath, 'REVISION.md'), '# Revision\n')
+    await watcher.poll()
+    expect(updated.sort()).toEqual(['worktree://admin/diff', 'worktree://admin/spec'])
+    expect(listChanges).toBe(1)
+
+    watcher.unsubscribe('worktree://admin/spec')
+    fs.appendFileSync(path.join(worktreePath, 'FEATURE.md'), 'Even more\n')
+    await watcher.poll()
+    expect(updated).toHaveLength(2)
+  })
+})
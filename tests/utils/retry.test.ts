@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import { execSync, spawnSync } from 'child_process'
+import { AgentLaunch, launchAgent } from '../../src/utils/agent-runner'
+import { getLogPath } from '../../src/utils/agent-log'
+import { loadProjectConfig } from '../../src/utils/project-config'
+import { formatRetryState, resumeRetryLoops, startRetryLoop, stopRetryLoop } from '../../src/utils/retry'
+import { getFeatureSession, updateFeatureSession } from '../../src/utils/registry'
+import { createTestFeature } from './fixtures'
+
+describe('retry', () => {
+  let projectRoot: string
+  let worktreePath: string
+  let writeConfig: (config: unknown) => void
+  let cleanup: () => void
+
+  // Attempt 1, as feature_start would launch it
+  async function startAgent(script: string) {
+    await startRetryLoop(projectRoot, 'test-feature', worktreePath)
+    const launch: AgentLaunch = { profile: 'command', mode: 'background', command: 'sh', args: ['-c', script], prompt: '' }
+    const child = launchAgent(projectRoot, 'test-feature', worktreePath, launch)
+    updateFeatureSession(projectRoot, 'test-feature', { pid: child.pid, startedAt: new Date().toISOString() })
+  }
+
+  async function waitForRetry(done: (status?: string) => boolean) {
+    for (let i = 0; i < 100 && !done(getFeatureSession(projectRoot, 'test-feature')?.retry?.status); i++) {
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+    return getFeatureSession(projectRoot, 'test-feature')!.retry!
+  }
+
+  beforeEach(() => {
+    ({ projectRoot, worktreePath, writeConfig, cleanup } = createTestFeature('worktree-retry-'))
+    execSync('git init -q && git -c user.name=test -c user.email=test@example.com commit -q --allow-empty -m initial', { cwd: worktreePath })
+  })
+
+  afterEach(() => {
+    delete process.env.AGENT_COMMAND_TEMPLATE
+    cleanup()
+  })
+
+  it('should relaunch the agent with the failures until verification passes', async () => {
+    writeConfig({ verify: { commands: { test: 'test -f fixed || { echo "fixed is missing"; exit 1; }' }, retry: { maxAttempts: 3, backoffSeconds: 0 } } })
+    // The retry fixes what attempt 1 left broken
+    process.env.AGENT_COMMAND_TEMPLATE = "sh -c 'touch fixed && git add fixed && git -c user.name=test -c user.email=test@example.com commit -qm fix'"
+
+    await startAgent('echo not fixed > notes.txt')
+    const retry = await waitForRetry(status => status === 'passed' || status === 'exhausted' || status === 'stopped')
+
+    expect(retry.status).toBe('passed')
+    expect(retry.attempts.map(attempt => [attempt.attempt, attempt.passed, attempt.failedGates])).toEqual([
+      [1, false, ['test']],
+      [2, true, []]
+    ])
+    expect(formatRetryState(retry)).toBe('✅ Passed verification on attempt 2 of 3')
+
+    // The brief has the failing output and what attempt 1 changed
+    const brief = fs.readFileSync(retry.attempts[1].briefPath!, 'utf-8')
+    expect(brief).toContain('This is attempt 2 of 3')
+    expect(brief).toContain('### test: `test -f fixed || { echo "fixed is missing"; exit 1; }` (exited with code 1)\n\n```\nfixed is missing\n```')
+    // Its notes were never added, but they're part of what it changed
+    expect(brief).toContain('+++ b/notes.txt\n@@ -0,0 +1 @@\n+not fixed')
+    expect(fs.readFileSync(getLogPath(projectRoot, 'test-feature'), 'utf-8')).toContain('[retry] Verification passed on attempt 2 of 3')
+  })
+
+  it('should give up after maxAttempts and validate the policy', async () => {
+    writeConfig({ verify: { commands: { test: 'exit 1' }, retry: { maxAttempts: 1 } } })
+    expect(loadProjectConfig(projectRoot).verify.retry).toEqual({ maxAttempts: 1, backoffSeconds: 60, backoffMultiplier: 2 })
+
+    await startAgent('echo done')
+    const retry = await waitForRetry(status => status !== 'running')
+    expect(retry).toMatchObject({ status: 'exhausted', attempts: [{ attempt: 1, passed: false }] })
+    expect(formatRetryState(retry)).toContain('Still failing after 1 attempt(s)')
+    expect(stopRetryLoop(projectRoot, 'test-feature', 'Stopped by feature_stop')).toBe(false)
+
+    writeConfig({ verify: { commands: { test: 'exit 1' }, retry: { maxAttempts: 0 } } })
+    expect(() => loadProjectConfig(projectRoot)).toThrow("'verify.retry.maxAttempts'")
+    writeConfig({ verify: { retry: { maxAttempts: 2 } } })
+    expect(() => loadProjectConfig(projectRoot)).toThrow("'verify.retry' needs at least one command")
+  })
+
+  it('should resume retries a restarted server was waiting on', async () => {
+    writeConfig({ verify: { commands: { test: 'test -f fixed' }, retry: { maxAttempts: 3, backoffSeconds: 0 } } })
+    process.env.AGENT_COMMAND_TEMPLATE = "sh -c 'touch fixed'"
+    const waiting = {
+      status: 'waiting' as const,
+      maxAttempts: 3,
+      attempts: [{ attempt: 1, startedAt: '2024-01-01T00:00:00.000Z', endedAt: '2024-01-01T00:05:00.000Z', passed: false }],
+      nextAttemptAt: '2024-01-01T00:06:00.000Z'
+    }
+
+    // Another server that's still running keeps its own timer
+    updateFeatureSession(projectRoot, 'test-feature', { retry: { ...waiting, serverPid: process.ppid } })
+    expect(resumeRetryLoops(projectRoot)).toBe(0)
+
+    // One that's gone left it overdue
+    updateFeatureSession(projectRoot, 'test-feature', { retry: { ...waiting, serverPid: spawnSync('true').pid } })
+    expect(resumeRetryLoops(projectRoot)).toBe(1)
+    expect(resumeRetryLoops(projectRoot)).toBe(0)
+    const retry = await waitForRetry(status => status === 'passed' || status === 'exhausted' || status === 'stopped')
+    expect(retry).toMatchObject({ status: 'passed', attempts: [{ attempt: 1 }, { attempt: 2, passed: true }] })
+    expect(fs.readFileSync(getLogPath(projectRoot, 'test-feature'), 'utf-8')).toContain('[retry] Server restarted - attempt 2 of 3 in 0s')
+  })
+})
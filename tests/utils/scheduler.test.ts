@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { spawn } from 'child_process'
+import {
+  getMaxConcurrentAgents,
+  getQueuePosition,
+  removeQueuedJob,
+  scheduleAgentJob,
+  AgentJob
+} from '../../src/utils/scheduler'
+
+function createJob(projectRoot: string, featureName: string, runtimeMs: number, started: string[]): AgentJob {
+  return {
+    projectRoot,
+    featureName,
+    kind: 'start',
+    queuedAt: new Date().toISOString(),
+    run: async () => {
+      started.push(featureName)
+      return { child: spawn(process.execPath, ['-e', `setTimeout(() => {}, ${runtimeMs})`], { stdio: 'ignore' }) }
+    }
+  }
+}
+
+describe('agent scheduler', () => {
+  let projectRoot: string
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-scheduler-'))
+    process.env.MAX_CONCURRENT_AGENTS = '1'
+  })
+
+  afterEach(() => {
+    delete process.env.MAX_CONCURRENT_AGENTS
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  it('should queue jobs over the limit and start them when an agent exits', async () => {
+    const started: string[] = []
+
+    const first = await scheduleAgentJob(createJob(projectRoot, 'first', 300, started))
+    const second = await scheduleAgentJob(createJob(projectRoot, 'second', 0, started))
+
+    expect(first.started).toBe(true)
+    expect(second).toEqual({ started: false, position: 1 })
+    expect(getQueuePosition(projectRoot, 'second')).toBe(1)
+
+    if (first.started) {
+      await new Promise(resolve => first.child.on('close', resolve))
+    }
+    await new Promise(resolve => setTimeout(resolve, 200))
+
+    expect(started).toEqual(['first', 'second'])
+    expect(getQueuePosition(projectRoot, 'second')).toBeUndefined()
+  })
+
+  it('should let queued jobs be removed', async () => {
+    const started: string[] = []
+
+    const first = await scheduleAgentJob(createJob(projectRoot, 'first', 300, started))
+    await scheduleAgentJob(createJob(projectRoot, 'second', 0, started))
+
+    expect(removeQueuedJob(projectRoot, 'second')).toBe(true)
+
+    if (first.started) {
+      await new Promise(resolve => first.child.on('close', resolve))
+    }
+    await new Promise(resolve => setTimeout(resolve, 200))
+
+    expect(started).toEqual(['first'])
+  })
+
+  it('should hold concurrent calls to the limit and launch queued jobs side by side', async () => {
+    process.env.MAX_CONCURRENT_AGENTS = '2'
+    const started: string[] = []
+    // Queued launches that take a while, like a dependency install
+    const slowJob = (featureName: string): AgentJob => {
+      const job = createJob(projectRoot, featureName, 0, started)
+      return { ...job, run: async () => { started.push(featureName); await new Promise(resolve => setTimeout(resolve, 500)); return job.run() } }
+    }
+
+    const results = await Promise.all([
+      scheduleAgentJob(createJob(projectRoot, 'first', 100, started)),
+      scheduleAgentJob(createJob(projectRoot, 'second', 100, started)),
+      scheduleAgentJob(slowJob('third')),
+      scheduleAgentJob(slowJob('fourth'))
+    ])
+    expect(results.map(result => result.started)).toEqual([true, true, false, false])
+
+    // Both free slots are filled without waiting for the first queued launch to finish
+    await new Promise(resolve => setTimeout(resolve, 350))
+    expect(started).toEqual(['first', 'second', 'third', 'fourth'])
+    await new Promise(resolve => setTimeout(resolve, 300))
+  })
+
+  it('should take the limit from the project config unless MAX_CONCURRENT_AGENTS overrides it', () => {
+    const writeConfig = (config: unknown) => fs.writeFileSync(path.join(projectRoot, '.worktree-agent.json'), JSON.stringify(config))
+    delete process.env.MAX_CONCURRENT_AGENTS
+    expect(getMaxConcurrentAgents(projectRoot)).toBe(3)
+    writeConfig({ maxConcurrentAgents: 5 })
+    expect(getMaxConcurrentAgents(projectRoot)).toBe(5)
+
+    process.env.MAX_CONCURRENT_AGENTS = '2'
+    expect(getMaxConcurrentAgents(projectRoot)).toBe(2)
+    process.env.MAX_CONCURRENT_AGENTS = 'lots'
+    expect(() => getMaxConcurrentAgents(projectRoot)).toThrow('MAX_CONCURRENT_AGENTS must be a positive integer')
+
+    delete process.env.MAX_CONCURRENT_AGENTS
+    writeConfig({ maxConcurrentAgents: 1.5 })
+    expect(() => getMaxConcurrentAgents(projectRoot)).toThrow("'maxConcurrentAgents' must be a whole number")
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { featureSpecLint } from '../../src/tools/feature-spec-lint'
+import { formatLintFindings, lintFeatureSpec } from '../../src/utils/spec-lint'
+import { DEFAULT_PROJECT_CONFIG, loadProjectConfig } from '../../src/utils/project-config'
+
+describe('feature spec lint', () => {
+  let projectRoot: string
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true })
+    fs.writeFileSync(path.join(projectRoot, file), content)
+  }
+  const lint = (file: string) => lintFeatureSpec(projectRoot, path.join(projectRoot, file), loadProjectConfig(projectRoot).specLint)
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'worktree-spec-lint-'))
+    write('src/app.ts', 'export const app = 1\n')
+    write('docs/design.md', '# Design\n')
+  })
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true })
+  })
+
+  it('should report missing sections, empty checklists, broken links and missing paths', async () => {
+    write('features/admin.md', `---
+baseBranch: develop
+---
+# Admin
+
+## Description
+See [the design](../docs/design.md), [the API](../docs/api.md) and [the wiki](https://example.com/wiki).
+Change \`src/app.ts\`, \`src/admin/page.ts\` and \`config.yml\`.
+
+## Acceptance Criteria
+- [ ]
+- [ ]
+
+\`\`\`md
+## Out of Scope
+- [ ]
+\`\`\`
+`)
+
+    const report = lint('features/admin.md')
+    expect(report.findings).toEqual([
+      { rule: 'empty-section', severity: 'error', message: "Section 'Acceptance Criteria' is empty", line: 10 },
+      { rule: 'missing-section', severity: 'error', message: "Missing required section 'Out of Scope' (or Non-Goals)", line: undefined },
+      { rule: 'broken-link', severity: 'error', message: "Link to '../docs/api.md' doesn't resolve", line: 7 },
+      { rule: 'missing-path', severity: 'warning', message: "'src/admin/page.ts' doesn't exist in the repo (fine if the feature creates it)", line: 8 },
+      { rule: 'empty-checkbox', severity: 'error', message: 'Checkbox without a task', line: 11 },
+      { rule: 'empty-checkbox', severity: 'error', message: 'Checkbox without a task', line: 12 }
+    ])
+    expect(report).toMatchObject({ errors: 5, warnings: 1 })
+    expect(formatLintFindings(report.findings.slice(0, 1))).toBe("❌ line 10: Section 'Acceptance Criteria' is empty (empty-section)")
+
+    const result = await featureSpecLint({ projectRoot, featureFile: 'features/admin.md', format: 'both' })
+    expect(result.content[0].text).toContain('5 error(s), 1 warning(s)')
+    expect(JSON.parse(result.content[1].text)).toMatchObject({ featureName: 'admin', startable: false, errors: 5 })
+  })
+
+  it('should use the project\'s required sections and scope limits', () => {
+    expect(DEFAULT_PROJECT_CONFIG.specLint.requiredSections).toHaveLength(3)
+    write('.worktree-agent.json', JSON.stringify({ specLint: { requiredSections: ['Goal'], maxTasks: 2 } }))
+    write('features/search.md', '# Search\n\n## Goal\n- Fast\n- Fuzzy\n- Typo tolerant\n')
+
+    expect(lint('features/search.md').findings).toEqual([
+      { rule: 'scope-size', severity: 'warning', message: 'Large scope: 6 words and 3 tasks (limits 1500 and 2) - consider splitting it into several features', line: undefined }
+    ])
+
+    write('.worktree-agent.json', JSON.stringify({ specLint: { maxWords: 0 } }))
+    expect(() => loadProjectConfig(projectRoot)).toThrow("'specLint.maxWords' must be a positive whole number")
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { featureUsage } from '../../src/tools/feature-usage'
+import { AgentLaunch, launchAgent } from '../../src/utils/agent-runner'
+import { getLogPath } from '../../src/utils/agent-log'
+import { parseFeatureSpec } from '../../src/utils/feature-spec'
+import { loadProjectConfig } from '../../src/utils/project-config'
+import { getFeatureSession, removeFeatureSession, updateFeatureSession } from '../../src/utils/registry'
+import { getBudgetOverrun, getProjectUsage, getUsageLedgerPath, UsageRunKind } from '../../src/utils/usage'
+import { createTestFeature } from './fixtures'
+
+const assistant = (id: string, usage: object, model?: string) => JSON.stringify({ type: 'assistant', message: { id, model, usage } })
+
+describe('usage', () => {
+  let projectRoot: string
+  let worktreePath: string
+  let writeConfig: (config: unknown) => void
+  let cleanup: () => void
+
+  // An agent that prints stream-json events, then runs script
+  async function runAgent(events: string[], run: UsageRunKind, script = 'true') {
+    fs.writeFileSync(path.join(worktreePath, 'events.jsonl'), events.join('\n') + '\n')
+    const launch: AgentLaunch = { profile: 'command', mode: 'background', command: 'sh', args: ['-c', `cat events.jsonl; ${script}`], prompt: '' }
+    const child = launchAgent(projectRoot, 'test-feature', worktreePath, launch, { run })
+    updateFeatureSession(projectRoot, 'test-feature', { pid: child.pid, startedAt: new Date().toISOString() })
+    await new Promise(resolve => child.on('close', resolve))
+    return getFeatureSession(projectRoot, 'test-feature')!
+  }
+
+  beforeEach(() => {
+    ({ projectRoot, worktreePath, writeConfig, cleanup } = createTestFeature('worktree-usage-'))
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  it('should total the usage of every run from stream-json output', async () => {
+    await runAgent([
+      JSON.stringify({ type: 'system', subtype: 'init' }),
+      // The same message again with its final output count
+      assistant('msg_1', { input_tokens: 10, cache_creation_input_tokens: 1000, cache_read_input_tokens: 5000, output_tokens: 5 }),
+      assistant('msg_1', { input_tokens: 10, cache_creation_input_tokens: 1000, cache_read_input_tokens: 5000, output_tokens: 50 }),
+      assistant('msg_2', { input_tokens: 20, cache_read_input_tokens: 6000, output_tokens: 100 }),
+      JSON.stringify({ type: 'result', subtype: 'success', total_cost_usd: 0.25, usage: { input_tokens: 30, cache_creation_input_tokens: 1000, cache_read_input_tokens: 11000, output_tokens: 150 } })
+    ], 'start')
+    // A revision round that never reported its cost: priced at Sonnet's $3/$15 per million tokens
+    const session = await runAgent([assistant('msg_3', { input_tokens: 10000, output_tokens: 2050 }, 'claude-sonnet-4-5')], 'revision')
+
+    expect(session.usage!.runs).toMatchObject([
+      { kind: 'start', pid: expect.any(Number), inputTokens: 12030, cachedInputTokens: 11000, outputTokens: 150, costUsd: 0.25, reported: true, endedAt: expect.any(String) },
+      { kind: 'revision', inputTokens: 10000, cachedInputTokens: 0, outputTokens: 2050, costUsd: expect.closeTo(0.06075, 8), reported: false }
+    ])
+    expect(session.usage!.total).toMatchObject({ inputTokens: 22030, cachedInputTokens: 11000, outputTokens: 2200, costUsd: expect.closeTo(0.31075, 8) })
+
+    const result = await featureUsage({ projectRoot, featureName: 'test-feature', format: 'both' })
+    const [text, json] = result.content.map(item => item.text)
+    expect(text).toContain('📊 **Project:** 22.0k in (11.0k cached) / 2.2k out tokens, $0.31')
+    expect(text).toContain('• **test-feature:** 22.0k in (11.0k cached) / 2.2k out tokens, $0.31 over 2 run(s)')
+    expect(text).toMatch(/2\. revision at .*: 10\.0k in \(0 cached\) \/ 2\.0k out tokens, \$0\.06 \(estimated cost\)/)
+    expect(JSON.parse(json)).toMatchObject({ total: { outputTokens: 2200 }, features: [{ featureName: 'test-feature', budget: {} }] })
+  })
+
+  it('should stop an agent over budget and refuse to spend more', async () => {
+    writeConfig({ budget: { feature: { maxCostUsd: 0.05 }, total: { maxTokens: 100000 } } })
+
+    // Opus at $15 per million input tokens: the estimate passes the budget before the run reports a cost
+    await runAgent([assistant('msg_1', { input_tokens: 12000, output_tokens: 10 }, 'claude-opus-4-1')], 'start', 'sleep 30')
+    // The stop is recorded once the agent has exited
+    for (let i = 0; i < 50 && !getFeatureSession(projectRoot, 'test-feature')?.stoppedAt; i++) {
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+    const session = getFeatureSession(projectRoot, 'test-feature')!
+    expect(session.stopReason).toBe("Budget used up: $0.18 of the feature's $0.05 budget spent")
+    expect(session.usage!.runs[0]).toMatchObject({ costUsd: expect.closeTo(0.18075, 8), reported: false })
+    expect(fs.readFileSync(getLogPath(projectRoot, 'test-feature'), 'utf-8')).toContain('[usage] Budget used up')
+    expect((await featureUsage({ projectRoot })).content[0].text).toContain('⛔ **test-feature:**')
+
+    // Other features are held to the project's total, which cleanup doesn't reset
+    removeFeatureSession(projectRoot, 'test-feature')
+    expect(fs.existsSync(getUsageLedgerPath(projectRoot))).toBe(true)
+    expect(getProjectUsage(projectRoot)).toMatchObject({ inputTokens: 12000, outputTokens: 10 })
+    writeConfig({ budget: { total: { maxTokens: 10000 } } })
+    expect(getBudgetOverrun(projectRoot, 'other-feature')).toBe("12.0k of the project's 10.0k token budget used")
+
+    writeConfig({ budget: { feature: { maxCostUsd: 0 } } })
+    expect(() => loadProjectConfig(projectRoot)).toThrow("'budget.feature.maxCostUsd' must be a number greater than 0")
+    expect(parseFeatureSpec('---\nbudget:\n  maxCostUsd: 2.5\n---\n# Spec\n').config.budget).toEqual({ maxTokens: undefined, maxCostUsd: 2.5 })
+  })
+})